@@ -0,0 +1,38 @@
+import { logger } from 'firebase-functions';
+import { getFirestore } from 'firebase-admin/firestore';
+
+const CONFIG_COLLECTION = 'app_config';
+
+// How long a function instance reuses a config document it read from Firestore
+const CONFIG_CACHE_MS = 60 * 1000;
+
+const cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+/**
+ * Read `app_config/<docId>` through `parse`, so settings can be tuned without
+ * a redeploy. Changes reach running instances within CONFIG_CACHE_MS. A
+ * missing document or failed read falls back to `parse(undefined)`.
+ */
+export const getAppConfig = async <T>(
+  docId: string,
+  parse: (data: Record<string, unknown> | undefined) => T,
+  now: number = Date.now()
+): Promise<T> => {
+  const cached = cache.get(docId);
+
+  if (cached && cached.expiresAt > now) {
+    return cached.value as T;
+  }
+
+  let data: Record<string, unknown> | undefined;
+
+  try {
+    data = (await getFirestore().collection(CONFIG_COLLECTION).doc(docId).get()).data();
+  } catch (error) {
+    logger.warn('Failed to read app config, using defaults', { docId, error });
+  }
+
+  const value = parse(data);
+  cache.set(docId, { value, expiresAt: now + CONFIG_CACHE_MS });
+  return value;
+};
@@ -0,0 +1,122 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { Firestore, getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { toWhatsAppRecipient } from './phoneConfig';
+
+const USERS_COLLECTION = 'user_profiles';
+const CONVERSATIONS_COLLECTION = 'conversations';
+export const SEND_AUDIT_COLLECTION = 'message_audit';
+
+export type SenderRole = 'operator' | 'business_owner';
+
+const SENDER_ROLES: SenderRole[] = ['operator', 'business_owner'];
+
+export interface AuthorizedSender {
+  uid: string;
+  role: SenderRole;
+  conversationId: string;
+}
+
+export type SendChannel = 'callable' | 'http' | 'outbox';
+
+export interface SendAuditRecord {
+  uid: string;
+  channel: SendChannel;
+  outcome: 'sent' | 'duplicate' | 'denied' | 'rate_limited' | 'failed';
+  role?: SenderRole;
+  to?: string;
+  conversationId?: string;
+  messageId?: string;
+  kind?: 'text' | 'template' | 'media' | 'interactive';
+  whatsappMessageId?: string;
+  error?: string;
+}
+
+const isSenderRole = (value: unknown): value is SenderRole => {
+  return SENDER_ROLES.includes(value as SenderRole);
+};
+
+/**
+ * Look up the caller's role: a `role` custom claim, when set by an admin,
+ * takes precedence over the profile. Throws `permission-denied` for
+ * inactive accounts and roles other than operator or business owner.
+ */
+export const resolveSenderRole = async (
+  uid: string,
+  claims: Record<string, unknown> = {},
+  db: Firestore = getFirestore()
+): Promise<SenderRole> => {
+  const profile = (await db.collection(USERS_COLLECTION).doc(uid).get()).data();
+
+  if (!profile || profile.isActive === false) {
+    throw new HttpsError('permission-denied', 'Your account is not active. Ask a business owner to enable it.');
+  }
+
+  const role = claims.role ?? profile.role;
+
+  if (!isSenderRole(role)) {
+    throw new HttpsError('permission-denied', 'Only operators and business owners can send WhatsApp messages.');
+  }
+
+  return role;
+};
+
+/**
+ * Check that `uid` may message `to`: the caller needs a sender role (see
+ * resolveSenderRole), and `to` must belong to an existing conversation.
+ * Operators may only use conversations that are unassigned or assigned to
+ * them. Throws `permission-denied` otherwise.
+ */
+export const authorizeSend = async (
+  uid: string,
+  to: string,
+  conversationId?: string,
+  claims: Record<string, unknown> = {},
+  db: Firestore = getFirestore()
+): Promise<AuthorizedSender> => {
+  const role = await resolveSenderRole(uid, claims, db);
+
+  // Conversations are keyed by the customer's phone digits; older ones may only match on customerPhone
+  const recipient = toWhatsAppRecipient(to);
+  const conversationRef = db.collection(CONVERSATIONS_COLLECTION).doc(conversationId || recipient);
+  let conversationSnap = await conversationRef.get();
+
+  if (!conversationSnap.exists && !conversationId) {
+    const matches = await db.collection(CONVERSATIONS_COLLECTION)
+      .where('customerPhone', '==', to)
+      .limit(1)
+      .get();
+    conversationSnap = matches.docs[0] ?? conversationSnap;
+  }
+
+  const conversation = conversationSnap.data();
+
+  if (!conversation || toWhatsAppRecipient(String(conversation.customerPhone || '')) !== recipient) {
+    throw new HttpsError('permission-denied', 'Messages can only be sent to customers with an existing conversation.');
+  }
+
+  if (role === 'operator' && conversation.assignedOperatorId && conversation.assignedOperatorId !== uid) {
+    throw new HttpsError('permission-denied', 'This conversation is assigned to another operator.');
+  }
+
+  return { uid, role, conversationId: conversationSnap.id };
+};
+
+/**
+ * Append a record to `message_audit`. Auditing must never turn a delivered
+ * message into a reported failure, so write errors are only logged.
+ */
+export const recordSendAudit = async (record: SendAuditRecord, db: Firestore = getFirestore()): Promise<void> => {
+  try {
+    const cleanRecord = Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined)
+    );
+
+    await db.collection(SEND_AUDIT_COLLECTION).add({
+      ...cleanRecord,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    logger.error('Failed to write send audit record', { uid: record.uid, outcome: record.outcome, error });
+  }
+};
@@ -0,0 +1,56 @@
+import { DocumentSnapshot, FieldValue, Firestore, getFirestore, Transaction, WriteBatch } from 'firebase-admin/firestore';
+
+export const CAMPAIGNS_COLLECTION = 'campaigns';
+export const RECIPIENTS_SUBCOLLECTION = 'recipients';
+
+export type RecipientState = 'pending' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'excluded';
+
+// Stored on campaign chat messages and outbox entries so results reach the campaign report
+export interface CampaignMessageRef {
+  campaignId: string;
+  recipientId: string;
+  // The campaign's rate when queued; sizes its rate-limit bucket
+  sendRatePerMinute?: number;
+}
+
+const recipientRef = (ref: CampaignMessageRef, db: Firestore = getFirestore()) => {
+  return db
+    .collection(CAMPAIGNS_COLLECTION).doc(ref.campaignId)
+    .collection(RECIPIENTS_SUBCOLLECTION).doc(ref.recipientId);
+};
+
+// Outbox result for a campaign message, written in the outbox's own batch
+export const recordCampaignSendResult = (
+  batch: WriteBatch,
+  ref: CampaignMessageRef,
+  result: { ok: true; whatsappMessageId?: string } | { ok: false; error: string },
+  db: Firestore = getFirestore()
+): void => {
+  batch.set(recipientRef(ref, db), {
+    state: result.ok ? 'sent' : 'failed',
+    ...(result.ok ? { whatsappMessageId: result.whatsappMessageId || null } : { error: result.error }),
+    updatedAt: FieldValue.serverTimestamp(),
+  }, { merge: true });
+};
+
+// Delivery callback for a campaign message. The caller has already checked
+// that the status moves forward, so the recipient's state follows it.
+export const recordCampaignDeliveryStatus = (
+  transaction: Transaction,
+  messageSnap: DocumentSnapshot,
+  status: RecipientState,
+  error?: { code: number; message: string },
+  db: Firestore = getFirestore()
+): void => {
+  const ref = messageSnap.data()?.campaign as CampaignMessageRef | undefined;
+
+  if (!ref || status === 'sent') {
+    return;
+  }
+
+  transaction.set(recipientRef(ref, db), {
+    state: status,
+    ...(error && { error: `${error.message} (code ${error.code})` }),
+    updatedAt: FieldValue.serverTimestamp(),
+  }, { merge: true });
+};
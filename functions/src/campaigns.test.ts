@@ -0,0 +1,242 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { asFirestore, createFakeFirestore } from './fakeFirestore';
+import {
+  applyCampaignCancellation,
+  CampaignSegment,
+  matchesSegment,
+  parseCreateCampaignRequest,
+  parseSegment,
+  runCampaignDispatcher,
+  scheduleCampaign,
+  SegmentCustomer,
+} from './campaigns';
+import { FakeWhatsAppService } from './fakeWhatsAppService';
+import { OUTBOX_COLLECTION, processOutboxEntry } from './outbox';
+
+const customer: SegmentCustomer = {
+  tags: ['VIP', 'wholesale'],
+  products: ['Comfort Hoodie', 'Sport Tee'],
+  categories: ['Enquiry'],
+  lastContactAt: new Date('2024-03-10T12:00:00Z'),
+};
+
+type Case = [description: string, segment: CampaignSegment, expected: boolean];
+
+const cases: Case[] = [
+  ['an empty segment matches everyone', {}, true],
+  ['any listed tag matches, ignoring case', { tags: ['vip', 'retail'] }, true],
+  ['no listed tag', { tags: ['retail'] }, false],
+  ['product enquiry', { products: ['comfort hoodie '] }, true],
+  ['product and category must both match', { products: ['Sport Tee'], categories: ['Returns'] }, false],
+  ['contact after', { lastContactAfter: new Date('2024-03-01') }, true],
+  ['contact before', { lastContactBefore: new Date('2024-03-01') }, false],
+  ['contact within range', {
+    lastContactAfter: new Date('2024-03-01'),
+    lastContactBefore: new Date('2024-03-31'),
+  }, true],
+];
+
+for (const [description, segment, expected] of cases) {
+  test(`matchesSegment: ${description}`, () => {
+    assert.equal(matchesSegment(customer, segment), expected);
+  });
+}
+
+test('matchesSegment excludes customers without a contact date from date filters', () => {
+  assert.equal(matchesSegment({ ...customer, lastContactAt: undefined }, { lastContactAfter: new Date(0) }), false);
+});
+
+test('parseSegment drops empty criteria and parses dates', () => {
+  assert.deepEqual(parseSegment({ tags: [' ', ''], products: ['Sport Tee'], lastContactAfter: '2024-03-01T00:00:00Z' }), {
+    tags: undefined,
+    products: ['Sport Tee'],
+    categories: undefined,
+    lastContactAfter: new Date('2024-03-01T00:00:00Z'),
+    lastContactBefore: undefined,
+  });
+  assert.throws(() => parseSegment({ tags: 'vip' }), /tags must be a list/);
+  assert.throws(() => parseSegment({ lastContactBefore: 'soon' }), /must be a date/);
+});
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+const TEMPLATE = { name: 'autumn_sale', language: 'en', parameters: ['20%'] };
+
+const campaignFixture = async (status: 'scheduled' | 'sending', phones: string[], sendRatePerMinute = 10) => {
+  const db = createFakeFirestore();
+  const campaignRef = db.collection('campaigns').doc('campaign-1');
+
+  await db.collection('message_templates').doc('autumn_sale').set({ ...TEMPLATE, parameters: ['discount'] });
+  await campaignRef.set({
+    name: 'Autumn sale',
+    status,
+    template: TEMPLATE,
+    content: 'Autumn sale: 20% off',
+    segment: {},
+    scheduledFor: Timestamp.fromDate(NOW),
+    sendRatePerMinute,
+    createdBy: 'owner-1',
+  });
+
+  for (const phone of phones) {
+    await db.collection('conversations').doc(phone).set({ customerPhone: `+${phone}`, customerName: 'Ava' });
+    if (status === 'sending') {
+      await campaignRef.collection('recipients').doc(phone).set({ phone, conversationId: phone, state: 'pending' });
+    }
+  }
+
+  return db;
+};
+
+test('parseCreateCampaignRequest validates the callable data', () => {
+  const request = parseCreateCampaignRequest({
+    name: ' Autumn sale ',
+    template: TEMPLATE,
+    content: 'Autumn sale: 20% off',
+    segment: { tags: ['VIP'] },
+    scheduledFor: NOW.toISOString(),
+    sendRatePerMinute: 30,
+  });
+
+  assert.equal(request.name, 'Autumn sale');
+  assert.deepEqual(request.scheduledFor, NOW);
+  assert.throws(() => parseCreateCampaignRequest({ ...request, scheduledFor: 'soon' }), /scheduledFor must be a date/);
+  assert.throws(
+    () => parseCreateCampaignRequest({ ...request, scheduledFor: NOW.toISOString(), sendRatePerMinute: 500 }),
+    /Send rate must be between 1 and 120/
+  );
+});
+
+test('scheduleCampaign records the caller as the creator', async () => {
+  const db = await campaignFixture('scheduled', []);
+  const request = parseCreateCampaignRequest({
+    name: 'Winter sale',
+    template: TEMPLATE,
+    content: 'Winter sale: 20% off',
+    segment: { lastContactAfter: '2026-01-01T00:00:00Z' },
+    scheduledFor: NOW.toISOString(),
+    sendRatePerMinute: 30,
+    createdBy: 'someone-else',
+  });
+
+  const campaignId = await scheduleCampaign('owner-2', request, asFirestore(db));
+  const campaign = db.data(`campaigns/${campaignId}`);
+
+  assert.equal(campaign?.createdBy, 'owner-2');
+  assert.equal(campaign?.status, 'scheduled');
+  assert.deepEqual(campaign?.segment, { lastContactAfter: Timestamp.fromDate(new Date('2026-01-01T00:00:00Z')) });
+});
+
+test('runCampaignDispatcher starts a due campaign once', async () => {
+  const db = await campaignFixture('scheduled', ['15551230001', '15551230002']);
+
+  await Promise.all([runCampaignDispatcher(NOW, asFirestore(db)), runCampaignDispatcher(NOW, asFirestore(db))]);
+
+  const campaign = db.data('campaigns/campaign-1');
+  assert.equal(campaign?.status, 'sending');
+  assert.equal(campaign?.recipientCount, 2);
+  assert.equal(campaign?.dispatchLeaseUntil, undefined);
+  assert.deepEqual(db.documentsIn('campaigns/campaign-1/recipients').map(([, data]) => data.state), ['pending', 'pending']);
+});
+
+test('overlapping dispatcher runs queue each recipient once', async () => {
+  const phones = ['15551230001', '15551230002', '15551230003'];
+  const db = await campaignFixture('sending', phones);
+
+  // The later run treats the earlier run's lease as expired, so both may dispatch
+  await Promise.all([
+    runCampaignDispatcher(NOW, asFirestore(db)),
+    runCampaignDispatcher(new Date(NOW.getTime() + 2 * 60 * 1000), asFirestore(db)),
+  ]);
+
+  const outbox = db.documentsIn(OUTBOX_COLLECTION).map(([, data]) => data);
+  assert.deepEqual(outbox.map(entry => entry.to).sort(), phones);
+  assert.ok(outbox.every(entry => entry.requestedBy === 'owner-1'));
+  assert.deepEqual(db.documentsIn('campaigns/campaign-1/recipients').map(([, data]) => data.state), ['queued', 'queued', 'queued']);
+});
+
+test('a dispatcher run does not queue while another run holds the lease', async () => {
+  const db = await campaignFixture('sending', ['15551230001']);
+  await db.collection('campaigns').doc('campaign-1').update({
+    dispatchLeaseUntil: Timestamp.fromMillis(NOW.getTime() + 30 * 1000),
+  });
+
+  await runCampaignDispatcher(NOW, asFirestore(db));
+
+  assert.equal(db.documentsIn(OUTBOX_COLLECTION).length, 0);
+  assert.equal(db.data('campaigns/campaign-1/recipients/15551230001')?.state, 'pending');
+});
+
+test('campaign sends above the default per-user rate are sent or deferred, never failed', async () => {
+  const phones = Array.from({ length: 45 }, (_, index) => `1555123${String(index).padStart(4, '0')}`);
+  const db = await campaignFixture('sending', phones, 40);
+  await db.collection('user_profiles').doc('owner-1').set({ role: 'business_owner' });
+  const fake = new FakeWhatsAppService();
+  const sleep = async () => {};
+
+  const processQueued = async () => {
+    for (const [path, entry] of db.documentsIn(OUTBOX_COLLECTION)) {
+      if (entry.state === 'pending') {
+        await processOutboxEntry(asFirestore(db).doc(path), fake, { sleep });
+      }
+    }
+  };
+
+  // One minute's worth goes out back to back: the campaign's bucket holds 40, not the default 30
+  await runCampaignDispatcher(NOW, asFirestore(db));
+  await processQueued();
+
+  assert.equal(fake.sent.length, 40);
+  assert.ok(db.documentsIn(OUTBOX_COLLECTION).every(([, entry]) => entry.state === 'sent'));
+
+  // The bucket is now empty, so the rest wait for it to refill
+  await runCampaignDispatcher(new Date(NOW.getTime() + 60 * 1000), asFirestore(db));
+  await processQueued();
+
+  const deferred = db.documentsIn(OUTBOX_COLLECTION).map(([, entry]) => entry).filter(entry => entry.state !== 'sent');
+  assert.equal(fake.sent.length, 40);
+  assert.equal(deferred.length, 5);
+  assert.ok(deferred.every(entry => entry.state === 'pending' && entry.attempts === 0 && entry.nextAttemptAt));
+
+  const states = db.documentsIn('campaigns/campaign-1/recipients').map(([, data]) => data.state);
+  assert.equal(states.filter(state => state === 'sent').length, 40);
+  assert.equal(states.filter(state => state === 'queued').length, 5);
+});
+
+// Runs `cancel` once, just after a dispatcher run has claimed the campaign and before its next write
+const cancelOnceLeased = (db: ReturnType<typeof createFakeFirestore>, cancel: () => Promise<unknown>) => {
+  let cancelled = false;
+  const runTransaction = db.runTransaction.bind(db);
+
+  db.runTransaction = async (update) => {
+    if (!cancelled && db.data('campaigns/campaign-1')?.dispatchLeaseUntil) {
+      cancelled = true;
+      await cancel();
+    }
+    return runTransaction(update);
+  };
+};
+
+test('cancelling a campaign stops the run that is dispatching it', async () => {
+  const db = await campaignFixture('sending', ['15551230001', '15551230002']);
+  cancelOnceLeased(db, () => applyCampaignCancellation('owner-2', 'campaign-1', asFirestore(db)));
+
+  await runCampaignDispatcher(NOW, asFirestore(db));
+
+  const campaign = db.data('campaigns/campaign-1');
+  assert.equal(campaign?.status, 'cancelled');
+  assert.equal(campaign?.cancelledBy, 'owner-2');
+  assert.equal(db.documentsIn(OUTBOX_COLLECTION).length, 0);
+  await assert.rejects(applyCampaignCancellation('owner-2', 'campaign-1', asFirestore(db)), /A cancelled campaign can't be cancelled/);
+});
+
+test('a campaign cancelled by a direct write is not switched back by its run', async () => {
+  const db = await campaignFixture('scheduled', ['15551230001']);
+  cancelOnceLeased(db, () => db.collection('campaigns').doc('campaign-1').update({ status: 'cancelled' }));
+
+  await runCampaignDispatcher(NOW, asFirestore(db));
+
+  assert.equal(db.data('campaigns/campaign-1')?.status, 'cancelled');
+  assert.equal(db.documentsIn('campaigns/campaign-1/recipients').length, 0);
+});
@@ -0,0 +1,591 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { DocumentReference, FieldValue, Firestore, getFirestore, Query, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { CAMPAIGNS_COLLECTION, RECIPIENTS_SUBCOLLECTION } from './campaignRecipients';
+import { CONSENT_COLLECTION } from './consent';
+import { queueOutboundMessage } from './outbox';
+import { toWhatsAppRecipient } from './phoneConfig';
+import { resolveTemplate } from './templates';
+import { TemplateMessage } from './whatsappService';
+
+const CONVERSATIONS_COLLECTION = 'conversations';
+// Enquiries captured by the n8n flow; the only place products and categories are recorded
+const ENQUIRIES_COLLECTION = 'messages';
+
+export const DEFAULT_SEND_RATE_PER_MINUTE = 30;
+export const MAX_SEND_RATE_PER_MINUTE = 120;
+
+// Firestore transactions take 500 writes; each queued recipient needs five
+const RECIPIENTS_PER_BATCH = 80;
+const WRITES_PER_BATCH = 400;
+
+// Keeps overlapping scheduler runs from starting or dispatching the same campaign at once
+const DISPATCH_LEASE_MS = 55 * 1000;
+
+export type CampaignStatus = 'scheduled' | 'sending' | 'completed' | 'cancelled' | 'failed';
+
+// Every criterion that is set must match; within a criterion any value matches
+export interface CampaignSegment {
+  tags?: string[];
+  products?: string[];
+  categories?: string[];
+  lastContactAfter?: Date;
+  lastContactBefore?: Date;
+}
+
+export interface SegmentCustomer {
+  tags: string[];
+  products: string[];
+  categories: string[];
+  lastContactAt?: Date;
+}
+
+export interface AudienceMember {
+  phone: string;
+  conversationId: string;
+  customerName?: string;
+}
+
+export interface Audience {
+  eligible: AudienceMember[];
+  optedOut: AudienceMember[];
+}
+
+type EnquiryInterests = Map<string, { products: string[]; categories: string[] }>;
+
+interface Campaign {
+  name: string;
+  status: CampaignStatus;
+  template: TemplateMessage;
+  content: string;
+  segment: Record<string, unknown>;
+  scheduledFor: Timestamp;
+  sendRatePerMinute?: number;
+  createdBy: string;
+  dispatchLeaseUntil?: Timestamp;
+}
+
+const normalizeValue = (value: string) => value.trim().toLowerCase();
+
+const matchesAny = (wanted: string[] | undefined, actual: string[]): boolean => {
+  if (!wanted || wanted.length === 0) {
+    return true;
+  }
+
+  const values = new Set(actual.map(normalizeValue));
+  return wanted.some(value => values.has(normalizeValue(value)));
+};
+
+export const matchesSegment = (customer: SegmentCustomer, segment: CampaignSegment): boolean => {
+  if (segment.lastContactAfter || segment.lastContactBefore) {
+    if (!customer.lastContactAt) return false;
+    if (segment.lastContactAfter && customer.lastContactAt < segment.lastContactAfter) return false;
+    if (segment.lastContactBefore && customer.lastContactAt > segment.lastContactBefore) return false;
+  }
+
+  return matchesAny(segment.tags, customer.tags)
+    && matchesAny(segment.products, customer.products)
+    && matchesAny(segment.categories, customer.categories);
+};
+
+const parseStringList = (value: unknown, field: string): string[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new HttpsError('invalid-argument', `Invalid segment: ${field} must be a list of strings`);
+  }
+
+  const items = value.map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const date = value instanceof Timestamp ? value.toDate() : new Date(value as string);
+
+  if (isNaN(date.getTime())) {
+    throw new HttpsError('invalid-argument', `Invalid segment: ${field} must be a date`);
+  }
+
+  return date;
+};
+
+// Accepts Firestore data (Timestamps) and callable data (ISO strings)
+export const parseSegment = (data: unknown): CampaignSegment => {
+  const segment = (data || {}) as Record<string, unknown>;
+
+  return {
+    tags: parseStringList(segment.tags, 'tags'),
+    products: parseStringList(segment.products, 'products'),
+    categories: parseStringList(segment.categories, 'categories'),
+    lastContactAfter: parseDate(segment.lastContactAfter, 'lastContactAfter'),
+    lastContactBefore: parseDate(segment.lastContactBefore, 'lastContactBefore'),
+  };
+};
+
+export interface CreateCampaignRequest {
+  name: string;
+  // Checked against the registered templates by scheduleCampaign
+  template: unknown;
+  content: string;
+  segment: CampaignSegment;
+  scheduledFor: Date;
+  sendRatePerMinute: number;
+}
+
+export const parseCreateCampaignRequest = (data: unknown): CreateCampaignRequest => {
+  const { name, template, content, segment, scheduledFor, sendRatePerMinute } = (data ?? {}) as Record<string, unknown>;
+  const sendAt = typeof scheduledFor === 'string' ? new Date(scheduledFor) : undefined;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new HttpsError('invalid-argument', 'name is required.');
+  }
+  if (typeof content !== 'string') {
+    throw new HttpsError('invalid-argument', 'content must be a string.');
+  }
+  if (!sendAt || isNaN(sendAt.getTime())) {
+    throw new HttpsError('invalid-argument', 'scheduledFor must be a date.');
+  }
+  if (typeof sendRatePerMinute !== 'number' || !Number.isInteger(sendRatePerMinute)
+    || sendRatePerMinute < 1 || sendRatePerMinute > MAX_SEND_RATE_PER_MINUTE) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Send rate must be between 1 and ${MAX_SEND_RATE_PER_MINUTE} messages per minute`
+    );
+  }
+
+  return {
+    name: name.trim(),
+    template,
+    content,
+    segment: parseSegment(segment),
+    scheduledFor: sendAt,
+    sendRatePerMinute,
+  };
+};
+
+// Products and categories each customer enquired about, keyed by phone digits
+const loadEnquiryInterests = async (db: Firestore): Promise<EnquiryInterests> => {
+  const snapshot = await db.collection(ENQUIRIES_COLLECTION)
+    .select('Phone Number', 'phone_number', 'Phone_number', 'product', 'Product', 'category', 'Category')
+    .get();
+
+  const interests: EnquiryInterests = new Map();
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const rawPhone = data['Phone Number'] || data.phone_number || data.Phone_number;
+
+    if (!rawPhone) continue;
+
+    const phone = toWhatsAppRecipient(String(rawPhone));
+    const entry = interests.get(phone) || { products: [], categories: [] };
+    const product = data.product || data.Product;
+    const category = data.category || data.Category;
+
+    if (product) entry.products.push(String(product));
+    if (category) entry.categories.push(String(category));
+    interests.set(phone, entry);
+  }
+
+  return interests;
+};
+
+// Every opt-out is excluded from campaigns, including ones an owner overrode for one-to-one chats
+const loadOptedOutPhones = async (db: Firestore): Promise<Set<string>> => {
+  const snapshot = await db.collection(CONSENT_COLLECTION)
+    .where('status', '==', 'opted_out')
+    .get();
+
+  return new Set(snapshot.docs.map(doc => doc.id));
+};
+
+/**
+ * Find the customers a segment targets. Campaigns can only reach customers
+ * with a conversation, since sends are authorized against one.
+ */
+export const resolveAudience = async (
+  segment: CampaignSegment,
+  db: Firestore = getFirestore()
+): Promise<Audience> => {
+  let conversationsQuery: Query = db.collection(CONVERSATIONS_COLLECTION);
+
+  if (segment.lastContactAfter) {
+    conversationsQuery = conversationsQuery.where('lastMessageAt', '>=', Timestamp.fromDate(segment.lastContactAfter));
+  }
+
+  if (segment.lastContactBefore) {
+    conversationsQuery = conversationsQuery.where('lastMessageAt', '<=', Timestamp.fromDate(segment.lastContactBefore));
+  }
+
+  const needsInterests = !!(segment.products || segment.categories);
+  const [conversations, interests, optedOutPhones] = await Promise.all([
+    conversationsQuery.get(),
+    needsInterests ? loadEnquiryInterests(db) : Promise.resolve<EnquiryInterests>(new Map()),
+    loadOptedOutPhones(db),
+  ]);
+
+  const audience: Audience = { eligible: [], optedOut: [] };
+  const seen = new Set<string>();
+
+  for (const doc of conversations.docs) {
+    const data = doc.data();
+    const phone = toWhatsAppRecipient(String(data.customerPhone || ''));
+
+    // Older conversations may share a customer with a phone-keyed one
+    if (!phone || seen.has(phone)) continue;
+
+    const customer: SegmentCustomer = {
+      tags: data.tags || [],
+      products: interests.get(phone)?.products || [],
+      categories: interests.get(phone)?.categories || [],
+      lastContactAt: data.lastMessageAt?.toDate(),
+    };
+
+    if (!matchesSegment(customer, segment)) continue;
+
+    seen.add(phone);
+    const member = { phone, conversationId: doc.id, customerName: data.customerName || undefined };
+    (optedOutPhones.has(phone) ? audience.optedOut : audience.eligible).push(member);
+  }
+
+  return audience;
+};
+
+/**
+ * Store a campaign for the dispatcher to start at `scheduledFor`. The caller's
+ * role must already be checked; they become `createdBy`, which every
+ * campaign message is sent and authorized as.
+ */
+export const scheduleCampaign = async (
+  uid: string,
+  request: CreateCampaignRequest,
+  db: Firestore = getFirestore()
+): Promise<string> => {
+  const template = await resolveTemplate(request.template, db);
+  const { tags, products, categories, lastContactAfter, lastContactBefore } = request.segment;
+
+  const campaignRef = await db.collection(CAMPAIGNS_COLLECTION).add({
+    name: request.name,
+    status: 'scheduled',
+    template,
+    content: request.content,
+    segment: {
+      ...(tags && { tags }),
+      ...(products && { products }),
+      ...(categories && { categories }),
+      ...(lastContactAfter && { lastContactAfter: Timestamp.fromDate(lastContactAfter) }),
+      ...(lastContactBefore && { lastContactBefore: Timestamp.fromDate(lastContactBefore) }),
+    },
+    scheduledFor: Timestamp.fromDate(request.scheduledFor),
+    sendRatePerMinute: request.sendRatePerMinute,
+    createdBy: uid,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  logger.info('Campaign scheduled', { campaignId: campaignRef.id, createdBy: uid });
+
+  return campaignRef.id;
+};
+
+/**
+ * Cancel a scheduled or sending campaign and drop any dispatcher lease on it,
+ * so a run in progress stops before its next write. Recipients already queued
+ * are still sent. The caller's role must already be checked.
+ */
+export const applyCampaignCancellation = async (
+  uid: string,
+  campaignId: string,
+  db: Firestore = getFirestore()
+): Promise<void> => {
+  const campaignRef = db.collection(CAMPAIGNS_COLLECTION).doc(campaignId);
+
+  await db.runTransaction(async (transaction) => {
+    const campaign = (await transaction.get(campaignRef)).data() as Campaign | undefined;
+
+    if (!campaign) {
+      throw new HttpsError('not-found', 'Campaign not found');
+    }
+
+    if (campaign.status !== 'scheduled' && campaign.status !== 'sending') {
+      throw new HttpsError('failed-precondition', `A ${campaign.status} campaign can't be cancelled`);
+    }
+
+    transaction.update(campaignRef, {
+      status: 'cancelled',
+      cancelledBy: uid,
+      dispatchLeaseUntil: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  logger.info('Campaign cancelled', { campaignId, cancelledBy: uid });
+};
+
+const recipientsRef = (campaignRef: DocumentReference) => campaignRef.collection(RECIPIENTS_SUBCOLLECTION);
+
+// A run's lease is identified by its expiry, plus the status it was claimed for
+interface DispatchLease {
+  until: Timestamp;
+  status: CampaignStatus;
+}
+
+// A run only writes while the lease is still its own and nothing (such as a cancel) changed the status
+const holdsLease = (campaign: Campaign | undefined, lease: DispatchLease): boolean => {
+  return campaign?.status === lease.status && !!campaign.dispatchLeaseUntil?.isEqual(lease.until);
+};
+
+const claimDispatchLease = async (
+  campaignRef: DocumentReference,
+  status: CampaignStatus,
+  now: Date
+): Promise<{ campaign: Campaign; lease: DispatchLease } | null> => {
+  return campaignRef.firestore.runTransaction(async (transaction) => {
+    const campaign = (await transaction.get(campaignRef)).data() as Campaign | undefined;
+
+    if (!campaign || campaign.status !== status) return null;
+    if (campaign.dispatchLeaseUntil && campaign.dispatchLeaseUntil.toDate() > now) return null;
+
+    const until = Timestamp.fromMillis(now.getTime() + DISPATCH_LEASE_MS);
+    transaction.update(campaignRef, { dispatchLeaseUntil: until });
+
+    return { campaign, lease: { until, status } };
+  });
+};
+
+// Update the campaign and drop the lease, unless another run has taken it over or it was cancelled
+const releaseDispatchLease = async (
+  campaignRef: DocumentReference,
+  lease: DispatchLease,
+  update: Record<string, unknown> = {}
+): Promise<boolean> => {
+  return campaignRef.firestore.runTransaction(async (transaction) => {
+    const campaign = (await transaction.get(campaignRef)).data() as Campaign | undefined;
+
+    if (!holdsLease(campaign, lease)) return false;
+
+    transaction.update(campaignRef, {
+      ...update,
+      dispatchLeaseUntil: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return true;
+  });
+};
+
+/**
+ * Run `apply` over `items` in chunks, each in a transaction that first checks
+ * the run still holds the campaign's lease. Returns each chunk's result, or
+ * null when the lease was lost and the remaining chunks were skipped.
+ */
+const runUnderLease = async <T, R>(
+  campaignRef: DocumentReference,
+  lease: DispatchLease,
+  items: T[],
+  perTransaction: number,
+  apply: (transaction: Transaction, chunk: T[]) => Promise<R> | R
+): Promise<R[] | null> => {
+  const results: R[] = [];
+
+  for (let start = 0; start < items.length; start += perTransaction) {
+    const result = await campaignRef.firestore.runTransaction(async (transaction) => {
+      const campaign = (await transaction.get(campaignRef)).data() as Campaign | undefined;
+
+      if (!holdsLease(campaign, lease)) return null;
+
+      return { value: await apply(transaction, items.slice(start, start + perTransaction)) };
+    });
+
+    if (!result) return null;
+    results.push(result.value);
+  }
+
+  return results;
+};
+
+/**
+ * Validate the campaign's template, resolve its segment into a `recipients`
+ * subcollection (opted-out customers are stored as excluded) and switch the
+ * campaign to sending. Invalid campaigns are marked failed with the reason.
+ */
+const startCampaign = async (campaignRef: DocumentReference, now: Date): Promise<void> => {
+  const claim = await claimDispatchLease(campaignRef, 'scheduled', now);
+
+  if (!claim) {
+    return;
+  }
+
+  const { campaign, lease } = claim;
+  const db = campaignRef.firestore;
+  let audience: Audience;
+
+  try {
+    await resolveTemplate(campaign.template, db);
+    audience = await resolveAudience(parseSegment(campaign.segment), db);
+  } catch (error) {
+    await releaseDispatchLease(campaignRef, lease, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  const recipients = recipientsRef(campaignRef);
+  const members = [
+    ...audience.eligible.map(member => ({ member, excluded: false })),
+    ...audience.optedOut.map(member => ({ member, excluded: true })),
+  ];
+
+  // Nothing is queued until the campaign is sending, so rewriting a recipient here is safe
+  const written = await runUnderLease(campaignRef, lease, members, WRITES_PER_BATCH, (transaction, chunk) => {
+    for (const { member, excluded } of chunk) {
+      transaction.set(recipients.doc(member.phone), {
+        ...member,
+        customerName: member.customerName || null,
+        state: excluded ? 'excluded' : 'pending',
+        ...(excluded && { excludedReason: 'opted_out' }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  const started = written && await releaseDispatchLease(campaignRef, lease, {
+    status: audience.eligible.length > 0 ? 'sending' : 'completed',
+    recipientCount: members.length,
+    excludedCount: audience.optedOut.length,
+    startedAt: FieldValue.serverTimestamp(),
+    ...(audience.eligible.length === 0 && { completedAt: FieldValue.serverTimestamp() }),
+  });
+
+  if (!started) {
+    logger.warn('Campaign start lost its lease', { campaignId: campaignRef.id });
+    return;
+  }
+
+  logger.info('Campaign started', {
+    campaignId: campaignRef.id,
+    eligible: audience.eligible.length,
+    excluded: audience.optedOut.length,
+  });
+};
+
+/**
+ * Queue the next slice of pending recipients in the outbox, at most the
+ * campaign's per-minute send rate, in the same shape the chat dashboard
+ * writes. The outbox then authorizes, rate limits and sends each one.
+ *
+ * Each recipient is re-read in the transaction that queues it, so one that an
+ * overlapping run already queued is skipped rather than sent twice.
+ */
+const dispatchCampaignBatch = async (campaignRef: DocumentReference, now: Date): Promise<void> => {
+  const claim = await claimDispatchLease(campaignRef, 'sending', now);
+
+  if (!claim) {
+    return;
+  }
+
+  const { campaign, lease } = claim;
+  const db = campaignRef.firestore;
+  const sendRate = Math.min(campaign.sendRatePerMinute || DEFAULT_SEND_RATE_PER_MINUTE, MAX_SEND_RATE_PER_MINUTE);
+  const pending = await recipientsRef(campaignRef).where('state', '==', 'pending').limit(sendRate).get();
+
+  if (pending.empty) {
+    if (await releaseDispatchLease(campaignRef, lease, { status: 'completed', completedAt: FieldValue.serverTimestamp() })) {
+      logger.info('Campaign completed', { campaignId: campaignRef.id });
+    }
+    return;
+  }
+
+  const slices = await runUnderLease(campaignRef, lease, pending.docs.map(doc => doc.ref), RECIPIENTS_PER_BATCH, async (transaction, refs) => {
+    // Customers can opt out between the start of the campaign and their turn
+    const snapshots = await transaction.getAll(
+      ...refs,
+      ...refs.map(ref => db.collection(CONSENT_COLLECTION).doc(ref.id))
+    );
+    const consentSnaps = snapshots.slice(refs.length);
+    const slice = { queued: 0, excluded: 0 };
+
+    snapshots.slice(0, refs.length).forEach((recipientSnap, index) => {
+      const recipient = recipientSnap.data() as (AudienceMember & { state?: string }) | undefined;
+
+      if (recipient?.state !== 'pending') return;
+
+      if (consentSnaps[index].data()?.status === 'opted_out') {
+        transaction.update(recipientSnap.ref, {
+          state: 'excluded',
+          excludedReason: 'opted_out',
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        slice.excluded++;
+        return;
+      }
+
+      const messageId = queueOutboundMessage(transaction, {
+        conversationId: recipient.conversationId,
+        requestedBy: campaign.createdBy,
+        to: recipient.phone,
+        content: campaign.content,
+        template: campaign.template,
+        campaign: { campaignId: campaignRef.id, recipientId: recipientSnap.id, sendRatePerMinute: sendRate },
+      }, db);
+
+      transaction.update(recipientSnap.ref, {
+        state: 'queued',
+        messageId,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      slice.queued++;
+    });
+
+    return slice;
+  });
+
+  // Slices already committed stay queued; the run that took over picks up the rest
+  if (!slices || !await releaseDispatchLease(campaignRef, lease)) {
+    logger.warn('Campaign batch lost its lease', { campaignId: campaignRef.id });
+    return;
+  }
+
+  logger.info('Campaign batch queued', {
+    campaignId: campaignRef.id,
+    queued: slices.reduce((total, slice) => total + slice.queued, 0),
+    excluded: slices.reduce((total, slice) => total + slice.excluded, 0),
+  });
+};
+
+/**
+ * Run by the scheduler every minute: start campaigns whose scheduled time has
+ * come and queue the next slice of recipients for campaigns that are sending.
+ * One failing campaign does not hold up the others.
+ */
+export const runCampaignDispatcher = async (
+  now: Date = new Date(),
+  db: Firestore = getFirestore()
+): Promise<void> => {
+  const campaigns = await db.collection(CAMPAIGNS_COLLECTION)
+    .where('status', 'in', ['scheduled', 'sending'])
+    .get();
+
+  for (const doc of campaigns.docs) {
+    const campaign = doc.data() as Campaign;
+
+    try {
+      if (campaign.status === 'scheduled') {
+        if (campaign.scheduledFor.toDate() <= now) {
+          await startCampaign(doc.ref, now);
+        }
+      } else {
+        await dispatchCampaignBatch(doc.ref, now);
+      }
+    } catch (error) {
+      logger.error('Failed to dispatch campaign', { campaignId: doc.id, error });
+    }
+  }
+};
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ConsentKeywords, matchConsentKeyword } from './consent';
+
+type Case = [content: string, expected: { action: string; language: string } | null];
+
+const cases: Case[] = [
+  ['STOP', { action: 'opt_out', language: 'en' }],
+  ['stop', { action: 'opt_out', language: 'en' }],
+  ['  Stop! ', { action: 'opt_out', language: 'en' }],
+  ['Unsubscribe.', { action: 'opt_out', language: 'en' }],
+  ['opt-out', { action: 'opt_out', language: 'en' }],
+  ['Parar', { action: 'opt_out', language: 'es' }],
+  ['cancelar suscripcion', { action: 'opt_out', language: 'es' }],
+  ['arret', { action: 'opt_out', language: 'fr' }],
+  ['Arrêt', { action: 'opt_out', language: 'fr' }],
+  ['रोकें', { action: 'opt_out', language: 'hi' }],
+  ['START', { action: 'opt_in', language: 'en' }],
+  ['alta', { action: 'opt_in', language: 'es' }],
+
+  // Keywords inside longer messages are ordinary messages
+  ["Please don't stop my order", null],
+  ['stop sending the blue one', null],
+  ['Start my order', null],
+  ['', null],
+  ['[image]', null],
+];
+
+for (const [content, expected] of cases) {
+  test(`matchConsentKeyword(${JSON.stringify(content)})`, () => {
+    const match = matchConsentKeyword(content);
+    assert.deepEqual(match && { action: match.action, language: match.language }, expected);
+  });
+}
+
+test('matchConsentKeyword uses configured keywords', () => {
+  const keywords: ConsentKeywords = { optOut: { en: ['NO MORE'] }, optIn: {} };
+
+  assert.equal(matchConsentKeyword('No more!', keywords)?.action, 'opt_out');
+  assert.equal(matchConsentKeyword('STOP', keywords), null);
+});
@@ -0,0 +1,234 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { DocumentSnapshot, FieldValue, Firestore, getFirestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getAppConfig } from './appConfig';
+import { toWhatsAppRecipient } from './phoneConfig';
+
+// Keyed by the customer's phone digits, like conversations
+export const CONSENT_COLLECTION = 'customer_consent';
+const HISTORY_SUBCOLLECTION = 'history';
+const CONSENT_KEYWORDS_DOC = 'consent_keywords';
+
+const MAX_OVERRIDE_REASON_LENGTH = 500;
+
+export const OPTED_OUT = 'opted-out';
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+export type ConsentAction = 'opt_out' | 'opt_in';
+
+// Keywords per language code; the whole message has to match one
+export interface ConsentKeywords {
+  optOut: Record<string, string[]>;
+  optIn: Record<string, string[]>;
+}
+
+export interface ConsentKeywordMatch {
+  action: ConsentAction;
+  keyword: string;
+  language: string;
+}
+
+// Used for any language missing from app_config/consent_keywords
+export const DEFAULT_CONSENT_KEYWORDS: ConsentKeywords = {
+  optOut: {
+    en: ['STOP', 'STOP ALL', 'STOPALL', 'UNSUBSCRIBE', 'OPT OUT', 'OPTOUT', 'QUIT', 'END'],
+    es: ['PARAR', 'DETENER', 'BAJA', 'CANCELAR SUSCRIPCIÓN'],
+    pt: ['SAIR', 'CANCELAR INSCRIÇÃO'],
+    fr: ['ARRÊT', 'ARRÊTER', 'DÉSABONNER'],
+    de: ['STOPP', 'ABMELDEN'],
+    hi: ['रोकें', 'बंद करो'],
+    ar: ['توقف', 'إلغاء الاشتراك'],
+  },
+  optIn: {
+    en: ['START', 'UNSTOP', 'SUBSCRIBE'],
+    es: ['ALTA', 'SUSCRIBIR'],
+    fr: ['ABONNER'],
+    de: ['ANMELDEN'],
+  },
+};
+
+/**
+ * Fold case, accents and punctuation so "Stop!", "stop" and "ARRET" match
+ * their keywords. Combining marks outside Latin (Devanagari vowel signs) are kept.
+ */
+export const normalizeKeyword = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[.,!?¡¿'"`´()[\]{}:;*_~-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const findKeyword = (
+  text: string,
+  byLanguage: Record<string, string[]>,
+  action: ConsentAction
+): ConsentKeywordMatch | null => {
+  for (const [language, keywords] of Object.entries(byLanguage)) {
+    const keyword = keywords.find(candidate => normalizeKeyword(candidate) === text);
+
+    if (keyword) {
+      return { action, keyword, language };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Match a whole inbound message against the opt-out and opt-in keywords.
+ * Keywords inside longer messages ("don't stop the order") are ignored.
+ */
+export const matchConsentKeyword = (
+  content: string,
+  keywords: ConsentKeywords = DEFAULT_CONSENT_KEYWORDS
+): ConsentKeywordMatch | null => {
+  const text = normalizeKeyword(content);
+
+  if (!text) {
+    return null;
+  }
+
+  return findKeyword(text, keywords.optOut, 'opt_out') || findKeyword(text, keywords.optIn, 'opt_in');
+};
+
+const parseKeywordLists = (value: unknown, fallback: Record<string, string[]>): Record<string, string[]> => {
+  const lists: Record<string, string[]> = { ...fallback };
+
+  for (const [language, keywords] of Object.entries((value || {}) as Record<string, unknown>)) {
+    if (Array.isArray(keywords)) {
+      lists[language] = keywords.filter((keyword): keyword is string => typeof keyword === 'string');
+    }
+  }
+
+  return lists;
+};
+
+// Keywords live in `app_config/consent_keywords`; a language listed there replaces its defaults
+export const getConsentKeywords = (): Promise<ConsentKeywords> => {
+  return getAppConfig(CONSENT_KEYWORDS_DOC, (data) => ({
+    optOut: parseKeywordLists(data?.optOut, DEFAULT_CONSENT_KEYWORDS.optOut),
+    optIn: parseKeywordLists(data?.optIn, DEFAULT_CONSENT_KEYWORDS.optIn),
+  }));
+};
+
+export const consentRef = (phone: string, db: Firestore = getFirestore()) => {
+  return db.collection(CONSENT_COLLECTION).doc(toWhatsAppRecipient(phone));
+};
+
+/**
+ * Queue the consent update for an opt-out or opt-in keyword on the
+ * transaction storing the inbound message, so a stored STOP is never lost.
+ * A new opt-out also clears any owner override. Webhooks can arrive out of
+ * order, so a keyword older than the last one applied is ignored.
+ */
+export const applyConsentKeyword = (
+  transaction: Transaction,
+  consentSnap: DocumentSnapshot,
+  match: ConsentKeywordMatch,
+  messageId: string,
+  sentAt: Date
+): boolean => {
+  const lastKeywordAt = consentSnap.data()?.lastKeywordAt?.toDate();
+
+  if (lastKeywordAt && lastKeywordAt > sentAt) {
+    return false;
+  }
+
+  transaction.set(consentSnap.ref, {
+    phone: consentSnap.id,
+    status: match.action === 'opt_out' ? 'opted_out' : 'opted_in',
+    keyword: match.keyword,
+    language: match.language,
+    messageId,
+    lastKeywordAt: Timestamp.fromDate(sentAt),
+    updatedAt: FieldValue.serverTimestamp(),
+    override: FieldValue.delete(),
+  }, { merge: true });
+
+  transaction.set(consentSnap.ref.collection(HISTORY_SUBCOLLECTION).doc(), {
+    type: match.action,
+    keyword: match.keyword,
+    language: match.language,
+    messageId,
+    at: FieldValue.serverTimestamp(),
+  });
+
+  return true;
+};
+
+/**
+ * Reject sends to customers who opted out, unless a business owner has
+ * overridden the opt-out. Applies to templates and free-form messages alike.
+ */
+export const assertNotOptedOut = async (to: string, db: Firestore = getFirestore()): Promise<void> => {
+  const consent = (await consentRef(to, db).get()).data();
+
+  if (consent?.status === 'opted_out' && !consent.override) {
+    throw new HttpsError(
+      'failed-precondition',
+      'This customer has opted out of WhatsApp messages.',
+      { reason: OPTED_OUT }
+    );
+  }
+};
+
+/**
+ * Grant or revoke a business owner's override of a customer's opt-out. The
+ * caller's role must already be checked. Every change is appended to the
+ * consent document's `history` subcollection.
+ */
+export const setConsentOverride = async (
+  uid: string,
+  phone: string,
+  allow: boolean,
+  reason?: string,
+  actorName?: string
+): Promise<void> => {
+  const trimmedReason = reason?.trim() || '';
+
+  if (allow && !trimmedReason) {
+    throw new HttpsError('invalid-argument', 'A reason is required to override an opt-out');
+  }
+
+  if (trimmedReason.length > MAX_OVERRIDE_REASON_LENGTH) {
+    throw new HttpsError('invalid-argument', `Reason must be at most ${MAX_OVERRIDE_REASON_LENGTH} characters`);
+  }
+
+  const ref = consentRef(phone);
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const consent = (await transaction.get(ref)).data();
+
+    if (allow && consent?.status !== 'opted_out') {
+      throw new HttpsError('failed-precondition', 'This customer has not opted out.');
+    }
+
+    if (!allow && !consent?.override) {
+      return;
+    }
+
+    transaction.update(ref, {
+      override: allow
+        ? { by: uid, byName: actorName || null, reason: trimmedReason, at: FieldValue.serverTimestamp() }
+        : FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    transaction.set(ref.collection(HISTORY_SUBCOLLECTION).doc(), {
+      type: allow ? 'override_granted' : 'override_revoked',
+      by: uid,
+      byName: actorName || null,
+      ...(trimmedReason && { reason: trimmedReason }),
+      at: FieldValue.serverTimestamp(),
+    });
+  });
+
+  logger.info('Consent override changed', {
+    uid,
+    phone: toWhatsAppRecipient(phone).replace(/\d/g, '*'), // Mask phone number for privacy
+    allow,
+  });
+};
@@ -0,0 +1,457 @@
+import { FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * In-memory stand-in for the parts of the Admin SDK Firestore the functions
+ * use, for node tests. Pass `createFakeFirestore()` where a function takes a
+ * `db`; references it hands out carry it as `firestore` like real ones.
+ *
+ * Transactions check that every read comes before the first write, and
+ * retry when a document they read was written by someone else before they
+ * commit, so concurrent claims behave like they do in production.
+ */
+
+type Data = Record<string, unknown>;
+type WhereFilterOp = '<' | '<=' | '==' | '!=' | '>=' | '>' | 'in' | 'array-contains';
+
+interface Filter {
+  field: string;
+  op: WhereFilterOp;
+  value: unknown;
+}
+
+interface Order {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+type Write =
+  | { kind: 'set'; path: string; data: Data; merge: boolean }
+  | { kind: 'update'; path: string; data: Data }
+  | { kind: 'create'; path: string; data: Data }
+  | { kind: 'delete'; path: string };
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+// Admin FieldValue subclasses are internal; they identify themselves by methodName
+const transformOf = (value: unknown) => {
+  return value instanceof FieldValue
+    ? value as unknown as { methodName: string; operand?: number; elements?: unknown[] }
+    : null;
+};
+
+const DELETE = Symbol('delete');
+
+const isPlainObject = (value: unknown): value is Data => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Timestamp) && !(value instanceof FieldValue);
+};
+
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, clone(field)])) as T;
+  }
+  return value;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a instanceof Timestamp && b instanceof Timestamp) return a.toMillis() - b.toMillis();
+  if (typeof a === typeof b && (typeof a === 'number' || typeof a === 'string' || typeof a === 'boolean')) {
+    return a < (b as typeof a) ? -1 : a > (b as typeof a) ? 1 : 0;
+  }
+  return String(a).localeCompare(String(b));
+};
+
+const isEqualValue = (a: unknown, b: unknown): boolean => {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isEqualValue(a[key], b[key]));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((element, i) => isEqualValue(element, b[i]));
+  }
+  if (a instanceof Timestamp && b instanceof Timestamp) return a.isEqual(b);
+  return a === b;
+};
+
+// Resolve a written value against what the field held before
+const resolveValue = (value: unknown, current: unknown): unknown => {
+  const transform = transformOf(value);
+
+  if (transform) {
+    switch (transform.methodName) {
+      case 'FieldValue.delete':
+        return DELETE;
+      case 'FieldValue.serverTimestamp':
+        return Timestamp.now();
+      case 'FieldValue.increment':
+        return (typeof current === 'number' ? current : 0) + (transform.operand ?? 0);
+      case 'FieldValue.arrayUnion': {
+        const array = Array.isArray(current) ? [...current] : [];
+        (transform.elements ?? []).forEach(element => {
+          if (!array.some(existing => isEqualValue(existing, element))) array.push(clone(element));
+        });
+        return array;
+      }
+      case 'FieldValue.arrayRemove':
+        return (Array.isArray(current) ? current : [])
+          .filter(existing => !(transform.elements ?? []).some(element => isEqualValue(existing, element)));
+      default:
+        throw new Error(`Unsupported field value: ${transform.methodName}`);
+    }
+  }
+
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(element => resolveValue(element, undefined));
+  if (isPlainObject(value)) return mergeData({}, value);
+  return value;
+};
+
+// Deep merge like `set(..., { merge: true })`; nested maps merge field by field
+const mergeData = (existing: Data, data: Data): Data => {
+  const merged: Data = { ...existing };
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) {
+      throw new Error(`Cannot use "undefined" as a Firestore value (found in field "${key}")`);
+    }
+
+    const resolved = isPlainObject(value)
+      ? mergeData(isPlainObject(merged[key]) ? merged[key] as Data : {}, value)
+      : resolveValue(value, merged[key]);
+
+    if (resolved === DELETE) {
+      delete merged[key];
+    } else {
+      merged[key] = resolved;
+    }
+  });
+
+  return merged;
+};
+
+// `update` takes dotted field paths, and map values replace the whole field
+const updateData = (existing: Data, data: Data): Data => {
+  const updated = clone(existing);
+
+  Object.entries(data).forEach(([fieldPath, value]) => {
+    const keys = fieldPath.split('.');
+    const last = keys.pop() as string;
+    let parent = updated;
+
+    keys.forEach(key => {
+      if (!isPlainObject(parent[key])) parent[key] = {};
+      parent = parent[key] as Data;
+    });
+
+    const resolved = isPlainObject(value) ? mergeData({}, value) : resolveValue(value, parent[last]);
+
+    if (resolved === DELETE) {
+      delete parent[last];
+    } else {
+      parent[last] = resolved;
+    }
+  });
+
+  return updated;
+};
+
+const getField = (data: Data, fieldPath: string): unknown => {
+  return fieldPath.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+};
+
+const matchesFilter = (value: unknown, { op, value: expected }: Filter): boolean => {
+  if (value === undefined) return false;
+
+  switch (op) {
+    case '==': return isEqualValue(value, expected);
+    case '!=': return !isEqualValue(value, expected);
+    case 'in': return (expected as unknown[]).some(candidate => isEqualValue(value, candidate));
+    case 'array-contains': return Array.isArray(value) && value.some(element => isEqualValue(element, expected));
+    case '<': return compareValues(value, expected) < 0;
+    case '<=': return compareValues(value, expected) <= 0;
+    case '>': return compareValues(value, expected) > 0;
+    case '>=': return compareValues(value, expected) >= 0;
+  }
+};
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const autoId = () => {
+  return Array.from({ length: 20 }, () => AUTO_ID_CHARS[Math.floor(Math.random() * AUTO_ID_CHARS.length)]).join('');
+};
+
+class FakeDocumentSnapshot {
+  constructor(readonly ref: FakeDocumentReference, private readonly stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : clone(this.stored);
+  }
+
+  get(fieldPath: string): unknown {
+    return this.stored === undefined ? undefined : clone(getField(this.stored, fieldPath));
+  }
+}
+
+class FakeQuerySnapshot {
+  constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (snapshot: FakeDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+class FakeQuery {
+  constructor(
+    readonly firestore: FakeFirestore,
+    readonly path: string,
+    protected readonly filters: Filter[] = [],
+    protected readonly orders: Order[] = [],
+    protected readonly maxResults?: number
+  ) {}
+
+  where(field: string, op: WhereFilterOp, value: unknown): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, [...this.filters, { field, op, value }], this.orders, this.maxResults);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, [...this.orders, { field, direction }], this.maxResults);
+  }
+
+  limit(count: number): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, this.orders, count);
+  }
+
+  async get(): Promise<FakeQuerySnapshot> {
+    return this.run();
+  }
+
+  run(): FakeQuerySnapshot {
+    const matches = this.firestore.documentsIn(this.path)
+      .filter(([, data]) => this.filters.every(filter => matchesFilter(getField(data, filter.field), filter)))
+      .filter(([, data]) => this.orders.every(order => getField(data, order.field) !== undefined))
+      .sort(([aPath, a], [bPath, b]) => {
+        for (const { field, direction } of this.orders) {
+          const difference = compareValues(getField(a, field), getField(b, field));
+          if (difference !== 0) return direction === 'desc' ? -difference : difference;
+        }
+        return aPath.localeCompare(bPath);
+      })
+      .slice(0, this.maxResults);
+
+    return new FakeQuerySnapshot(matches.map(([path, data]) => new FakeDocumentSnapshot(this.firestore.doc(path), data)));
+  }
+}
+
+class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  doc(id: string = autoId()): FakeDocumentReference {
+    return new FakeDocumentReference(this.firestore, `${this.path}/${id}`);
+  }
+
+  async add(data: Data): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+class FakeDocumentReference {
+  constructor(readonly firestore: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  get parent(): FakeCollectionReference {
+    return new FakeCollectionReference(this.firestore, this.path.split('/').slice(0, -1).join('/'));
+  }
+
+  collection(id: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.firestore, `${this.path}/${id}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return new FakeDocumentSnapshot(this, this.firestore.data(this.path));
+  }
+
+  async set(data: Data, options: { merge?: boolean } = {}): Promise<void> {
+    this.firestore.apply([{ kind: 'set', path: this.path, data, merge: !!options.merge }]);
+  }
+
+  async update(data: Data): Promise<void> {
+    this.firestore.apply([{ kind: 'update', path: this.path, data }]);
+  }
+
+  async create(data: Data): Promise<void> {
+    this.firestore.apply([{ kind: 'create', path: this.path, data }]);
+  }
+
+  async delete(): Promise<void> {
+    this.firestore.apply([{ kind: 'delete', path: this.path }]);
+  }
+}
+
+class FakeWriteBatch {
+  protected readonly writes: Write[] = [];
+
+  constructor(protected readonly firestore: FakeFirestore) {}
+
+  set(ref: FakeDocumentReference, data: Data, options: { merge?: boolean } = {}): this {
+    this.writes.push({ kind: 'set', path: ref.path, data, merge: !!options.merge });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push({ kind: 'update', path: ref.path, data });
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push({ kind: 'create', path: ref.path, data });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push({ kind: 'delete', path: ref.path });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.firestore.apply(this.writes);
+  }
+}
+
+class FakeTransaction extends FakeWriteBatch {
+  // Version of each document when it was read, to detect writes by others
+  private readonly reads = new Map<string, number>();
+
+  get(ref: FakeDocumentReference): Promise<FakeDocumentSnapshot>;
+  get(query: FakeQuery): Promise<FakeQuerySnapshot>;
+  async get(refOrQuery: FakeDocumentReference | FakeQuery): Promise<FakeDocumentSnapshot | FakeQuerySnapshot> {
+    if (this.writes.length > 0) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+
+    if (refOrQuery instanceof FakeDocumentReference) {
+      this.reads.set(refOrQuery.path, this.firestore.versionOf(refOrQuery.path));
+      return refOrQuery.get();
+    }
+
+    const snapshot = refOrQuery.run();
+    snapshot.docs.forEach(doc => this.reads.set(doc.ref.path, this.firestore.versionOf(doc.ref.path)));
+    return snapshot;
+  }
+
+  async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+    return Promise.all(refs.map(ref => this.get(ref)));
+  }
+
+  isStale(): boolean {
+    return [...this.reads].some(([path, version]) => this.firestore.versionOf(path) !== version);
+  }
+}
+
+export class FakeFirestore {
+  private readonly documents = new Map<string, Data>();
+  private readonly versions = new Map<string, number>();
+
+  collection(path: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, path);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  batch(): FakeWriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  async runTransaction<T>(updateFunction: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const transaction = new FakeTransaction(this);
+      const result = await updateFunction(transaction);
+
+      if (!transaction.isStale()) {
+        await transaction.commit();
+        return result;
+      }
+
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw new Error('Transaction was aborted because of contention.');
+      }
+    }
+  }
+
+  // Test helper: a document's stored data, or undefined
+  data(path: string): Data | undefined {
+    return clone(this.documents.get(path));
+  }
+
+  versionOf(path: string): number {
+    return this.versions.get(path) ?? 0;
+  }
+
+  documentsIn(collectionPath: string): [string, Data][] {
+    return [...this.documents.entries()]
+      .filter(([path]) => path.split('/').slice(0, -1).join('/') === collectionPath);
+  }
+
+  apply(writes: Write[]): void {
+    // Validate every write first so a failing batch changes nothing
+    const pending = new Map(this.documents);
+
+    writes.forEach(write => {
+      const existing = pending.get(write.path);
+
+      switch (write.kind) {
+        case 'set':
+          pending.set(write.path, mergeData(write.merge && existing ? existing : {}, write.data));
+          break;
+        case 'create':
+          if (existing) throw new Error(`ALREADY_EXISTS: ${write.path}`);
+          pending.set(write.path, mergeData({}, write.data));
+          break;
+        case 'update':
+          if (!existing) throw new Error(`NOT_FOUND: No document to update: ${write.path}`);
+          pending.set(write.path, updateData(existing, write.data));
+          break;
+        case 'delete':
+          pending.delete(write.path);
+          break;
+      }
+    });
+
+    writes.forEach(({ path }) => {
+      const data = pending.get(path);
+      if (data) this.documents.set(path, data);
+      else this.documents.delete(path);
+      this.versions.set(path, this.versionOf(path) + 1);
+    });
+  }
+}
+
+export const createFakeFirestore = (): FakeFirestore => new FakeFirestore();
+
+// The fake where the Admin SDK type is expected
+export const asFirestore = (fake: FakeFirestore): Firestore => fake as unknown as Firestore;
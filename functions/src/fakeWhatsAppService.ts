@@ -0,0 +1,84 @@
+import { logger } from 'firebase-functions';
+import {
+  DownloadedMedia,
+  InteractiveMessage,
+  MediaMessage,
+  TemplateMessage,
+  WhatsAppApiError,
+  WhatsAppResponse,
+  WhatsAppSender,
+} from './whatsappService';
+
+type SentMessage = {
+  to: string;
+  message?: string;
+  template?: TemplateMessage;
+  media?: MediaMessage;
+  interactive?: InteractiveMessage;
+};
+
+/**
+ * Offline stand-in for WhatsAppService used by the emulator and tests.
+ * Each queued status code fails one call in order (e.g. [429, 500] fails the
+ * first two sends), after which every send succeeds with a generated ID.
+ */
+export class FakeWhatsAppService implements WhatsAppSender {
+  readonly sent: SentMessage[] = [];
+  private failures: number[];
+  private counter = 0;
+
+  constructor(failures: number[] = []) {
+    this.failures = [...failures];
+  }
+
+  static fromEnvironment(): FakeWhatsAppService {
+    const failures = (process.env.WHATSAPP_FAKE_FAILURES || '')
+      .split(',')
+      .map(code => Number(code.trim()))
+      .filter(code => code > 0);
+
+    return new FakeWhatsAppService(failures);
+  }
+
+  async sendMessage(to: string, message: string): Promise<WhatsAppResponse> {
+    return this.record({ to, message });
+  }
+
+  async sendTemplate(to: string, template: TemplateMessage): Promise<WhatsAppResponse> {
+    return this.record({ to, template });
+  }
+
+  async sendMedia(to: string, media: MediaMessage): Promise<WhatsAppResponse> {
+    return this.record({ to, media });
+  }
+
+  async sendInteractive(to: string, interactive: InteractiveMessage): Promise<WhatsAppResponse> {
+    return this.record({ to, interactive });
+  }
+
+  // Every inbound attachment downloads as a tiny text file
+  async downloadMedia(mediaId: string): Promise<DownloadedMedia> {
+    return {
+      data: Buffer.from(`fake media ${mediaId}`),
+      mimeType: 'text/plain',
+    };
+  }
+
+  private async record(sent: SentMessage): Promise<WhatsAppResponse> {
+    const failure = this.failures.shift();
+
+    if (failure) {
+      logger.info('Fake WhatsApp send failing', { status: failure });
+      throw new WhatsAppApiError(failure, 'Injected failure');
+    }
+
+    this.counter += 1;
+    this.sent.push(sent);
+
+    return {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: sent.to, wa_id: sent.to.replace(/\D/g, '') }],
+      messages: [{ id: `wamid.fake.${Date.now()}.${this.counter}` }],
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isValidIdempotencyKey } from './idempotency';
+
+test('isValidIdempotencyKey accepts UUIDs and simple tokens', () => {
+  assert.equal(isValidIdempotencyKey('3b241101-e2bb-4255-8caf-4136c566a962'), true);
+  assert.equal(isValidIdempotencyKey('reply_00000001'), true);
+});
+
+test('isValidIdempotencyKey rejects keys that cannot be document IDs', () => {
+  assert.equal(isValidIdempotencyKey('short'), false);
+  assert.equal(isValidIdempotencyKey('a'.repeat(129)), false);
+  assert.equal(isValidIdempotencyKey('reply/00000001'), false);
+  assert.equal(isValidIdempotencyKey(12345678), false);
+  assert.equal(isValidIdempotencyKey(undefined), false);
+});
@@ -0,0 +1,84 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+const SEND_REQUESTS_COLLECTION = 'send_requests';
+
+// Client-generated keys, e.g. crypto.randomUUID()
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+// A pending claim older than this is assumed abandoned (the function died mid-send)
+const CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Completed requests are kept this long; a TTL policy on expiresAt removes them
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export const SEND_IN_PROGRESS = 'send-in-progress';
+
+export type SendClaim =
+  | { duplicate: false }
+  | { duplicate: true; messageId?: string };
+
+export const isValidIdempotencyKey = (value: unknown): value is string => {
+  return typeof value === 'string' && IDEMPOTENCY_KEY_PATTERN.test(value);
+};
+
+// Keys are scoped to the caller so one user can't replay another's result
+const sendRequestRef = (uid: string, key: string) => {
+  return getFirestore().collection(SEND_REQUESTS_COLLECTION).doc(`${uid}_${key}`);
+};
+
+/**
+ * Claim `key` for a send. Returns the original result when the key was
+ * already sent, and throws `aborted` while another call holds the claim.
+ */
+export const claimSendRequest = async (uid: string, key: string, now: number = Date.now()): Promise<SendClaim> => {
+  const ref = sendRequestRef(uid, key);
+
+  return getFirestore().runTransaction(async (transaction) => {
+    const existing = (await transaction.get(ref)).data();
+
+    if (existing?.state === 'sent') {
+      return { duplicate: true, messageId: existing.messageId || undefined };
+    }
+
+    if (existing?.state === 'pending' && now - existing.claimedAtMs < CLAIM_TIMEOUT_MS) {
+      throw new HttpsError('aborted', 'This message is already being sent.', { reason: SEND_IN_PROGRESS });
+    }
+
+    transaction.set(ref, {
+      uid,
+      state: 'pending',
+      claimedAtMs: now,
+      createdAt: FieldValue.serverTimestamp(),
+      expiresAt: Timestamp.fromMillis(now + RETENTION_MS),
+    });
+
+    return { duplicate: false };
+  });
+};
+
+/**
+ * Record the WhatsApp message ID for a claimed key. The message has already
+ * gone out, so write errors are only logged.
+ */
+export const completeSendRequest = async (uid: string, key: string, messageId?: string): Promise<void> => {
+  try {
+    await sendRequestRef(uid, key).update({
+      state: 'sent',
+      messageId: messageId || null,
+      completedAt: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    logger.error('Failed to complete send request', { uid, key, error });
+  }
+};
+
+// Drop the claim after a failed send so the client can retry with the same key
+export const releaseSendRequest = async (uid: string, key: string): Promise<void> => {
+  try {
+    await sendRequestRef(uid, key).delete();
+  } catch (error) {
+    logger.error('Failed to release send request', { uid, key, error });
+  }
+};
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseInboundMessages, WhatsAppWebhookPayload } from './inboundWebhook';
+import { toPhoneDigits } from './phone';
+
+// A Singapore customer whose WhatsApp ID is also a valid US national number
+const payload: WhatsAppWebhookPayload = {
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: 'waba-1',
+    changes: [{
+      field: 'messages',
+      value: {
+        messaging_product: 'whatsapp',
+        contacts: [{ profile: { name: 'Mei' }, wa_id: '6591234567' }],
+        messages: [{
+          from: '6591234567',
+          id: 'wamid.sg1',
+          timestamp: '1760000000',
+          type: 'text',
+          text: { body: 'STOP' },
+        }],
+      },
+    }],
+  }],
+};
+
+test('parseInboundMessages keeps WhatsApp IDs international', () => {
+  const [message] = parseInboundMessages(payload);
+
+  assert.equal(message.from, '6591234567');
+  assert.equal(message.phone, '+6591234567');
+  assert.equal(message.customerName, 'Mei');
+  // Consent and conversation lookups parse the stored phone with the default country
+  assert.equal(toPhoneDigits(message.phone, 'US'), message.from);
+  assert.equal(toPhoneDigits(message.phone, 'IN'), message.from);
+});
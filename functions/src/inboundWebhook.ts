@@ -0,0 +1,324 @@
+import { Firestore, getFirestore, FieldValue } from 'firebase-admin/firestore';
+import {
+  applyConsentKeyword,
+  ConsentKeywords,
+  consentRef as getConsentRef,
+  DEFAULT_CONSENT_KEYWORDS,
+  matchConsentKeyword,
+} from './consent';
+import { getOrderReplyAction, OrderReplyAction } from './interactive';
+import { storeInboundMedia } from './media';
+import { whatsAppIdToE164 } from './phone';
+import { serviceWindowFields } from './serviceWindow';
+import { WhatsAppSender } from './whatsappService';
+import { webhookEventRecord, webhookEventRef } from './webhookSecurity';
+
+const CONVERSATIONS_COLLECTION = 'conversations';
+const MESSAGES_COLLECTION = 'chat_messages';
+
+type ChatMessageType = 'text' | 'image' | 'file' | 'voice';
+
+export interface WhatsAppInboundMessage {
+  from: string;
+  id: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  image?: WhatsAppInboundMedia;
+  document?: WhatsAppInboundMedia & { filename?: string };
+  video?: WhatsAppInboundMedia;
+  audio?: WhatsAppInboundMedia & { voice?: boolean };
+  sticker?: WhatsAppInboundMedia;
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  context?: { id: string };
+}
+
+interface WhatsAppInboundMedia {
+  id: string;
+  mime_type?: string;
+  caption?: string;
+}
+
+interface WhatsAppContact {
+  profile?: { name?: string };
+  wa_id: string;
+}
+
+export interface WhatsAppStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  recipient_id: string;
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+  }>;
+}
+
+export interface WhatsAppWebhookValue {
+  messaging_product?: string;
+  metadata?: {
+    display_phone_number: string;
+    phone_number_id: string;
+  };
+  contacts?: WhatsAppContact[];
+  messages?: WhatsAppInboundMessage[];
+  statuses?: WhatsAppStatus[];
+}
+
+export interface WhatsAppWebhookPayload {
+  object?: string;
+  entry?: Array<{
+    id: string;
+    changes?: Array<{
+      field: string;
+      value?: WhatsAppWebhookValue;
+    }>;
+  }>;
+}
+
+export interface InboundMessage {
+  whatsappMessageId: string;
+  // The sender's WhatsApp ID (digits only), which keys their conversation
+  from: string;
+  // The same number in E.164, stored wherever a phone number is parsed later
+  phone: string;
+  customerName?: string;
+  content: string;
+  messageType: ChatMessageType;
+  media?: InboundMedia;
+  interactiveReply?: InteractiveReply;
+  timestamp: Date;
+}
+
+// The option a customer picked from one of our button or list messages
+export interface InteractiveReply {
+  type: 'button_reply' | 'list_reply';
+  id: string;
+  title: string;
+  description?: string;
+  inReplyTo?: string;
+  orderAction?: OrderReplyAction;
+}
+
+// Attachment still held by WhatsApp; fetched into Storage after the message is stored
+export interface InboundMedia {
+  id: string;
+  mimeType?: string;
+  fileName?: string;
+}
+
+const mapMessageType = (type: string): ChatMessageType => {
+  switch (type) {
+    case 'image':
+    case 'sticker':
+      return 'image';
+    case 'document':
+    case 'video':
+      return 'file';
+    case 'audio':
+    case 'voice':
+      return 'voice';
+    default:
+      return 'text';
+  }
+};
+
+const extractContent = (message: WhatsAppInboundMessage): string => {
+  if (message.type === 'text') {
+    return message.text?.body || '';
+  }
+
+  if (message.type === 'interactive') {
+    return extractInteractiveReply(message)?.title || '[interactive]';
+  }
+
+  const caption = message.image?.caption || message.document?.caption || message.video?.caption;
+  return caption || message.document?.filename || `[${message.type}]`;
+};
+
+const extractInteractiveReply = (message: WhatsAppInboundMessage): InteractiveReply | undefined => {
+  const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+
+  if (!message.interactive || !reply?.id) {
+    return undefined;
+  }
+
+  const orderAction = getOrderReplyAction(reply.id);
+
+  return {
+    type: message.interactive.type,
+    id: reply.id,
+    title: reply.title,
+    ...(message.interactive.list_reply?.description && { description: message.interactive.list_reply.description }),
+    ...(message.context?.id && { inReplyTo: message.context.id }),
+    ...(orderAction && { orderAction }),
+  };
+};
+
+const extractMedia = (message: WhatsAppInboundMessage): InboundMedia | undefined => {
+  const media = message.image || message.document || message.video || message.audio || message.sticker;
+
+  if (!media?.id) {
+    return undefined;
+  }
+
+  return {
+    id: media.id,
+    mimeType: media.mime_type,
+    fileName: message.document?.filename,
+  };
+};
+
+/**
+ * Flatten a WhatsApp Cloud API webhook payload into the customer messages it carries.
+ * Status callbacks and other change types are ignored.
+ */
+export const parseInboundMessages = (payload: WhatsAppWebhookPayload): InboundMessage[] => {
+  if (payload?.object !== 'whatsapp_business_account') {
+    return [];
+  }
+
+  const inbound: InboundMessage[] = [];
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== 'messages' || !change.value?.messages) continue;
+
+      const contacts = change.value.contacts || [];
+
+      for (const message of change.value.messages) {
+        const contact = contacts.find(c => c.wa_id === message.from);
+
+        inbound.push({
+          whatsappMessageId: message.id,
+          from: message.from.replace(/\D/g, ''),
+          phone: whatsAppIdToE164(message.from),
+          customerName: contact?.profile?.name,
+          content: extractContent(message),
+          messageType: mapMessageType(message.type),
+          media: extractMedia(message),
+          interactiveReply: extractInteractiveReply(message),
+          timestamp: new Date(Number(message.timestamp) * 1000),
+        });
+      }
+    }
+  }
+
+  return inbound;
+};
+
+/**
+ * Store an inbound customer message in `chat_messages` and bump the conversation,
+ * creating the conversation (keyed by phone number) on first contact.
+ * Mirrors the document shape written by ChatService on the client. Opt-out
+ * and opt-in keywords update the customer's consent in the same transaction.
+ *
+ * Returns null when the WhatsApp message ID was already processed.
+ */
+export const persistInboundMessage = async (
+  message: InboundMessage,
+  consentKeywords: ConsentKeywords = DEFAULT_CONSENT_KEYWORDS,
+  db: Firestore = getFirestore()
+): Promise<string | null> => {
+  const conversationRef = db.collection(CONVERSATIONS_COLLECTION).doc(message.from);
+  const messageRef = db.collection(MESSAGES_COLLECTION).doc();
+  const eventRef = webhookEventRef(db, message.whatsappMessageId);
+  const consentRef = getConsentRef(message.phone, db);
+  const consentMatch = matchConsentKeyword(message.content, consentKeywords);
+
+  const stored = await db.runTransaction(async (transaction) => {
+    const [eventSnap, conversationSnap, consentSnap] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(conversationRef),
+      consentMatch ? transaction.get(consentRef) : null,
+    ]);
+
+    if (eventSnap.exists) {
+      return false;
+    }
+
+    transaction.set(eventRef, webhookEventRecord('message'));
+
+    if (!conversationSnap.exists) {
+      transaction.set(conversationRef, {
+        customerId: message.from,
+        customerName: message.customerName || message.phone,
+        customerPhone: message.phone,
+        status: 'pending',
+        unreadCount: 0,
+        priority: 'medium',
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastMessageAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    transaction.set(messageRef, {
+      conversationId: message.from,
+      senderId: message.from,
+      senderType: 'customer',
+      content: message.content,
+      messageType: message.messageType,
+      timestamp: FieldValue.serverTimestamp(),
+      status: 'sent',
+      reactions: [],
+      attachments: [],
+      whatsappMessageId: message.whatsappMessageId,
+      ...(message.interactiveReply && { interactiveReply: message.interactiveReply }),
+    });
+
+    // Webhooks can arrive out of order, so only a newer message extends the service window
+    const previousInboundAt = conversationSnap.data()?.lastInboundAt?.toDate();
+    const extendsWindow = !previousInboundAt || previousInboundAt < message.timestamp;
+
+    transaction.set(conversationRef, {
+      lastMessageAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      unreadCount: FieldValue.increment(1),
+      ...(extendsWindow && serviceWindowFields(message.timestamp)),
+      // Picked up by the order workflow: the customer confirmed, asked to change or cancelled
+      ...(message.interactiveReply?.orderAction && {
+        lastOrderAction: {
+          action: message.interactiveReply.orderAction,
+          messageId: messageRef.id,
+          at: FieldValue.serverTimestamp(),
+        },
+      }),
+    }, { merge: true });
+
+    if (consentMatch && consentSnap) {
+      applyConsentKeyword(transaction, consentSnap, consentMatch, messageRef.id, message.timestamp);
+    }
+
+    return true;
+  });
+
+  return stored ? messageRef.id : null;
+};
+
+/**
+ * Copy an inbound message's attachment from WhatsApp into Storage and add it to
+ * the stored chat message. The message keeps its caption (or `[type]`
+ * placeholder) as content for conversation previews.
+ */
+export const attachInboundMedia = async (
+  messageId: string,
+  message: InboundMessage,
+  client: WhatsAppSender
+): Promise<void> => {
+  if (!message.media) {
+    return;
+  }
+
+  const stored = await storeInboundMedia(client, message.media.id, message.from, message.media.fileName);
+
+  await getFirestore().collection(MESSAGES_COLLECTION).doc(messageId).update({
+    attachments: [stored],
+  });
+};
@@ -1,7 +1,32 @@
 import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { logger } from 'firebase-functions';
-import { WhatsAppService } from './whatsappService';
-import { getAuth } from 'firebase-admin/auth';
+import { resolveSenderRole } from './authorization';
+import {
+  applyCampaignCancellation,
+  parseCreateCampaignRequest,
+  parseSegment,
+  resolveAudience,
+  runCampaignDispatcher,
+  scheduleCampaign,
+} from './campaigns';
+import { getConsentKeywords, setConsentOverride } from './consent';
+import { attachInboundMedia, parseInboundMessages, persistInboundMessage } from './inboundWebhook';
+import { applyStatusUpdate, parseStatusUpdates, statusEventId } from './messageStatus';
+import { applyOrderTransition, parseTransitionRequest } from './orders';
+import {
+  createWhatsAppSender,
+  OUTBOX_COLLECTION,
+  OUTBOX_TIMEOUT_SECONDS,
+  processOutboxEntry,
+  sweepMessageOutbox,
+} from './outbox';
+import { isValidRecipient } from './phoneConfig';
+import { runScheduledMessageDispatcher } from './scheduledMessages';
+import { sendWhatsAppForUser } from './sendMessage';
+import { getMaxEventAgeMs, isStaleEvent, RejectionReason, verifySignature } from './webhookSecurity';
+import { DecodedIdToken, getAuth } from 'firebase-admin/auth';
 import { initializeApp } from 'firebase-admin/app';
 
 // Initialize Firebase Admin
@@ -21,66 +46,345 @@ export const sendWhatsAppMessage = onCall({
     origin: request.rawRequest?.headers?.origin || 'unknown',
   });
 
+  // 2. Validate, authorize and send
+  return sendWhatsAppForUser(request.auth.uid, request.data, {
+    channel: 'callable',
+    claims: request.auth.token,
+  });
+});
+
+// Plain HTTP variant for integrations that can't use the callable SDK (n8n, scripts).
+// Expects `Authorization: Bearer <Firebase ID token>` and the same JSON body as the callable.
+export const sendWhatsAppMessageHttp = onRequest({
+  cors: true
+}, async (req, res) => {
+  if (req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  // 1. Authenticate the user from the Firebase ID token
+  const authHeader = req.get('authorization') || '';
+  const idToken = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : '';
+
+  if (!idToken) {
+    res.status(401).json({ success: false, error: 'Missing bearer token', code: 'unauthenticated' });
+    return;
+  }
+
+  let decodedToken: DecodedIdToken;
+
   try {
-    // 2. Validate request data
-    const { to, message } = request.data;
-    
-    if (!to || !message) {
-      throw new HttpsError('invalid-argument', 'Missing required fields: to, message');
-    }
+    decodedToken = await getAuth().verifyIdToken(idToken);
+  } catch (error) {
+    logger.warn('Rejected HTTP send with invalid ID token', { error });
+    res.status(401).json({ success: false, error: 'Invalid or expired ID token', code: 'unauthenticated' });
+    return;
+  }
+
+  logger.info('Incoming authenticated HTTP request', {
+    uid: decodedToken.uid,
+    origin: req.get('origin') || 'unknown',
+  });
+
+  // 2. Validate, authorize and send, mapping errors to the callable's codes
+  try {
+    const result = await sendWhatsAppForUser(decodedToken.uid, req.body, {
+      channel: 'http',
+      claims: decodedToken,
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    const httpsError = error instanceof HttpsError
+      ? error
+      : new HttpsError('internal', 'An unexpected error occurred while sending the message.');
 
-    if (typeof to !== 'string' || typeof message !== 'string') {
-      throw new HttpsError('invalid-argument', 'Invalid field types: to and message must be strings');
+    const retryAfterSeconds = (httpsError.details as { retryAfterSeconds?: number } | undefined)?.retryAfterSeconds;
+    if (retryAfterSeconds) {
+      res.set('Retry-After', String(retryAfterSeconds));
     }
 
-    if (message.trim().length === 0) {
-      throw new HttpsError('invalid-argument', 'Message cannot be empty');
+    res.status(httpsError.httpErrorCode.status).json({
+      success: false,
+      error: httpsError.message,
+      code: httpsError.code,
+      details: httpsError.details,
+    });
+  }
+});
+
+const logRejectedPayload = (reason: RejectionReason, details: Record<string, unknown>) => {
+  logger.warn('Rejected WhatsApp webhook payload', { reason, ...details });
+};
+
+export const whatsappWebhook = onRequest(async (req, res) => {
+  // 1. Meta verification handshake when the webhook is registered
+  if (req.method === 'GET') {
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'];
+    const challenge = req.query['hub.challenge'];
+    const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+
+    if (mode === 'subscribe' && verifyToken && token === verifyToken) {
+      logger.info('WhatsApp webhook verified');
+      res.status(200).send(challenge);
+      return;
     }
 
-    // 3. Get WhatsApp credentials from environment
-    const whatsappToken = process.env.WHATSAPP_API_TOKEN || process.env.VITE_WHATSAPP_API_TOKEN;
-    const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || process.env.VITE_WHATSAPP_PHONE_NUMBER_ID;
+    logger.warn('WhatsApp webhook verification failed', { mode });
+    res.sendStatus(403);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.sendStatus(405);
+    return;
+  }
+
+  // 2. Verify the payload was signed by Meta with our app secret
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+
+  if (!appSecret) {
+    logger.error('WhatsApp app secret not configured');
+    res.sendStatus(500);
+    return;
+  }
+
+  const signatureError = verifySignature(req.rawBody, req.get('x-hub-signature-256'), appSecret);
+
+  if (signatureError) {
+    logRejectedPayload(signatureError, { ip: req.ip });
+    res.sendStatus(401);
+    return;
+  }
+
+  // 3. Persist inbound customer messages, skipping stale and replayed events,
+  //    then apply delivery/read status callbacks for our outbound messages
+  try {
+    const inboundMessages = parseInboundMessages(req.body);
+    const maxEventAgeMs = getMaxEventAgeMs();
+    const mediaClient = inboundMessages.some(message => message.media) ? createWhatsAppSender() : null;
+    const consentKeywords = await getConsentKeywords();
+
+    for (const message of inboundMessages) {
+      if (isStaleEvent(message.timestamp, new Date(), maxEventAgeMs)) {
+        logRejectedPayload('stale-event', {
+          eventId: message.whatsappMessageId,
+          eventTime: message.timestamp.toISOString(),
+        });
+        continue;
+      }
+
+      const messageId = await persistInboundMessage(message, consentKeywords);
 
-    if (!whatsappToken || !phoneNumberId) {
-      logger.error('WhatsApp credentials not configured', {
-        hasToken: !!whatsappToken,
-        hasPhoneId: !!phoneNumberId
+      if (!messageId) {
+        logRejectedPayload('duplicate-event', { eventId: message.whatsappMessageId });
+        continue;
+      }
+
+      logger.info('Inbound WhatsApp message stored', {
+        messageId,
+        from: message.from.replace(/\d/g, '*'), // Mask phone number for privacy
+        messageType: message.messageType,
       });
-      throw new HttpsError('failed-precondition', 'WhatsApp API credentials not configured on server');
+
+      // A failed download leaves the placeholder message in place; Meta
+      // would only redeliver an event we've already recorded
+      if (message.media) {
+        try {
+          if (!mediaClient) {
+            throw new Error('WhatsApp API credentials not configured on server');
+          }
+
+          await attachInboundMedia(messageId, message, mediaClient);
+        } catch (error) {
+          logger.error('Failed to store inbound WhatsApp media', {
+            messageId,
+            mediaId: message.media.id,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+      }
     }
 
-    logger.info('Sending WhatsApp message', {
-      to: to.replace(/\d/g, '*'), // Mask phone number for privacy
-      messageLength: message.length,
-    });
+    // Status callbacks get the same stale and replay checks
+    for (const update of parseStatusUpdates(req.body)) {
+      const eventId = statusEventId(update);
 
-    // 4. Initialize WhatsApp service and send message
-    const whatsappService = new WhatsAppService(phoneNumberId, whatsappToken);
-    const whatsappResponse = await whatsappService.sendMessage(to, message);
+      if (isStaleEvent(update.timestamp, new Date(), maxEventAgeMs)) {
+        logRejectedPayload('stale-event', { eventId, eventTime: update.timestamp.toISOString() });
+        continue;
+      }
 
-    logger.info('WhatsApp message sent successfully', {
-      messageId: whatsappResponse.messages[0]?.id,
-    });
+      const { outcome, messageId } = await applyStatusUpdate(update);
 
-    return {
-      success: true,
-      messageId: whatsappResponse.messages[0]?.id,
-    };
+      if (outcome === 'duplicate') {
+        logRejectedPayload('duplicate-event', { eventId });
+        continue;
+      }
 
-  } catch (error) {
-    logger.error('Failed to send WhatsApp message', {
-      error,
-      uid: request.auth.uid
-    });
-    
-    if (error instanceof HttpsError) {
-      throw error;
-    }
-    
-    if (error instanceof Error && error.message.includes('WhatsApp API Error')) {
-      throw new HttpsError('internal', `WhatsApp API Error: ${error.message}`);
+      logger.info('WhatsApp status callback processed', {
+        messageId,
+        status: update.status,
+        outcome,
+        errorCode: update.error?.code,
+      });
     }
-    
-    throw new HttpsError('internal', 'An unexpected error occurred while sending the message.');
+
+    res.sendStatus(200);
+  } catch (error) {
+    logger.error('Failed to process WhatsApp webhook', { error });
+    res.sendStatus(500);
+  }
+});
+
+// Sends operator messages queued by the client. Fires on create and again when
+// an operator retries a failed entry by resetting it to 'pending'.
+export const processMessageOutbox = onDocumentWritten({
+  document: `${OUTBOX_COLLECTION}/{messageId}`,
+  timeoutSeconds: OUTBOX_TIMEOUT_SECONDS,
+}, async (event) => {
+  const after = event.data?.after;
+
+  if (!after?.exists || after.data()?.state !== 'pending') {
+    return;
+  }
+
+  await processOutboxEntry(after.ref, createWhatsAppSender());
+});
+
+// Releases deferred outbox retries once due and reclaims entries whose send never finished
+export const sweepOutbox = onSchedule('every 1 minutes', async () => {
+  const { released, reclaimed } = await sweepMessageOutbox();
+
+  if (released || reclaimed) {
+    logger.info('Outbox swept', { released, reclaimed });
+  }
+});
+
+// Lets a business owner allow (or stop allowing) messages to a customer who
+// opted out. Every change is recorded in the consent document's history.
+export const setCustomerConsentOverride = onCall({
+  cors: true
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+
+  const { phone, allow, reason } = (request.data || {}) as Record<string, unknown>;
+
+  if (typeof phone !== 'string' || !isValidRecipient(phone) || typeof allow !== 'boolean') {
+    throw new HttpsError('invalid-argument', 'Expected a valid phone and a boolean allow');
+  }
+
+  if (reason !== undefined && typeof reason !== 'string') {
+    throw new HttpsError('invalid-argument', 'Invalid field type: reason must be a string');
+  }
+
+  const role = await resolveSenderRole(request.auth.uid, request.auth.token);
+
+  if (role !== 'business_owner') {
+    throw new HttpsError('permission-denied', 'Only business owners can override a customer opt-out.');
+  }
+
+  const actorName = request.auth.token.name || request.auth.token.email;
+  await setConsentOverride(request.auth.uid, phone, allow, reason, actorName);
+
+  return { success: true };
+});
+
+// Starts scheduled broadcast campaigns and queues each sending campaign's next
+// slice of recipients in the outbox, throttled to its per-minute send rate
+export const dispatchCampaigns = onSchedule('every 1 minutes', async () => {
+  await runCampaignDispatcher();
+});
+
+// Queue "send later" messages from the chat dashboard once they are due
+export const dispatchScheduledMessages = onSchedule('every 1 minutes', async () => {
+  await runScheduledMessageDispatcher();
+});
+
+// Schedule a broadcast campaign as the calling business owner
+export const createCampaign = onCall({
+  cors: true
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+
+  const role = await resolveSenderRole(request.auth.uid, request.auth.token);
+
+  if (role !== 'business_owner') {
+    throw new HttpsError('permission-denied', 'Only business owners can manage campaigns.');
+  }
+
+  const campaignId = await scheduleCampaign(request.auth.uid, parseCreateCampaignRequest(request.data));
+
+  return { campaignId };
+});
+
+// Cancel a campaign as the calling business owner; queued recipients are still sent
+export const cancelCampaign = onCall({
+  cors: true
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+
+  const role = await resolveSenderRole(request.auth.uid, request.auth.token);
+
+  if (role !== 'business_owner') {
+    throw new HttpsError('permission-denied', 'Only business owners can manage campaigns.');
+  }
+
+  const { campaignId } = (request.data ?? {}) as { campaignId?: unknown };
+
+  if (typeof campaignId !== 'string' || !campaignId) {
+    throw new HttpsError('invalid-argument', 'campaignId is required');
+  }
+
+  await applyCampaignCancellation(request.auth.uid, campaignId);
+
+  return { success: true };
+});
+
+// Audience size for a campaign segment, so owners can check it before scheduling
+export const previewCampaignAudience = onCall({
+  cors: true
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
   }
-});
\ No newline at end of file
+
+  const role = await resolveSenderRole(request.auth.uid, request.auth.token);
+
+  if (role !== 'business_owner') {
+    throw new HttpsError('permission-denied', 'Only business owners can manage campaigns.');
+  }
+
+  const audience = await resolveAudience(parseSegment(request.data?.segment));
+
+  return {
+    eligible: audience.eligible.length,
+    optedOut: audience.optedOut.length,
+  };
+});
+
+// Move an order through its lifecycle (see orderLifecycle.ts), optionally
+// telling the customer over WhatsApp. Operators and business owners only.
+export const transitionOrder = onCall({
+  cors: true
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+
+  const transition = parseTransitionRequest(request.data);
+  const role = await resolveSenderRole(request.auth.uid, request.auth.token);
+
+  if (transition.overrideStock && role !== 'business_owner') {
+    throw new HttpsError('permission-denied', 'Only business owners can confirm orders without enough stock.');
+  }
+
+  return applyOrderTransition(request.auth.uid, transition);
+});
@@ -0,0 +1,98 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { InteractiveMessage, InteractiveOption } from './whatsappService';
+
+// WhatsApp Cloud API limits for interactive messages. Mirrors src/lib/interactive.ts.
+export const INTERACTIVE_LIMITS = {
+  bodyLength: 1024,
+  maxButtons: 3,
+  buttonTitleLength: 20,
+  maxListRows: 10,
+  listButtonTextLength: 20,
+  rowTitleLength: 24,
+  rowDescriptionLength: 72,
+  optionIdLength: 200,
+};
+
+export type OrderReplyAction = 'confirm' | 'change' | 'cancel';
+
+// Reply IDs the dashboard uses for its order confirmation preset
+const ORDER_REPLY_ACTIONS: Record<string, OrderReplyAction> = {
+  'order:confirm': 'confirm',
+  'order:change_size': 'change',
+  'order:cancel': 'cancel',
+};
+
+export const getOrderReplyAction = (replyId: string): OrderReplyAction | undefined => {
+  return ORDER_REPLY_ACTIONS[replyId];
+};
+
+const invalid = (message: string) => new HttpsError('invalid-argument', `Invalid interactive message: ${message}`);
+
+/**
+ * Validate an interactive message from the client against the WhatsApp limits.
+ * Throws `invalid-argument` describing the first problem found.
+ */
+export const parseInteractiveMessage = (data: unknown): InteractiveMessage => {
+  const { type, body, buttonText, options } = (data || {}) as Record<string, unknown>;
+
+  if (type !== 'button' && type !== 'list') {
+    throw invalid('type must be "button" or "list"');
+  }
+
+  if (typeof body !== 'string' || !body.trim() || body.length > INTERACTIVE_LIMITS.bodyLength) {
+    throw invalid(`body must be 1-${INTERACTIVE_LIMITS.bodyLength} characters`);
+  }
+
+  const maxOptions = type === 'button' ? INTERACTIVE_LIMITS.maxButtons : INTERACTIVE_LIMITS.maxListRows;
+
+  if (!Array.isArray(options) || options.length === 0 || options.length > maxOptions) {
+    throw invalid(`${type} messages need 1-${maxOptions} options`);
+  }
+
+  const titleLength = type === 'button' ? INTERACTIVE_LIMITS.buttonTitleLength : INTERACTIVE_LIMITS.rowTitleLength;
+
+  const parsedOptions: InteractiveOption[] = options.map((option, index) => {
+    const { id, title, description } = (option || {}) as Record<string, unknown>;
+
+    if (typeof id !== 'string' || !id || id.length > INTERACTIVE_LIMITS.optionIdLength) {
+      throw invalid(`option ${index + 1} needs an id`);
+    }
+
+    if (typeof title !== 'string' || !title.trim() || title.length > titleLength) {
+      throw invalid(`option ${index + 1} title must be 1-${titleLength} characters`);
+    }
+
+    if (description !== undefined && description !== '' && (
+      type === 'button' ||
+      typeof description !== 'string' ||
+      description.length > INTERACTIVE_LIMITS.rowDescriptionLength
+    )) {
+      throw invalid(`option ${index + 1} description must be a list row of at most ${INTERACTIVE_LIMITS.rowDescriptionLength} characters`);
+    }
+
+    return {
+      id,
+      title,
+      ...(typeof description === 'string' && description && { description }),
+    };
+  });
+
+  if (new Set(parsedOptions.map(option => option.id)).size !== parsedOptions.length) {
+    throw invalid('option ids must be unique');
+  }
+
+  if (type === 'list' && (
+    typeof buttonText !== 'string' ||
+    !buttonText.trim() ||
+    buttonText.length > INTERACTIVE_LIMITS.listButtonTextLength
+  )) {
+    throw invalid(`list button text must be 1-${INTERACTIVE_LIMITS.listButtonTextLength} characters`);
+  }
+
+  return {
+    type,
+    body,
+    options: parsedOptions,
+    ...(type === 'list' && { buttonText: buttonText as string }),
+  };
+};
@@ -0,0 +1,154 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getDownloadURL, getStorage } from 'firebase-admin/storage';
+import { MediaKind, MediaMessage, WhatsAppSender } from './whatsappService';
+
+export const MEDIA_STORAGE_PREFIX = 'chat_media';
+
+// WhatsApp Cloud API media limits. Mirrors src/lib/media.ts.
+export const MEDIA_LIMITS: Record<MediaKind, { maxBytes: number; mimeTypes: string[] }> = {
+  image: {
+    maxBytes: 5 * 1024 * 1024,
+    mimeTypes: ['image/jpeg', 'image/png'],
+  },
+  audio: {
+    maxBytes: 16 * 1024 * 1024,
+    mimeTypes: ['audio/aac', 'audio/mp4', 'audio/mpeg', 'audio/amr', 'audio/ogg'],
+  },
+  document: {
+    maxBytes: 100 * 1024 * 1024,
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+  },
+};
+
+// Inbound files are buffered in memory by the webhook, so larger ones are left
+// as a placeholder message rather than copied to Storage
+export const MAX_INBOUND_MEDIA_BYTES = 25 * 1024 * 1024;
+
+// Reference to an operator upload, written by the client on the outbox entry
+export interface OutboundMediaRef {
+  storagePath: string;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface StoredMedia {
+  id: string;
+  name: string;
+  url: string;
+  type: string;
+  size: number;
+  storagePath: string;
+}
+
+// Drop parameters such as "; codecs=opus" before comparing MIME types
+const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+export const getMediaKind = (mimeType: string): MediaKind | null => {
+  const type = baseMimeType(mimeType);
+  const kinds = Object.keys(MEDIA_LIMITS) as MediaKind[];
+  return kinds.find(kind => MEDIA_LIMITS[kind].mimeTypes.includes(type)) || null;
+};
+
+/**
+ * Check a file against the WhatsApp limits for its type.
+ * Returns a human-readable reason when the file can't be sent.
+ */
+export const validateMedia = (mimeType: string, size: number): string | null => {
+  const kind = getMediaKind(mimeType);
+
+  if (!kind) {
+    return `Files of type ${mimeType || 'unknown'} can't be sent over WhatsApp`;
+  }
+
+  const { maxBytes } = MEDIA_LIMITS[kind];
+
+  if (size > maxBytes) {
+    return `${kind[0].toUpperCase()}${kind.slice(1)} files must be ${maxBytes / (1024 * 1024)} MB or smaller`;
+  }
+
+  return null;
+};
+
+/**
+ * Validate an operator upload against the object actually stored in Storage
+ * (the client's claims about type and size aren't trusted) and turn it into a
+ * WhatsApp media message pointing at a download URL.
+ */
+export const resolveOutboundMedia = async (media: unknown, caption?: string): Promise<MediaMessage> => {
+  const { storagePath, fileName } = (media || {}) as Record<string, unknown>;
+
+  if (typeof storagePath !== 'string' || !storagePath.startsWith(`${MEDIA_STORAGE_PREFIX}/`)) {
+    throw new HttpsError('invalid-argument', 'Invalid media: storagePath must point at an uploaded chat file');
+  }
+
+  const file = getStorage().bucket().file(storagePath);
+  const [exists] = await file.exists();
+
+  if (!exists) {
+    throw new HttpsError('not-found', 'The uploaded file could not be found');
+  }
+
+  const [metadata] = await file.getMetadata();
+  const mimeType = metadata.contentType || '';
+  const validationError = validateMedia(mimeType, Number(metadata.size || 0));
+
+  if (validationError) {
+    throw new HttpsError('invalid-argument', validationError);
+  }
+
+  const kind = getMediaKind(mimeType) as MediaKind;
+
+  return {
+    kind,
+    link: await getDownloadURL(file),
+    // WhatsApp ignores captions on audio and only shows filenames for documents
+    ...(caption && kind !== 'audio' && { caption }),
+    ...(kind === 'document' && typeof fileName === 'string' && { filename: fileName }),
+  };
+};
+
+const extensionFor = (mimeType: string): string => {
+  const subtype = baseMimeType(mimeType).split('/')[1] || 'bin';
+  return subtype.replace(/[^a-z0-9]/g, '').slice(0, 8) || 'bin';
+};
+
+/**
+ * Fetch an inbound attachment from the Graph media endpoint and keep a copy in
+ * Storage; WhatsApp media URLs expire and require our access token.
+ */
+export const storeInboundMedia = async (
+  client: WhatsAppSender,
+  mediaId: string,
+  conversationId: string,
+  fileName?: string
+): Promise<StoredMedia> => {
+  const { data, mimeType } = await client.downloadMedia(mediaId, MAX_INBOUND_MEDIA_BYTES);
+
+  if (data.length > MAX_INBOUND_MEDIA_BYTES) {
+    throw new Error(`Inbound media ${mediaId} exceeds ${MAX_INBOUND_MEDIA_BYTES} bytes`);
+  }
+
+  const name = (fileName || `${mediaId}.${extensionFor(mimeType)}`).replace(/[/\\]/g, '_');
+  const storagePath = `${MEDIA_STORAGE_PREFIX}/${conversationId}/inbound/${mediaId}/${name}`;
+  const file = getStorage().bucket().file(storagePath);
+
+  await file.save(data, { contentType: mimeType, resumable: false });
+
+  return {
+    id: mediaId,
+    name,
+    url: await getDownloadURL(file),
+    type: mimeType,
+    size: data.length,
+    storagePath,
+  };
+};
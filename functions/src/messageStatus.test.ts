@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { asFirestore, createFakeFirestore } from './fakeFirestore';
+import { WhatsAppStatus, WhatsAppWebhookPayload } from './inboundWebhook';
+import { applyPendingStatusUpdates, applyStatusUpdate, parseStatusUpdates, shouldApplyStatus } from './messageStatus';
+
+const statusPayload = (...statuses: WhatsAppStatus[]): WhatsAppWebhookPayload => ({
+  object: 'whatsapp_business_account',
+  entry: [{ id: 'waba-1', changes: [{ field: 'messages', value: { messaging_product: 'whatsapp', statuses } }] }],
+});
+
+const status = (status: WhatsAppStatus['status'], timestamp: number, extra: Partial<WhatsAppStatus> = {}): WhatsAppStatus => ({
+  id: 'wamid.out1',
+  status,
+  timestamp: String(timestamp),
+  recipient_id: '6591234567',
+  ...extra,
+});
+
+test('parseStatusUpdates maps each status callback', () => {
+  const updates = parseStatusUpdates(statusPayload(status('delivered', 1760000000), status('read', 1760000060)));
+
+  assert.deepEqual(updates, [
+    { whatsappMessageId: 'wamid.out1', status: 'delivered', recipient: '6591234567', timestamp: new Date(1760000000000), error: undefined },
+    { whatsappMessageId: 'wamid.out1', status: 'read', recipient: '6591234567', timestamp: new Date(1760000060000), error: undefined },
+  ]);
+  assert.deepEqual(parseStatusUpdates({ object: 'page' }), []);
+});
+
+test('parseStatusUpdates keeps the error code of a failed callback', () => {
+  const [withMessage, titleOnly] = parseStatusUpdates(statusPayload(
+    status('failed', 1760000000, { errors: [{ code: 131047, title: 'Re-engagement message', message: 'More than 24 hours have passed' }] }),
+    status('failed', 1760000000, { id: 'wamid.out2', errors: [{ code: 131026, title: 'Message undeliverable' }] })
+  ));
+
+  assert.equal(withMessage.status, 'failed');
+  assert.deepEqual(withMessage.error, { code: 131047, message: 'More than 24 hours have passed' });
+  assert.deepEqual(titleOnly.error, { code: 131026, message: 'Message undeliverable' });
+});
+
+test('shouldApplyStatus only moves a status forward', () => {
+  assert.equal(shouldApplyStatus(undefined, 'sent'), true);
+  assert.equal(shouldApplyStatus('sent', 'delivered'), true);
+  assert.equal(shouldApplyStatus('delivered', 'read'), true);
+  assert.equal(shouldApplyStatus('read', 'delivered'), false);
+  assert.equal(shouldApplyStatus('sent', 'failed'), true);
+  assert.equal(shouldApplyStatus('delivered', 'failed'), false);
+  assert.equal(shouldApplyStatus('failed', 'read'), false);
+});
+
+test('applyStatusUpdate records a failure and its error code', async () => {
+  const db = createFakeFirestore();
+  await db.collection('chat_messages').doc('message-1').set({
+    conversationId: 'conversation-1',
+    whatsappMessageId: 'wamid.out1',
+    status: 'sent',
+  });
+
+  const [update] = parseStatusUpdates(statusPayload(
+    status('failed', 1760000000, { errors: [{ code: 131047, title: 'Re-engagement message' }] })
+  ));
+  const result = await applyStatusUpdate(update, asFirestore(db));
+
+  assert.deepEqual(result, { outcome: 'applied', messageId: 'message-1' });
+  assert.equal(db.data('chat_messages/message-1')?.status, 'failed');
+  assert.deepEqual(db.data('chat_messages/message-1')?.error, { code: 131047, message: 'Re-engagement message' });
+  assert.deepEqual(db.data('message_status/message-1')?.error, { code: 131047, message: 'Re-engagement message' });
+  assert.ok(db.data('message_status/message-1')?.failedAt);
+});
+
+test('callbacks that arrive before the message is linked are applied once it is', async () => {
+  const db = createFakeFirestore();
+  const [delivered, read] = parseStatusUpdates(statusPayload(status('delivered', 1760000000), status('read', 1760000060)));
+
+  // Read arrives first; both beat the send path
+  assert.deepEqual(await applyStatusUpdate(read, asFirestore(db)), { outcome: 'pending' });
+  assert.deepEqual(await applyStatusUpdate(delivered, asFirestore(db)), { outcome: 'pending' });
+  assert.equal((db.data('pending_status_updates/wamid.out1')?.updates as unknown[]).length, 2);
+
+  const messageRef = asFirestore(db).collection('chat_messages').doc('message-1');
+  await messageRef.set({ conversationId: 'conversation-1', whatsappMessageId: 'wamid.out1', status: 'sent' });
+
+  assert.equal(await applyPendingStatusUpdates(messageRef, 'wamid.out1'), 2);
+  assert.equal(db.data('chat_messages/message-1')?.status, 'read');
+  assert.equal((db.data('message_status/message-1')?.deliveredAt as Timestamp).toMillis(), 1760000000000);
+  assert.equal((db.data('message_status/message-1')?.readAt as Timestamp).toMillis(), 1760000060000);
+  assert.deepEqual(db.data('message_status/message-1')?.readBy, ['6591234567']);
+  assert.equal(db.data('pending_status_updates/wamid.out1'), undefined);
+
+  // Nothing left to apply the second time
+  assert.equal(await applyPendingStatusUpdates(messageRef, 'wamid.out1'), 0);
+});
+
+test('a delivery callback for a campaign message moves its recipient forward', async () => {
+  const db = createFakeFirestore();
+  await db.collection('campaigns').doc('campaign-1').collection('recipients').doc('6591234567').set({ state: 'sent' });
+  await db.collection('chat_messages').doc('message-1').set({
+    conversationId: '6591234567',
+    whatsappMessageId: 'wamid.out1',
+    status: 'sent',
+    campaign: { campaignId: 'campaign-1', recipientId: '6591234567' },
+  });
+
+  const [delivered, failed] = parseStatusUpdates(statusPayload(
+    status('delivered', 1760000000),
+    status('failed', 1760000060, { errors: [{ code: 131026, title: 'Message undeliverable' }] })
+  ));
+
+  await applyStatusUpdate(delivered, asFirestore(db));
+  assert.equal(db.data('campaigns/campaign-1/recipients/6591234567')?.state, 'delivered');
+
+  // A failure after delivery doesn't move the message, so the recipient stays delivered
+  await applyStatusUpdate(failed, asFirestore(db));
+  assert.equal(db.data('campaigns/campaign-1/recipients/6591234567')?.state, 'delivered');
+});
@@ -0,0 +1,239 @@
+import {
+  DocumentReference,
+  DocumentSnapshot,
+  Firestore,
+  getFirestore,
+  FieldValue,
+  Timestamp,
+  Transaction,
+} from 'firebase-admin/firestore';
+import { recordCampaignDeliveryStatus } from './campaignRecipients';
+import { WhatsAppStatus, WhatsAppWebhookPayload } from './inboundWebhook';
+import { webhookEventRecord, webhookEventRef } from './webhookSecurity';
+
+const MESSAGES_COLLECTION = 'chat_messages';
+const MESSAGE_STATUS_COLLECTION = 'message_status';
+const PENDING_STATUS_COLLECTION = 'pending_status_updates';
+
+type DeliveryStatus = WhatsAppStatus['status'];
+
+export interface StatusUpdate {
+  whatsappMessageId: string;
+  status: DeliveryStatus;
+  recipient: string;
+  timestamp: Date;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export type StatusUpdateOutcome = 'applied' | 'outdated' | 'pending' | 'duplicate';
+
+export interface StatusUpdateResult {
+  outcome: StatusUpdateOutcome;
+  // The chat message the update was applied to
+  messageId?: string;
+}
+
+// How an early callback is stored until its message is linked
+type PendingStatusUpdate = Omit<StatusUpdate, 'timestamp'> & { timestamp: Timestamp };
+
+const toPendingUpdate = ({ timestamp, error, ...update }: StatusUpdate): PendingStatusUpdate => ({
+  ...update,
+  timestamp: Timestamp.fromDate(timestamp),
+  ...(error && { error }),
+});
+
+const fromPendingUpdate = ({ timestamp, ...update }: PendingStatusUpdate): StatusUpdate => ({
+  ...update,
+  timestamp: timestamp.toDate(),
+});
+
+// Each message gets one callback per status, so the pair identifies a callback for dedupe
+export const statusEventId = (update: StatusUpdate): string => `${update.whatsappMessageId}:${update.status}`;
+
+// Meta does not guarantee callback order, so a status only ever moves forward.
+// 'failed' can only replace 'sent': a delivered or read message cannot fail afterwards.
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 2,
+};
+
+export const shouldApplyStatus = (current: DeliveryStatus | undefined, next: DeliveryStatus): boolean => {
+  if (!current) return true;
+  if (current === 'failed') return false;
+  return STATUS_RANK[next] > STATUS_RANK[current];
+};
+
+/**
+ * Flatten the `statuses[]` entries of a WhatsApp Cloud API webhook payload.
+ */
+export const parseStatusUpdates = (payload: WhatsAppWebhookPayload): StatusUpdate[] => {
+  if (payload?.object !== 'whatsapp_business_account') {
+    return [];
+  }
+
+  const updates: StatusUpdate[] = [];
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== 'messages' || !change.value?.statuses) continue;
+
+      for (const status of change.value.statuses) {
+        const providerError = status.errors?.[0];
+
+        updates.push({
+          whatsappMessageId: status.id,
+          status: status.status,
+          recipient: status.recipient_id,
+          timestamp: new Date(Number(status.timestamp) * 1000),
+          error: providerError
+            ? { code: providerError.code, message: providerError.message || providerError.title }
+            : undefined,
+        });
+      }
+    }
+  }
+
+  return updates;
+};
+
+// Applies one status to a message whose current status it moves forward
+const writeStatusUpdate = (
+  transaction: Transaction,
+  messageSnap: DocumentSnapshot,
+  current: DeliveryStatus | undefined,
+  update: StatusUpdate
+): void => {
+  const messageRef = messageSnap.ref;
+  const statusRef = messageRef.firestore.collection(MESSAGE_STATUS_COLLECTION).doc(messageRef.id);
+  const eventTime = Timestamp.fromDate(update.timestamp);
+
+  transaction.update(messageRef, {
+    status: update.status,
+    ...(update.error && { error: update.error }),
+  });
+
+  const statusRecord: Record<string, unknown> = {
+    messageId: messageRef.id,
+    conversationId: messageSnap.data()?.conversationId,
+  };
+
+  // A read receipt implies delivery, even if the delivered callback never arrived
+  if (update.status === 'delivered' || update.status === 'read') {
+    statusRecord.deliveredTo = FieldValue.arrayUnion(update.recipient);
+    if (current !== 'delivered') {
+      statusRecord.deliveredAt = eventTime;
+    }
+  }
+
+  if (update.status === 'read') {
+    statusRecord.readBy = FieldValue.arrayUnion(update.recipient);
+    statusRecord.readAt = eventTime;
+  }
+
+  if (update.status === 'failed') {
+    statusRecord.failedAt = eventTime;
+    statusRecord.error = update.error || null;
+  }
+
+  transaction.set(statusRef, statusRecord, { merge: true });
+  recordCampaignDeliveryStatus(transaction, messageSnap, update.status, update.error, messageRef.firestore);
+};
+
+/**
+ * Apply a delivery/read/failed callback to the chat message it refers to and its
+ * `message_status` record. The callback is recorded in `webhook_events` in the
+ * same transaction, so a replayed callback is reported as a duplicate and
+ * changes nothing.
+ *
+ * A callback can beat the send path to linking the WhatsApp ID to its chat
+ * message. Those are kept in `pending_status_updates` until
+ * applyPendingStatusUpdates runs for the message.
+ */
+export const applyStatusUpdate = async (
+  update: StatusUpdate,
+  db: Firestore = getFirestore()
+): Promise<StatusUpdateResult> => {
+  const eventRef = webhookEventRef(db, statusEventId(update));
+  const pendingRef = db.collection(PENDING_STATUS_COLLECTION).doc(update.whatsappMessageId);
+  const messagesQuery = db.collection(MESSAGES_COLLECTION)
+    .where('whatsappMessageId', '==', update.whatsappMessageId)
+    .limit(1);
+
+  return db.runTransaction(async (transaction): Promise<StatusUpdateResult> => {
+    const [eventSnap, matches] = await Promise.all([transaction.get(eventRef), transaction.get(messagesQuery)]);
+
+    if (eventSnap.exists) {
+      return { outcome: 'duplicate' };
+    }
+
+    const eventRecord = webhookEventRecord('status');
+    transaction.set(eventRef, eventRecord);
+
+    const messageSnap = matches.docs[0];
+    const message = messageSnap?.data();
+
+    if (!message) {
+      // Kept as long as the callback's dedupe record
+      transaction.set(pendingRef, {
+        updates: FieldValue.arrayUnion(toPendingUpdate(update)),
+        expiresAt: eventRecord.expiresAt,
+      }, { merge: true });
+      return { outcome: 'pending' };
+    }
+
+    if (!shouldApplyStatus(message.status, update.status)) {
+      return { outcome: 'outdated', messageId: messageSnap.id };
+    }
+
+    writeStatusUpdate(transaction, messageSnap, message.status, update);
+
+    return { outcome: 'applied', messageId: messageSnap.id };
+  });
+};
+
+/**
+ * Apply the callbacks that arrived before `whatsappMessageId` was linked to
+ * the chat message, oldest first, and clear them. Call this once the link is
+ * written. Returns how many moved the message's status forward.
+ */
+export const applyPendingStatusUpdates = async (
+  messageRef: DocumentReference,
+  whatsappMessageId: string
+): Promise<number> => {
+  const db = messageRef.firestore;
+  const pendingRef = db.collection(PENDING_STATUS_COLLECTION).doc(whatsappMessageId);
+
+  return db.runTransaction(async (transaction) => {
+    const [pendingSnap, messageSnap] = await Promise.all([transaction.get(pendingRef), transaction.get(messageRef)]);
+
+    if (!pendingSnap.exists) {
+      return 0;
+    }
+
+    transaction.delete(pendingRef);
+
+    if (!messageSnap.exists) {
+      return 0;
+    }
+
+    const updates = ((pendingSnap.data()?.updates ?? []) as PendingStatusUpdate[])
+      .map(fromPendingUpdate)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || STATUS_RANK[a.status] - STATUS_RANK[b.status]);
+    let current: DeliveryStatus | undefined = messageSnap.data()?.status;
+    let applied = 0;
+
+    for (const update of updates) {
+      if (!shouldApplyStatus(current, update.status)) continue;
+      writeStatusUpdate(transaction, messageSnap, current, update);
+      current = update.status;
+      applied++;
+    }
+
+    return applied;
+  });
+};
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { WhatsAppWebhookPayload } from './inboundWebhook';
+import { MockWhatsAppOptions, MockWhatsAppServer, startMockWhatsAppServer } from './mockWhatsAppServer';
+import { verifySignature } from './webhookSecurity';
+import { WhatsAppApiError, WhatsAppService } from './whatsappService';
+
+const APP_SECRET = 'test-app-secret';
+const TOKEN = 'test-token';
+
+// Collects the webhook calls the mock makes, rejecting any that aren't signed with APP_SECRET
+const startWebhookReceiver = async () => {
+  const payloads: WhatsAppWebhookPayload[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const rejection = verifySignature(body, req.headers['x-hub-signature-256'] as string, APP_SECRET);
+      if (!rejection) payloads.push(JSON.parse(body.toString('utf8')));
+      res.writeHead(rejection ? 401 : 200);
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, resolve));
+
+  return {
+    url: `http://localhost:${(server.address() as AddressInfo).port}/whatsappWebhook`,
+    payloads,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+const withMock = async (
+  options: MockWhatsAppOptions,
+  run: (mock: MockWhatsAppServer, service: WhatsAppService) => Promise<void>
+) => {
+  const mock = await startMockWhatsAppServer({ port: 0, accessToken: TOKEN, ...options });
+
+  try {
+    await run(mock, new WhatsAppService('15550001111', TOKEN, mock.baseUrl));
+  } finally {
+    await mock.close();
+  }
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+test('mock accepts sends and records them', async () => {
+  await withMock({}, async (mock, service) => {
+    const response = await service.sendMessage('+1 555 123 4567', 'Your order has shipped');
+
+    assert.equal(mock.sent.length, 1);
+    assert.equal(response.messages[0].id, mock.sent[0].id);
+    assert.equal(mock.sent[0].to, '15551234567');
+    assert.equal(mock.sent[0].phoneNumberId, '15550001111');
+    assert.deepEqual(mock.sent[0].payload.text, { body: 'Your order has shipped' });
+  });
+});
+
+test('mock fails injected sends with Graph errors, then recovers', async () => {
+  await withMock({ failures: [429] }, async (mock, service) => {
+    await assert.rejects(service.sendMessage('15551234567', 'hi'), (error: unknown) => {
+      assert.ok(error instanceof WhatsAppApiError);
+      assert.equal(error.status, 429);
+      assert.equal(error.code, 130429);
+      assert.equal(error.retryAfterMs, 1000);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+
+    mock.injectFailures([400]);
+    await assert.rejects(service.sendMessage('15551234567', 'hi'), { status: 400 });
+
+    await service.sendMessage('15551234567', 'hi');
+    assert.equal(mock.sent.length, 1);
+  });
+});
+
+test('mock rejects an unknown access token', async () => {
+  const mock = await startMockWhatsAppServer({ port: 0, accessToken: TOKEN });
+
+  try {
+    const service = new WhatsAppService('15550001111', 'wrong-token', mock.baseUrl);
+    await assert.rejects(service.sendMessage('15551234567', 'hi'), { status: 401, code: 190 });
+  } finally {
+    await mock.close();
+  }
+});
+
+test('mock emits signed status callbacks for each send', async () => {
+  const webhook = await startWebhookReceiver();
+
+  try {
+    await withMock({ webhookUrl: webhook.url, appSecret: APP_SECRET, statusDelayMs: 5 }, async (_mock, service) => {
+      const response = await service.sendMessage('15551234567', 'hi');
+      await waitFor(() => webhook.payloads.length === 3);
+
+      const statuses = webhook.payloads.map(payload => payload.entry?.[0].changes?.[0].value?.statuses?.[0]);
+      assert.deepEqual(statuses.map(status => status?.status), ['sent', 'delivered', 'read']);
+      assert.ok(statuses.every(status => status?.id === response.messages[0].id));
+    });
+  } finally {
+    await webhook.close();
+  }
+});
+
+test('mock delivers inbound images whose media downloads through the service', async () => {
+  const webhook = await startWebhookReceiver();
+
+  try {
+    await withMock({ webhookUrl: webhook.url, appSecret: APP_SECRET }, async (mock, service) => {
+      await mock.sendInbound({
+        from: '15551234567',
+        name: 'Ana',
+        image: { data: Buffer.from('png bytes'), mimeType: 'image/png', caption: 'This one' },
+      });
+
+      const message = webhook.payloads[0].entry?.[0].changes?.[0].value?.messages?.[0];
+      assert.equal(message?.type, 'image');
+      assert.equal(message?.image?.caption, 'This one');
+
+      const media = await service.downloadMedia(message?.image?.id as string);
+      assert.equal(media.mimeType, 'image/png');
+      assert.equal(media.data.toString('utf8'), 'png bytes');
+    });
+  } finally {
+    await webhook.close();
+  }
+});
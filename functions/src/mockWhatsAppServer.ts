@@ -0,0 +1,419 @@
+import { createHmac, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from 'firebase-functions';
+import {
+  WhatsAppInboundMessage,
+  WhatsAppStatus,
+  WhatsAppWebhookPayload,
+  WhatsAppWebhookValue,
+} from './inboundWebhook';
+
+export const MOCK_API_VERSION = 'v22.0';
+
+const DEFAULT_PORT = 8089;
+const DEFAULT_PHONE_NUMBER_ID = 'mock-phone-number-id';
+const DEFAULT_STATUS_DELAY_MS = 1000;
+const SENDABLE_TYPES = ['text', 'template', 'image', 'audio', 'document', 'interactive'];
+
+type DeliveryStatus = Exclude<WhatsAppStatus['status'], 'failed'>;
+
+export interface MockWhatsAppOptions {
+  // 0 picks a free port
+  port?: number;
+  // Added to every API response
+  latencyMs?: number;
+  // HTTP statuses to fail the next sends with, one per send, in order
+  failures?: number[];
+  // When set, only this bearer token is accepted
+  accessToken?: string;
+  phoneNumberId?: string;
+  // Our whatsappWebhook URL; status callbacks and inbound messages are posted here
+  webhookUrl?: string;
+  // Signs callbacks like Meta does; must match the webhook's WHATSAPP_APP_SECRET
+  appSecret?: string;
+  // Callbacks emitted for each sent message, one every statusDelayMs
+  statuses?: DeliveryStatus[];
+  statusDelayMs?: number;
+}
+
+export interface MockSentMessage {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  type: string;
+  payload: Record<string, unknown>;
+  sentAt: Date;
+}
+
+// A customer message to deliver to our webhook; text, or an image served by the mock's media endpoints
+export interface MockInboundMessage {
+  from: string;
+  name?: string;
+  text?: string;
+  image?: { data: Buffer; mimeType: string; caption?: string };
+}
+
+export interface MockWhatsAppServer {
+  // Graph base URL including the API version, for WHATSAPP_API_BASE_URL
+  baseUrl: string;
+  sent: MockSentMessage[];
+  injectFailures(statuses: number[]): void;
+  sendInbound(message: MockInboundMessage): Promise<string>;
+  close(): Promise<void>;
+}
+
+// Error bodies in the Graph API's shape, with the codes Meta uses for each status
+const GRAPH_ERRORS: Record<number, { code: number; message: string }> = {
+  400: { code: 131026, message: 'Message undeliverable' },
+  401: { code: 190, message: 'Invalid OAuth access token' },
+  404: { code: 100, message: 'Unsupported get request' },
+  429: { code: 130429, message: 'Rate limit hit' },
+  500: { code: 131000, message: 'Something went wrong' },
+  503: { code: 131016, message: 'Service unavailable' },
+};
+
+const graphError = (status: number, message?: string) => {
+  const known = GRAPH_ERRORS[status] || GRAPH_ERRORS[500];
+  return {
+    error: {
+      message: message || known.message,
+      type: 'OAuthException',
+      code: known.code,
+      fbtrace_id: randomBytes(8).toString('hex'),
+    },
+  };
+};
+
+const parseStatusList = (value: string | undefined): number[] => {
+  return (value || '')
+    .split(',')
+    .map(code => Number(code.trim()))
+    .filter(code => code > 0);
+};
+
+export const mockWhatsAppOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): MockWhatsAppOptions => ({
+  port: Number(env.MOCK_WHATSAPP_PORT) || DEFAULT_PORT,
+  latencyMs: Number(env.MOCK_WHATSAPP_LATENCY_MS) || 0,
+  failures: parseStatusList(env.MOCK_WHATSAPP_FAILURES),
+  accessToken: env.MOCK_WHATSAPP_ACCESS_TOKEN || undefined,
+  phoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID || undefined,
+  webhookUrl: env.MOCK_WHATSAPP_WEBHOOK_URL || undefined,
+  appSecret: env.WHATSAPP_APP_SECRET || undefined,
+  statusDelayMs: Number(env.MOCK_WHATSAPP_STATUS_DELAY_MS) || undefined,
+});
+
+// Meta signs each webhook call with an HMAC-SHA256 of the raw body; see webhookSecurity.ts
+export const signWebhookBody = (body: string, appSecret: string): string => {
+  return `sha256=${createHmac('sha256', appSecret).update(body).digest('hex')}`;
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+// The dashboard's legacy WhatsAppService calls the API from the browser
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS, ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Start a local stand-in for the WhatsApp Cloud API: the Graph
+ * `/{phoneNumberId}/messages` and media endpoints, plus `/__mock/*` control
+ * routes. Successful sends are answered with `sent`, `delivered` and `read`
+ * callbacks to `webhookUrl`, so the whole chat flow runs without credentials.
+ */
+export const startMockWhatsAppServer = async (options: MockWhatsAppOptions = {}): Promise<MockWhatsAppServer> => {
+  const phoneNumberId = options.phoneNumberId || DEFAULT_PHONE_NUMBER_ID;
+  const statuses = options.statuses || ['sent', 'delivered', 'read'];
+  const statusDelayMs = options.statusDelayMs ?? DEFAULT_STATUS_DELAY_MS;
+  const failures = [...(options.failures || [])];
+  const media = new Map<string, { data: Buffer; mimeType: string }>();
+  const timers = new Set<NodeJS.Timeout>();
+  const sent: MockSentMessage[] = [];
+  let baseUrl = '';
+  let counter = 0;
+
+  const nextId = (prefix: string) => `${prefix}.mock.${Date.now()}.${++counter}`;
+
+  const postToWebhook = async (value: WhatsAppWebhookValue) => {
+    if (!options.webhookUrl) return;
+
+    const payload: WhatsAppWebhookPayload = {
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: 'mock-business-account',
+        changes: [{
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: { display_phone_number: '15550000000', phone_number_id: phoneNumberId },
+            ...value,
+          },
+        }],
+      }],
+    };
+    const body = JSON.stringify(payload);
+
+    try {
+      const response = await fetch(options.webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.appSecret && { 'X-Hub-Signature-256': signWebhookBody(body, options.appSecret) }),
+        },
+        body,
+      });
+
+      if (!response.ok) {
+        logger.warn('Mock WhatsApp webhook call rejected', { status: response.status });
+      }
+    } catch (error) {
+      logger.warn('Mock WhatsApp webhook call failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  // One callback per configured status, spaced out like real delivery
+  const scheduleStatusCallbacks = (message: MockSentMessage) => {
+    if (!options.webhookUrl) return;
+
+    statuses.forEach((status, index) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        postToWebhook({
+          statuses: [{
+            id: message.id,
+            status,
+            timestamp: String(Math.floor(Date.now() / 1000)),
+            recipient_id: message.to,
+          }],
+        });
+      }, statusDelayMs * (index + 1));
+      timers.add(timer);
+    });
+  };
+
+  const handleSend = (res: ServerResponse, targetPhoneNumberId: string, rawBody: string) => {
+    let payload: Record<string, unknown>;
+
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      sendJson(res, 400, graphError(400, 'Invalid JSON body'));
+      return;
+    }
+
+    const to = typeof payload.to === 'string' ? payload.to.replace(/\D/g, '') : '';
+    const type = String(payload.type || 'text');
+
+    if (payload.messaging_product !== 'whatsapp' || !to || !SENDABLE_TYPES.includes(type) || !payload[type]) {
+      sendJson(res, 400, graphError(400, `Invalid parameter: expected a ${type} message for a recipient`));
+      return;
+    }
+
+    const failure = failures.shift();
+
+    if (failure) {
+      logger.info('Mock WhatsApp send failing', { status: failure });
+      sendJson(res, failure, graphError(failure), failure === 429 ? { 'Retry-After': '1' } : {});
+      return;
+    }
+
+    const message: MockSentMessage = {
+      id: nextId('wamid'),
+      phoneNumberId: targetPhoneNumberId,
+      to,
+      type,
+      payload,
+      sentAt: new Date(),
+    };
+    sent.push(message);
+    scheduleStatusCallbacks(message);
+
+    sendJson(res, 200, {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: String(payload.to), wa_id: to }],
+      messages: [{ id: message.id }],
+    });
+  };
+
+  const handleControl = async (req: IncomingMessage, res: ServerResponse, route: string, rawBody: string) => {
+    if (route === 'messages' && req.method === 'GET') {
+      sendJson(res, 200, { messages: sent });
+      return;
+    }
+
+    if (route === 'messages' && req.method === 'DELETE') {
+      sent.length = 0;
+      sendJson(res, 200, { success: true });
+      return;
+    }
+
+    const body = rawBody ? JSON.parse(rawBody) : {};
+
+    if (route === 'failures' && req.method === 'POST') {
+      server.injectFailures(body.statuses || []);
+      sendJson(res, 200, { pending: failures });
+      return;
+    }
+
+    if (route === 'inbound' && req.method === 'POST') {
+      const messageId = await server.sendInbound({
+        from: body.from,
+        name: body.name,
+        text: body.text,
+        ...(body.image && {
+          image: {
+            data: Buffer.from(body.image.base64, 'base64'),
+            mimeType: body.image.mimeType,
+            caption: body.image.caption,
+          },
+        }),
+      });
+      sendJson(res, 200, { id: messageId });
+      return;
+    }
+
+    sendJson(res, 404, graphError(404));
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // The API version prefix is optional so any configured version works
+    const segments = url.pathname.split('/').filter(Boolean);
+    const path = /^v\d+\.\d+$/.test(segments[0] || '') ? segments.slice(1) : segments;
+    const rawBody = await readBody(req);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    if (options.latencyMs) {
+      await sleep(options.latencyMs);
+    }
+
+    if (path[0] === '__mock') {
+      await handleControl(req, res, path[1], rawBody);
+      return;
+    }
+
+    // Media files are fetched from the URL the metadata returned, with the same token
+    const authorization = req.headers.authorization || '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+
+    if (!token || (options.accessToken && token !== options.accessToken)) {
+      sendJson(res, 401, graphError(401));
+      return;
+    }
+
+    if (req.method === 'POST' && path.length === 2 && path[1] === 'messages') {
+      handleSend(res, path[0], rawBody);
+      return;
+    }
+
+    if (req.method === 'GET' && path[0] === '__media' && media.has(path[1])) {
+      const file = media.get(path[1])!;
+      res.writeHead(200, { 'Content-Type': file.mimeType, 'Content-Length': file.data.length, ...CORS_HEADERS });
+      res.end(file.data);
+      return;
+    }
+
+    if (req.method === 'GET' && path.length === 1 && media.has(path[0])) {
+      const file = media.get(path[0])!;
+      sendJson(res, 200, {
+        messaging_product: 'whatsapp',
+        id: path[0],
+        url: `${baseUrl}/__media/${path[0]}`,
+        mime_type: file.mimeType,
+        file_size: file.data.length,
+      });
+      return;
+    }
+
+    sendJson(res, 404, graphError(404));
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error('Mock WhatsApp request failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      sendJson(res, 500, graphError(500));
+    });
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(options.port ?? DEFAULT_PORT, resolve));
+  baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}/${MOCK_API_VERSION}`;
+
+  const server: MockWhatsAppServer = {
+    baseUrl,
+    sent,
+
+    injectFailures(statuses: number[]) {
+      failures.push(...statuses);
+    },
+
+    async sendInbound(message: MockInboundMessage) {
+      const id = nextId('wamid.inbound');
+      const inbound: WhatsAppInboundMessage = {
+        from: message.from.replace(/\D/g, ''),
+        id,
+        timestamp: String(Math.floor(Date.now() / 1000)),
+        type: message.image ? 'image' : 'text',
+      };
+
+      if (message.image) {
+        const mediaId = nextId('media');
+        media.set(mediaId, { data: message.image.data, mimeType: message.image.mimeType });
+        inbound.image = { id: mediaId, mime_type: message.image.mimeType, caption: message.image.caption };
+      } else {
+        inbound.text = { body: message.text || '' };
+      }
+
+      await postToWebhook({
+        contacts: [{ profile: { name: message.name }, wa_id: inbound.from }],
+        messages: [inbound],
+      });
+
+      return id;
+    },
+
+    async close() {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      const closed = new Promise<void>((resolve, reject) => httpServer.close(error => (error ? reject(error) : resolve())));
+      // Keep-alive connections from fetch would otherwise hold the server open
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+
+  return server;
+};
+
+// `npm run mock:whatsapp` runs the mock with settings from the environment until stopped
+if (require.main === module) {
+  startMockWhatsAppServer(mockWhatsAppOptionsFromEnv()).then((server) => {
+    logger.info('Mock WhatsApp Cloud API listening', { baseUrl: server.baseUrl });
+
+    process.on('SIGINT', () => {
+      server.close().finally(() => process.exit(0));
+    });
+  });
+}
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  canTransition,
+  isFinalStatus,
+  nextForwardStatus,
+  ORDER_STATUSES,
+  ORDER_REPLY_CANCEL_REASON,
+  orderStatusForReply,
+  orderStockEffect,
+  orderStatusMessage,
+  validateTransition,
+} from './orderLifecycle';
+
+test('canTransition follows the forward path and its branches', () => {
+  assert.equal(canTransition('new', 'confirmed'), true);
+  assert.equal(canTransition('packed', 'shipped'), true);
+  assert.equal(canTransition('new', 'rejected'), true);
+  assert.equal(canTransition('shipped', 'returned'), true);
+  assert.equal(canTransition('new', 'shipped'), false);
+  assert.equal(canTransition('confirmed', 'rejected'), false);
+  assert.equal(canTransition('shipped', 'cancelled'), false);
+});
+
+test('cancelled, rejected and returned orders are final', () => {
+  const final = ORDER_STATUSES.filter(isFinalStatus);
+  assert.deepEqual(final, ['cancelled', 'rejected', 'returned']);
+});
+
+test('nextForwardStatus skips the branches that need a reason', () => {
+  assert.equal(nextForwardStatus('new'), 'confirmed');
+  assert.equal(nextForwardStatus('shipped'), 'delivered');
+  assert.equal(nextForwardStatus('delivered'), null);
+  assert.equal(nextForwardStatus('rejected'), null);
+});
+
+test('validateTransition explains disallowed transitions', () => {
+  assert.equal(validateTransition('new', 'confirmed'), null);
+  assert.match(validateTransition('new', 'new') ?? '', /already new/);
+  assert.match(validateTransition('delivered', 'packed') ?? '', /can't be marked packed/);
+});
+
+test('validateTransition requires a reason to reject, cancel or return', () => {
+  assert.match(validateTransition('new', 'rejected') ?? '', /reason/);
+  assert.match(validateTransition('packed', 'cancelled', '   ') ?? '', /reason/);
+  assert.equal(validateTransition('new', 'rejected', 'Out of stock'), null);
+  assert.match(validateTransition('new', 'rejected', 'x'.repeat(501)) ?? '', /at most 500/);
+});
+
+test('orderStatusForReply maps reply buttons to the transitions the order still allows', () => {
+  assert.equal(orderStatusForReply('confirm', 'new'), 'confirmed');
+  assert.equal(orderStatusForReply('cancel', 'new'), 'cancelled');
+  assert.equal(orderStatusForReply('cancel', 'packed'), 'cancelled');
+  assert.equal(orderStatusForReply('change', 'new'), null);
+  assert.equal(orderStatusForReply('confirm', 'confirmed'), null);
+  assert.equal(orderStatusForReply('cancel', 'shipped'), null);
+  assert.equal(validateTransition('new', 'cancelled', ORDER_REPLY_CANCEL_REASON), null);
+});
+
+test('orderStatusMessage names the order and keeps reasons out', () => {
+  const order = { number: 1001, customer: { name: 'Ava' } };
+
+  assert.equal(
+    orderStatusMessage(order, 'shipped'),
+    'Hi Ava, your order #1001 has shipped.'
+  );
+  assert.match(orderStatusMessage({ ...order, customer: {} }, 'confirmed') ?? '', /^Hi, your order #1001/);
+  assert.equal(orderStatusMessage(order, 'new'), null);
+});
+
+test('orderStockEffect reserves on confirm and releases only what was reserved', () => {
+  assert.equal(orderStockEffect('new', 'confirmed'), 'reserve');
+  assert.equal(orderStockEffect('packed', 'shipped'), 'ship');
+  assert.equal(orderStockEffect('confirmed', 'cancelled'), 'release');
+  assert.equal(orderStockEffect('new', 'rejected'), null);
+  assert.equal(orderStockEffect('delivered', 'returned'), 'restock');
+  assert.equal(orderStockEffect('confirmed', 'packed'), null);
+});
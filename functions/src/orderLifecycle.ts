@@ -0,0 +1,180 @@
+/**
+ * Order status state machine shared by the functions and the dashboard
+ * (src/lib/orderLifecycle.ts re-exports it). Kept free of imports so both
+ * builds can compile it.
+ *
+ * Orders move forward new → confirmed → packed → shipped → delivered. They
+ * can be rejected while new, cancelled until they ship, and returned once
+ * shipped. Cancelled, rejected and returned orders are final.
+ */
+
+export const ORDER_STATUSES = [
+  'new',
+  'confirmed',
+  'packed',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'rejected',
+  'returned',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  new: ['confirmed', 'rejected', 'cancelled'],
+  confirmed: ['packed', 'cancelled'],
+  packed: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned'],
+  cancelled: [],
+  rejected: [],
+  returned: [],
+};
+
+// Statuses an operator has to explain, for the order's history and the customer
+export const REASON_REQUIRED_STATUSES: readonly OrderStatus[] = ['cancelled', 'rejected', 'returned'];
+
+export const MAX_TRANSITION_REASON_LENGTH = 500;
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'New',
+  confirmed: 'Confirmed',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected',
+  returned: 'Returned',
+};
+
+// Why a customer notification requested with a transition was not queued
+export type OrderNotificationSkipReason = 'no_conversation' | 'opted_out' | 'window_closed';
+
+// One entry of an order's `history`; `at` is a Timestamp in Firestore and a Date on the client
+export interface OrderTransitionRecord<TTime = Date> {
+  from: OrderStatus;
+  to: OrderStatus;
+  by: string;
+  at: TTime;
+  reason?: string;
+  // Chat message ID of the WhatsApp notification, when one was queued
+  notificationMessageId?: string;
+  notificationSkipped?: OrderNotificationSkipReason;
+  // A business owner confirmed the order without enough stock to reserve
+  stockOverride?: boolean;
+}
+
+/**
+ * What a transition does to stock: confirming reserves the line items,
+ * shipping takes the reserved stock off the shelf, cancelling or rejecting
+ * a confirmed order releases it, and a return puts shipped stock back.
+ */
+export type OrderStockEffect = 'reserve' | 'ship' | 'release' | 'restock';
+
+export const orderStockEffect = (from: OrderStatus, to: OrderStatus): OrderStockEffect | null => {
+  switch (to) {
+    case 'confirmed':
+      return 'reserve';
+    case 'shipped':
+      return 'ship';
+    case 'returned':
+      return 'restock';
+    case 'cancelled':
+    case 'rejected':
+      return from === 'new' ? null : 'release';
+    default:
+      return null;
+  }
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_TRANSITIONS[from].includes(to);
+};
+
+export const isFinalStatus = (status: OrderStatus): boolean => {
+  return ORDER_TRANSITIONS[status].length === 0;
+};
+
+export const requiresReason = (status: OrderStatus): boolean => {
+  return REASON_REQUIRED_STATUSES.includes(status);
+};
+
+// The status the main "process" action moves an order to, or null when it can only end
+export const nextForwardStatus = (status: OrderStatus): OrderStatus | null => {
+  return ORDER_TRANSITIONS[status].find(to => !REASON_REQUIRED_STATUSES.includes(to)) ?? null;
+};
+
+// Recorded as the reason when an operator applies a customer's "Cancel" reply
+export const ORDER_REPLY_CANCEL_REASON = 'Customer cancelled by replying to the order confirmation';
+
+/**
+ * The status a customer's reply to the order confirmation buttons moves the
+ * order to (see getOrderReplyAction in interactive.ts), or null when the
+ * order can't make that move any more. A change request has no transition:
+ * the operator edits the order first.
+ */
+export const orderStatusForReply = (action: 'confirm' | 'change' | 'cancel', status: OrderStatus): OrderStatus | null => {
+  const to: OrderStatus | null = action === 'confirm' ? 'confirmed' : action === 'cancel' ? 'cancelled' : null;
+  return to && canTransition(status, to) ? to : null;
+};
+
+/**
+ * Check a requested transition, returning why it is not allowed or null
+ * when it is. The functions turn the message into `failed-precondition`;
+ * the dashboard shows it before calling them.
+ */
+export const validateTransition = (from: OrderStatus, to: OrderStatus, reason?: string): string | null => {
+  if (from === to) {
+    return `Order is already ${ORDER_STATUS_LABELS[to].toLowerCase()}`;
+  }
+
+  if (!canTransition(from, to)) {
+    return `A ${ORDER_STATUS_LABELS[from].toLowerCase()} order can't be marked ${ORDER_STATUS_LABELS[to].toLowerCase()}`;
+  }
+
+  if (requiresReason(to) && !reason?.trim()) {
+    return `Give a reason for marking the order ${ORDER_STATUS_LABELS[to].toLowerCase()}`;
+  }
+
+  if (reason && reason.length > MAX_TRANSITION_REASON_LENGTH) {
+    return `Reason must be at most ${MAX_TRANSITION_REASON_LENGTH} characters`;
+  }
+
+  return null;
+};
+
+/**
+ * WhatsApp text telling the customer their order moved to `status`, or null
+ * for statuses they aren't told about. Reasons stay internal.
+ */
+export const orderStatusMessage = (
+  order: { number: number; customer: { name?: string } },
+  status: OrderStatus
+): string | null => {
+  const greeting = order.customer.name ? `Hi ${order.customer.name}, ` : 'Hi, ';
+  const number = `#${order.number}`;
+
+  switch (status) {
+    case 'confirmed':
+      return `${greeting}your order ${number} is confirmed. We'll let you know when it ships.`;
+    case 'packed':
+      return `${greeting}your order ${number} is packed and will be on its way soon.`;
+    case 'shipped':
+      return `${greeting}your order ${number} has shipped.`;
+    case 'delivered':
+      return `${greeting}your order ${number} has been delivered. Thank you for shopping with us!`;
+    case 'cancelled':
+      return `${greeting}your order ${number} has been cancelled. Reply here if you have any questions.`;
+    case 'rejected':
+      return `${greeting}we're sorry, we couldn't accept your order ${number}. Reply here if you have any questions.`;
+    case 'returned':
+      return `${greeting}we've received the return of your order ${number}.`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,197 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { asFirestore, createFakeFirestore } from './fakeFirestore';
+import { OrderStatus } from './orderLifecycle';
+import { applyOrderTransition, ORDERS_COLLECTION, TransitionOrderRequest } from './orders';
+import { INVENTORY_COLLECTION, STOCK_MOVEMENTS_COLLECTION } from './stock';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+const HOODIE_M = 'hoodie__m__any';
+const HOODIE_ALLOCATION = { itemId: HOODIE_M, productId: 'hoodie', size: 'M', name: 'Comfort Hoodie', quantity: 2 };
+
+const setup = async (status: OrderStatus, order: Record<string, unknown> = {}) => {
+  const db = createFakeFirestore();
+  await db.collection(ORDERS_COLLECTION).doc('order-1').set({
+    number: 1001,
+    status,
+    customer: { id: '15551234567', name: 'Ava', phone: '+15551234567' },
+    items: [{ productId: 'hoodie', size: 'M', name: 'Comfort Hoodie', quantity: 2, unitPrice: 4500 }],
+    history: [],
+    ...order,
+  });
+
+  const transition = (to: OrderStatus, request: Partial<TransitionOrderRequest> = {}) => {
+    return applyOrderTransition('owner-1', { orderId: 'order-1', to, ...request }, NOW, asFirestore(db));
+  };
+
+  return { db, transition };
+};
+
+const stockOf = (db: ReturnType<typeof createFakeFirestore>, itemId = HOODIE_M) => {
+  const data = db.data(`${INVENTORY_COLLECTION}/${itemId}`);
+  return data && { onHand: data.onHand, reserved: data.reserved };
+};
+
+const rejectsWith = (reason: string) => (error: unknown) => {
+  assert.ok(error instanceof HttpsError);
+  assert.equal(error.code, 'failed-precondition');
+  assert.equal((error.details as { reason?: string } | undefined)?.reason, reason);
+  return true;
+};
+
+test('confirming reserves the line items and records the transition', async () => {
+  const { db, transition } = await setup('new');
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 5, reserved: 1 });
+
+  const result = await transition('confirmed');
+
+  assert.deepEqual(result, { from: 'new', to: 'confirmed' });
+  assert.deepEqual(stockOf(db), { onHand: 5, reserved: 3 });
+
+  const order = db.data(`${ORDERS_COLLECTION}/order-1`);
+  assert.equal(order?.status, 'confirmed');
+  assert.deepEqual(order?.stockReserved, [HOODIE_ALLOCATION]);
+  assert.deepEqual((order?.history as Record<string, unknown>[]).map(({ from, to, by }) => ({ from, to, by })), [
+    { from: 'new', to: 'confirmed', by: 'owner-1' },
+  ]);
+});
+
+test('confirming fails without enough stock unless overridden', async () => {
+  const { db, transition } = await setup('new');
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 2, reserved: 1 });
+
+  await assert.rejects(transition('confirmed'), rejectsWith('insufficient-stock'));
+  assert.deepEqual(stockOf(db), { onHand: 2, reserved: 1 });
+  assert.equal(db.data(`${ORDERS_COLLECTION}/order-1`)?.status, 'new');
+
+  const result = await transition('confirmed', { overrideStock: true });
+
+  assert.equal(result.stockOverride, true);
+  assert.deepEqual(stockOf(db), { onHand: 2, reserved: 3 });
+});
+
+test('an overridden confirmation creates the inventory item for an unstocked variant', async () => {
+  const { db, transition } = await setup('new');
+
+  await transition('confirmed', { overrideStock: true });
+
+  assert.deepEqual(db.data(`${INVENTORY_COLLECTION}/${HOODIE_M}`), {
+    productId: 'hoodie',
+    productName: 'Comfort Hoodie',
+    size: 'M',
+    onHand: 0,
+    reserved: 2,
+    updatedAt: db.data(`${INVENTORY_COLLECTION}/${HOODIE_M}`)?.updatedAt,
+    updatedBy: 'owner-1',
+  });
+});
+
+test('two confirmations competing for the last units reserve them once', async () => {
+  const { db, transition } = await setup('new');
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 3, reserved: 0 });
+  await db.collection(ORDERS_COLLECTION).doc('order-2').set({
+    ...db.data(`${ORDERS_COLLECTION}/order-1`),
+    number: 1002,
+  });
+
+  const results = await Promise.allSettled([
+    transition('confirmed'),
+    applyOrderTransition('owner-1', { orderId: 'order-2', to: 'confirmed' }, NOW, asFirestore(db)),
+  ]);
+
+  assert.deepEqual(results.map(({ status }) => status).sort(), ['fulfilled', 'rejected']);
+  assert.deepEqual(stockOf(db), { onHand: 3, reserved: 2 });
+});
+
+test('shipping takes the reserved stock off the shelf as a sale', async () => {
+  const { db, transition } = await setup('packed', { stockReserved: [HOODIE_ALLOCATION] });
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 5, reserved: 2 });
+
+  await transition('shipped');
+
+  assert.deepEqual(stockOf(db), { onHand: 3, reserved: 0 });
+
+  const order = db.data(`${ORDERS_COLLECTION}/order-1`);
+  assert.equal(order?.stockReserved, undefined);
+  assert.deepEqual(order?.stockShipped, [HOODIE_ALLOCATION]);
+
+  const movements = db.documentsIn(STOCK_MOVEMENTS_COLLECTION).map(([, data]) => data);
+  assert.equal(movements.length, 1);
+  assert.deepEqual(
+    { ...movements[0], at: undefined },
+    {
+      itemId: HOODIE_M,
+      productId: 'hoodie',
+      type: 'sale',
+      quantity: -2,
+      onHandAfter: 3,
+      reason: 'Order #1001',
+      orderId: 'order-1',
+      by: 'owner-1',
+      at: undefined,
+    }
+  );
+});
+
+test('shipping fails when reserved stock is not on the shelf, even for an owner', async () => {
+  const { db, transition } = await setup('packed', { stockReserved: [HOODIE_ALLOCATION] });
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 1, reserved: 2 });
+
+  await assert.rejects(transition('shipped', { overrideStock: true }), rejectsWith('insufficient-stock'));
+  assert.deepEqual(stockOf(db), { onHand: 1, reserved: 2 });
+  assert.equal(db.documentsIn(STOCK_MOVEMENTS_COLLECTION).length, 0);
+});
+
+test('cancelling a confirmed order releases its reservation', async () => {
+  const { db, transition } = await setup('confirmed', { stockReserved: [HOODIE_ALLOCATION] });
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 5, reserved: 3 });
+
+  await transition('cancelled', { reason: 'Customer changed their mind' });
+
+  assert.deepEqual(stockOf(db), { onHand: 5, reserved: 1 });
+  assert.equal(db.data(`${ORDERS_COLLECTION}/order-1`)?.stockReserved, undefined);
+});
+
+test('a return puts the shipped stock back', async () => {
+  const { db, transition } = await setup('delivered', { stockShipped: [HOODIE_ALLOCATION] });
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 3, reserved: 0 });
+
+  await transition('returned', { reason: 'Wrong size' });
+
+  assert.deepEqual(stockOf(db), { onHand: 5, reserved: 0 });
+  assert.equal(db.data(`${ORDERS_COLLECTION}/order-1`)?.stockShipped, undefined);
+  assert.deepEqual(db.documentsIn(STOCK_MOVEMENTS_COLLECTION).map(([, data]) => [data.type, data.quantity]), [['return', 2]]);
+});
+
+test('orders confirmed before reservations existed leave stock alone', async () => {
+  const { db, transition } = await setup('packed');
+  await db.collection(INVENTORY_COLLECTION).doc(HOODIE_M).set({ onHand: 5, reserved: 0 });
+
+  await transition('shipped');
+
+  assert.deepEqual(stockOf(db), { onHand: 5, reserved: 0 });
+  assert.equal(db.documentsIn(STOCK_MOVEMENTS_COLLECTION).length, 0);
+});
+
+test('invalid transitions change nothing', async () => {
+  const { db, transition } = await setup('new');
+
+  await assert.rejects(transition('shipped'), (error: unknown) => {
+    assert.ok(error instanceof HttpsError);
+    assert.equal(error.code, 'failed-precondition');
+    return true;
+  });
+  assert.equal(db.data(`${ORDERS_COLLECTION}/order-1`)?.status, 'new');
+});
+
+test('a notification for an order without a phone number is skipped, not an error', async () => {
+  const { db, transition } = await setup('new', { customer: { id: '15551234567', name: 'Ava' }, conversationId: '15551234567' });
+  await db.collection('conversations').doc('15551234567').set({ customerPhone: '+15551234567' });
+
+  const result = await transition('rejected', { reason: 'Out of season', notifyCustomer: true });
+
+  assert.deepEqual(result, { from: 'new', to: 'rejected', notificationSkipped: 'no_conversation' });
+  assert.equal((db.data(`${ORDERS_COLLECTION}/order-1`)?.history as Record<string, unknown>[])[0].notificationSkipped, 'no_conversation');
+  assert.equal(db.documentsIn('message_outbox').length, 0);
+});
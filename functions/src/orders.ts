@@ -0,0 +1,271 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { DocumentData, FieldValue, Firestore, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { consentRef } from './consent';
+import {
+  isOrderStatus,
+  OrderNotificationSkipReason,
+  OrderStatus,
+  OrderStockEffect,
+  orderStockEffect,
+  OrderTransitionRecord,
+  orderStatusMessage,
+  validateTransition,
+} from './orderLifecycle';
+import { queueOutboundMessage } from './outbox';
+import { isWindowClosedAt } from './scheduledMessages';
+import {
+  describeShortages,
+  findShortages,
+  INVENTORY_COLLECTION,
+  STOCK_MOVEMENTS_COLLECTION,
+  StockAllocation,
+  stockAllocations,
+  stockDelta,
+  StockLevel,
+  StockShortage,
+} from './stock';
+
+export const ORDERS_COLLECTION = 'orders';
+const CONVERSATIONS_COLLECTION = 'conversations';
+
+export interface TransitionOrderRequest {
+  orderId: string;
+  to: OrderStatus;
+  reason?: string;
+  // Queue a WhatsApp message telling the customer about the new status
+  notifyCustomer?: boolean;
+  // Confirm even when stock can't cover the order; business owners only
+  overrideStock?: boolean;
+}
+
+export interface TransitionOrderResult {
+  from: OrderStatus;
+  to: OrderStatus;
+  notificationMessageId?: string;
+  notificationSkipped?: OrderNotificationSkipReason;
+  stockOverride?: boolean;
+}
+
+export const parseTransitionRequest = (data: unknown): TransitionOrderRequest => {
+  const { orderId, to, reason, notifyCustomer, overrideStock } = (data ?? {}) as Record<string, unknown>;
+
+  if (typeof orderId !== 'string' || !orderId) {
+    throw new HttpsError('invalid-argument', 'orderId is required.');
+  }
+  if (!isOrderStatus(to)) {
+    throw new HttpsError('invalid-argument', 'to must be an order status.');
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    throw new HttpsError('invalid-argument', 'reason must be a string.');
+  }
+
+  return {
+    orderId,
+    to,
+    ...(typeof reason === 'string' && reason.trim() && { reason: reason.trim() }),
+    notifyCustomer: notifyCustomer === true,
+    overrideStock: overrideStock === true,
+  };
+};
+
+const NO_STOCK: StockLevel = { onHand: 0, reserved: 0 };
+
+// A variant's stock after an order's transition moves `quantity` of it
+const applyStockEffect = (effect: OrderStockEffect, { onHand, reserved }: StockLevel, quantity: number): StockLevel => {
+  switch (effect) {
+    case 'reserve':
+      return { onHand, reserved: reserved + quantity };
+    case 'release':
+      return { onHand, reserved: Math.max(reserved - quantity, 0) };
+    case 'ship':
+      return { onHand: onHand - quantity, reserved: Math.max(reserved - quantity, 0) };
+    case 'restock':
+      return { onHand: onHand + quantity, reserved };
+  }
+};
+
+// The variants an effect moves: the line items when reserving, afterwards whatever was reserved or shipped
+const orderAllocations = (effect: OrderStockEffect, order: DocumentData): StockAllocation[] => {
+  switch (effect) {
+    case 'reserve':
+      return stockAllocations(order.items ?? []);
+    case 'ship':
+    case 'release':
+      return order.stockReserved ?? [];
+    case 'restock':
+      return order.stockShipped ?? [];
+  }
+};
+
+// The ledger entry for an effect that changes on-hand stock
+const MOVEMENT_TYPES = { ship: 'sale', restock: 'return' } as const;
+
+/**
+ * Move an order to a new status and append the change to its `history`.
+ * The caller's role must already be checked. With `notifyCustomer`, the
+ * status message is queued in the same transaction when the order's
+ * conversation is open for free-form messages and the customer hasn't opted
+ * out; otherwise the history entry records why it was skipped.
+ *
+ * Stock moves in the same transaction (see orderStockEffect). Confirming
+ * reserves the line items' variants and fails with `insufficient-stock`
+ * unless available stock covers them or `overrideStock` is set; the
+ * allocations are kept on the order as `stockReserved`. Shipping takes
+ * exactly those off the shelf as `sale` movements and keeps them as
+ * `stockShipped`, which a return puts back. Orders confirmed before
+ * reservations existed have none, so their stock is left alone.
+ */
+export const applyOrderTransition = async (
+  uid: string,
+  request: TransitionOrderRequest,
+  now: Date = new Date(),
+  db: Firestore = getFirestore()
+): Promise<TransitionOrderResult> => {
+  const orderRef = db.collection(ORDERS_COLLECTION).doc(request.orderId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const order = (await transaction.get(orderRef)).data();
+
+    if (!order) {
+      throw new HttpsError('not-found', 'Order not found.');
+    }
+
+    const from = order.status as OrderStatus;
+    const rejection = validateTransition(from, request.to, request.reason);
+
+    if (rejection) {
+      throw new HttpsError('failed-precondition', rejection, { from, to: request.to });
+    }
+
+    const effect = orderStockEffect(from, request.to);
+    const allocations = effect ? orderAllocations(effect, order) : [];
+    const itemRefs = allocations.map(({ itemId }) => db.collection(INVENTORY_COLLECTION).doc(itemId));
+    const itemSnapshots = await Promise.all(itemRefs.map(ref => transaction.get(ref)));
+    const levels: Record<string, StockLevel | undefined> = {};
+
+    itemSnapshots.forEach((snapshot, index) => {
+      const data = snapshot.data();
+      if (data) levels[allocations[index].itemId] = { onHand: data.onHand ?? 0, reserved: data.reserved ?? 0 };
+    });
+
+    // Reserved stock may have been oversold by an owner, but it can't ship until it's on the shelf
+    const shortages: StockShortage[] = effect === 'reserve'
+      ? findShortages(allocations, levels)
+      : effect === 'ship'
+        ? allocations.flatMap((allocation) => {
+          const onHand = levels[allocation.itemId]?.onHand ?? 0;
+          return onHand < allocation.quantity ? [{ ...allocation, available: Math.max(onHand, 0) }] : [];
+        })
+        : [];
+
+    if (shortages.length && (effect === 'ship' || !request.overrideStock)) {
+      throw new HttpsError('failed-precondition', describeShortages(shortages), {
+        reason: 'insufficient-stock',
+        shortages,
+      });
+    }
+
+    const entry: OrderTransitionRecord<Timestamp> = {
+      from,
+      to: request.to,
+      by: uid,
+      at: Timestamp.fromDate(now),
+      ...(request.reason && { reason: request.reason }),
+      ...(shortages.length && { stockOverride: true }),
+    };
+
+    const content = request.notifyCustomer
+      ? orderStatusMessage({ number: order.number, customer: order.customer ?? {} }, request.to)
+      : null;
+
+    if (content) {
+      const conversationId: string | undefined = order.conversationId || order.customer?.id;
+      // Orders entered without a phone number have no one to message
+      const phone: string | undefined = order.customer?.phone || undefined;
+      const conversation = conversationId && phone
+        ? (await transaction.get(db.collection(CONVERSATIONS_COLLECTION).doc(conversationId))).data()
+        : undefined;
+      const consent = phone ? (await transaction.get(consentRef(phone, db))).data() : undefined;
+      const expiresAt: Timestamp | undefined = conversation?.serviceWindowExpiresAt;
+
+      if (!conversationId || !conversation || !phone) {
+        entry.notificationSkipped = 'no_conversation';
+      } else if (consent?.status === 'opted_out' && !consent.override) {
+        entry.notificationSkipped = 'opted_out';
+      } else if (isWindowClosedAt(expiresAt?.toDate(), now)) {
+        entry.notificationSkipped = 'window_closed';
+      } else {
+        entry.notificationMessageId = queueOutboundMessage(transaction, {
+          conversationId,
+          requestedBy: uid,
+          to: phone,
+          content,
+        });
+      }
+    }
+
+    if (effect) {
+      allocations.forEach((allocation, index) => {
+        const level = levels[allocation.itemId];
+        const next = applyStockEffect(effect, level ?? NO_STOCK, allocation.quantity);
+
+        transaction.set(itemRefs[index], {
+          // An owner can reserve a variant that has never been stocked
+          ...(!level && {
+            productId: allocation.productId,
+            productName: allocation.name,
+            ...(allocation.size && { size: allocation.size }),
+            ...(allocation.color && { color: allocation.color }),
+          }),
+          ...next,
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: uid,
+        }, { merge: true });
+
+        if (effect === 'ship' || effect === 'restock') {
+          const type = MOVEMENT_TYPES[effect];
+          transaction.set(db.collection(STOCK_MOVEMENTS_COLLECTION).doc(), {
+            itemId: allocation.itemId,
+            productId: allocation.productId,
+            type,
+            quantity: stockDelta(type, allocation.quantity),
+            onHandAfter: next.onHand,
+            reason: `Order #${order.number}`,
+            orderId: request.orderId,
+            by: uid,
+            at: FieldValue.serverTimestamp(),
+          });
+        }
+      });
+    }
+
+    transaction.update(orderRef, {
+      status: request.to,
+      history: FieldValue.arrayUnion(entry),
+      ...(effect === 'reserve' && allocations.length && { stockReserved: allocations }),
+      ...((effect === 'ship' || effect === 'release') && { stockReserved: FieldValue.delete() }),
+      ...(effect === 'ship' && allocations.length && { stockShipped: allocations }),
+      ...(effect === 'restock' && { stockShipped: FieldValue.delete() }),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return entry;
+  });
+
+  logger.info('Order status changed', {
+    orderId: request.orderId,
+    from: result.from,
+    to: result.to,
+    notificationSkipped: result.notificationSkipped,
+    stockOverride: result.stockOverride,
+  });
+
+  return {
+    from: result.from,
+    to: result.to,
+    ...(result.notificationMessageId && { notificationMessageId: result.notificationMessageId }),
+    ...(result.notificationSkipped && { notificationSkipped: result.notificationSkipped }),
+    ...(result.stockOverride && { stockOverride: true }),
+  };
+};
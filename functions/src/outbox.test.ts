@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { asFirestore, createFakeFirestore } from './fakeFirestore';
+import { FakeWhatsAppService } from './fakeWhatsAppService';
+import { backoffDelay, claimOutboxEntry, OUTBOX_COLLECTION, sendWithRetry, sweepMessageOutbox } from './outbox';
+import { WhatsAppApiError, WhatsAppResponse } from './whatsappService';
+
+// Records the delays instead of waiting them out
+const recordingSleep = () => {
+  const delays: number[] = [];
+  return { delays, sleep: async (ms: number) => { delays.push(ms); } };
+};
+
+const failingWith = (...errors: Error[]) => {
+  const fake = new FakeWhatsAppService();
+  return () => {
+    const error = errors.shift();
+    return error ? Promise.reject(error) : fake.sendMessage('6591234567', 'Hi');
+  };
+};
+
+test('backoffDelay doubles from the base delay up to the cap', () => {
+  assert.deepEqual([1, 2, 3, 4].map(attempt => backoffDelay(attempt)), [1000, 2000, 4000, 8000]);
+  assert.equal(backoffDelay(10), 30000);
+  assert.equal(backoffDelay(2, 500), 1000);
+});
+
+test('sendWithRetry retries 429 and 5xx failures with backoff', async () => {
+  const fake = new FakeWhatsAppService([429, 500, 503]);
+  const { delays, sleep } = recordingSleep();
+
+  const result = await sendWithRetry(() => fake.sendMessage('6591234567', 'Hi'), { sleep });
+
+  assert.equal(result.ok, true);
+  assert.equal(result.attempts, 4);
+  assert.deepEqual(delays, [1000, 2000, 4000]);
+  assert.equal(fake.sent.length, 1);
+});
+
+test('sendWithRetry does not retry other 4xx failures', async () => {
+  const fake = new FakeWhatsAppService([400]);
+  const { delays, sleep } = recordingSleep();
+
+  const result = await sendWithRetry(() => fake.sendMessage('6591234567', 'Hi'), { sleep });
+
+  assert.deepEqual(result, { ok: false, error: 'WhatsApp API Error: 400 - Injected failure', attempts: 1 });
+  assert.deepEqual(delays, []);
+  assert.equal(fake.sent.length, 0);
+});
+
+test('sendWithRetry gives up after maxAttempts', async () => {
+  const fake = new FakeWhatsAppService([500, 500, 500]);
+  const { delays, sleep } = recordingSleep();
+
+  const result = await sendWithRetry(() => fake.sendMessage('6591234567', 'Hi'), { sleep, maxAttempts: 3 });
+
+  assert.equal(result.ok, false);
+  assert.equal(result.attempts, 3);
+  assert.equal(!result.ok && result.retryAfterMs, undefined);
+  assert.deepEqual(delays, [1000, 2000]);
+});
+
+test('sendWithRetry honors a short Retry-After and defers a long one', async () => {
+  const short = recordingSleep();
+  const shortResult = await sendWithRetry(
+    failingWith(new WhatsAppApiError(429, 'Slow down', undefined, 5000)),
+    { sleep: short.sleep }
+  );
+
+  assert.equal(shortResult.ok, true);
+  assert.deepEqual(short.delays, [5000]);
+
+  const long = recordingSleep();
+  const longResult = await sendWithRetry(
+    failingWith(new WhatsAppApiError(429, 'Slow down', undefined, 10 * 60 * 1000)),
+    { sleep: long.sleep }
+  );
+
+  assert.equal(longResult.ok, false);
+  assert.equal(!longResult.ok && longResult.retryAfterMs, 10 * 60 * 1000);
+  assert.equal(longResult.attempts, 1);
+  assert.deepEqual(long.delays, []);
+});
+
+test('sendWithRetry defers once waiting inline would run too long', async () => {
+  const fake = new FakeWhatsAppService([500, 500, 500, 500]);
+  const { delays, sleep } = recordingSleep();
+
+  const result = await sendWithRetry(
+    (): Promise<WhatsAppResponse> => fake.sendMessage('6591234567', 'Hi'),
+    { sleep, baseDelayMs: 20000 }
+  );
+
+  // 20s waited; another 30s would pass the 45-second budget
+  assert.deepEqual(delays, [20000]);
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.retryAfterMs, 30000);
+});
+
+test('sendWithRetry only waits what is left of a shared budget', async () => {
+  const fake = new FakeWhatsAppService([500, 500, 500]);
+  const { delays, sleep } = recordingSleep();
+  // As if a rate-limit wait already used most of it
+  const waitBudget = { remainingMs: 2500 };
+
+  const result = await sendWithRetry(() => fake.sendMessage('6591234567', 'Hi'), { sleep, waitBudget });
+
+  assert.deepEqual(delays, [1000]);
+  assert.equal(!result.ok && result.retryAfterMs, 2000);
+  assert.equal(waitBudget.remainingMs, 1500);
+});
+
+test('claimOutboxEntry lets only one of two concurrent claims through', async () => {
+  const db = createFakeFirestore();
+  const entryRef = asFirestore(db).collection(OUTBOX_COLLECTION).doc('message-1');
+  await entryRef.set({ messageId: 'message-1', to: '+6591234567', state: 'pending', attempts: 0 });
+
+  const claims = await Promise.all([claimOutboxEntry(entryRef), claimOutboxEntry(entryRef)]);
+
+  assert.equal(claims.filter(Boolean).length, 1);
+  assert.equal(db.data(entryRef.path)?.state, 'sending');
+});
+
+test('claimOutboxEntry skips entries whose deferred retry is not due', async () => {
+  const db = createFakeFirestore();
+  const now = new Date('2026-10-19T10:00:00Z');
+  const entryRef = asFirestore(db).collection(OUTBOX_COLLECTION).doc('message-1');
+  await entryRef.set({
+    state: 'pending',
+    attempts: 1,
+    nextAttemptAt: Timestamp.fromMillis(now.getTime() + 60000),
+  });
+
+  assert.equal(await claimOutboxEntry(entryRef, now), null);
+  assert.ok(await claimOutboxEntry(entryRef, new Date(now.getTime() + 60000)));
+  assert.equal(db.data(entryRef.path)?.nextAttemptAt, undefined);
+});
+
+test('sweepMessageOutbox releases due retries and reclaims stuck sends', async () => {
+  const db = createFakeFirestore();
+  const now = new Date('2026-10-19T10:00:00Z');
+  const minutesAgo = (minutes: number) => Timestamp.fromMillis(now.getTime() - minutes * 60000);
+  const outbox = db.collection(OUTBOX_COLLECTION);
+
+  await outbox.doc('due').set({ state: 'pending', attempts: 1, nextAttemptAt: minutesAgo(1) });
+  await outbox.doc('later').set({ state: 'pending', attempts: 1, nextAttemptAt: minutesAgo(-5) });
+  await outbox.doc('stuck').set({ state: 'sending', attempts: 0, updatedAt: minutesAgo(10) });
+  await outbox.doc('busy').set({ state: 'sending', attempts: 0, updatedAt: minutesAgo(1) });
+
+  const result = await sweepMessageOutbox(now, asFirestore(db));
+
+  assert.deepEqual(result, { released: 1, reclaimed: 1 });
+  assert.equal(db.data(`${OUTBOX_COLLECTION}/due`)?.nextAttemptAt, undefined);
+  assert.ok(db.data(`${OUTBOX_COLLECTION}/later`)?.nextAttemptAt);
+  assert.equal(db.data(`${OUTBOX_COLLECTION}/stuck`)?.state, 'pending');
+  assert.equal(db.data(`${OUTBOX_COLLECTION}/stuck`)?.attempts, 1);
+  assert.equal(db.data(`${OUTBOX_COLLECTION}/busy`)?.state, 'sending');
+});
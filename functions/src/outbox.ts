@@ -0,0 +1,518 @@
+import { logger } from 'firebase-functions';
+import {
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  Firestore,
+  getFirestore,
+  Timestamp,
+  UpdateData,
+} from 'firebase-admin/firestore';
+import { authorizeSend, recordSendAudit } from './authorization';
+import { CampaignMessageRef, recordCampaignSendResult } from './campaignRecipients';
+import { assertNotOptedOut } from './consent';
+import { FakeWhatsAppService } from './fakeWhatsAppService';
+import { parseInteractiveMessage } from './interactive';
+import { OutboundMediaRef, resolveOutboundMedia } from './media';
+import { applyPendingStatusUpdates } from './messageStatus';
+import { isValidRecipient } from './phoneConfig';
+import { consumeSendToken, getPhoneNumberIdKey, RATE_LIMITED, RateLimitKeys } from './rateLimit';
+import { assertServiceWindowOpen } from './serviceWindow';
+import { resolveTemplate } from './templates';
+import {
+  InteractiveMessage,
+  TemplateMessage,
+  WhatsAppApiError,
+  WhatsAppResponse,
+  WhatsAppSender,
+  WhatsAppService,
+} from './whatsappService';
+
+const CONVERSATIONS_COLLECTION = 'conversations';
+const MESSAGES_COLLECTION = 'chat_messages';
+const MESSAGE_STATUS_COLLECTION = 'message_status';
+export const OUTBOX_COLLECTION = 'message_outbox';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// Rate-limit waits and send retries share this much waiting inside the trigger;
+// past it the entry is rescheduled. Well under OUTBOX_TIMEOUT_SECONDS so the
+// sends themselves still finish before the invocation is cut off.
+const MAX_INLINE_WAIT_MS = 45000;
+
+// processMessageOutbox's timeout. A 'sending' entry untouched for longer than
+// that plus a margin belongs to an invocation that died, so the sweep reclaims it.
+export const OUTBOX_TIMEOUT_SECONDS = 120;
+const STALE_SENDING_MS = (OUTBOX_TIMEOUT_SECONDS + 60) * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+export type OutboxState = 'pending' | 'sending' | 'sent' | 'failed';
+
+// Written by the client in the same batch as the chat message, keyed by the chat message ID
+export interface OutboxEntry {
+  messageId: string;
+  conversationId: string;
+  // UID of the operator who queued (or retried) the entry; authorized like a direct send
+  requestedBy?: string;
+  to: string;
+  content: string;
+  template?: TemplateMessage;
+  media?: OutboundMediaRef;
+  interactive?: InteractiveMessage;
+  // Set on entries queued by a broadcast campaign
+  campaign?: CampaignMessageRef;
+  state: OutboxState;
+  attempts: number;
+  lastError?: string;
+  whatsappMessageId?: string;
+  // Set while a retry is deferred; the sweep releases the entry once it's due
+  nextAttemptAt?: Timestamp;
+}
+
+// A template or text message queued by the server on an operator's behalf
+export interface QueuedMessage {
+  conversationId: string;
+  requestedBy: string;
+  to: string;
+  content: string;
+  template?: TemplateMessage;
+  campaign?: CampaignMessageRef;
+}
+
+// Satisfied by both WriteBatch and Transaction
+export interface OutboxWriter {
+  set(documentRef: DocumentReference, data: DocumentData): unknown;
+  update(documentRef: DocumentReference, data: UpdateData<DocumentData>): unknown;
+}
+
+/**
+ * Write a server-queued message the way the chat dashboard does: the chat
+ * message, its status record and outbox entry, and the conversation's
+ * last-message time (four writes). Returns the chat message ID.
+ */
+export const queueOutboundMessage = (
+  writer: OutboxWriter,
+  message: QueuedMessage,
+  db: Firestore = getFirestore()
+): string => {
+  const messageRef = db.collection(MESSAGES_COLLECTION).doc();
+
+  writer.set(messageRef, {
+    conversationId: message.conversationId,
+    senderId: message.requestedBy,
+    senderType: 'operator',
+    content: message.content,
+    messageType: 'text',
+    timestamp: FieldValue.serverTimestamp(),
+    status: 'sent',
+    deliveryState: 'queued',
+    ...(message.template && { template: message.template }),
+    ...(message.campaign && { campaign: message.campaign }),
+    reactions: [],
+    attachments: [],
+  });
+
+  writer.set(db.collection(MESSAGE_STATUS_COLLECTION).doc(messageRef.id), {
+    messageId: messageRef.id,
+    conversationId: message.conversationId,
+    deliveredTo: [],
+    readBy: [],
+  });
+
+  writer.set(db.collection(OUTBOX_COLLECTION).doc(messageRef.id), {
+    messageId: messageRef.id,
+    conversationId: message.conversationId,
+    requestedBy: message.requestedBy,
+    to: message.to,
+    content: message.content,
+    ...(message.template && { template: message.template }),
+    ...(message.campaign && { campaign: message.campaign }),
+    state: 'pending',
+    attempts: 0,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  writer.update(db.collection(CONVERSATIONS_COLLECTION).doc(message.conversationId), {
+    lastMessageAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  return messageRef.id;
+};
+
+// Inline waiting left for one outbox entry, drawn down by every wait
+export interface WaitBudget {
+  remainingMs: number;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  // Shared between the rate-limit wait and the send retries; a fresh budget when omitted
+  waitBudget?: WaitBudget;
+}
+
+// `retryAfterMs` on a failure means it is worth retrying, but not by waiting inline
+export type SendResult =
+  | { ok: true; whatsappMessageId?: string; attempts: number }
+  | { ok: false; error: string; attempts: number; retryAfterMs?: number };
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof WhatsAppApiError) {
+    return error.retryable;
+  }
+
+  // fetch rejects with a TypeError on network failures
+  return error instanceof TypeError;
+};
+
+export const backoffDelay = (attempt: number, baseDelayMs: number = DEFAULT_BASE_DELAY_MS): number => {
+  return Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_DELAY_MS);
+};
+
+/**
+ * Run a send, retrying throttled (429) and server (5xx) failures with
+ * exponential backoff. Honors Retry-After when the API provides it. A wait
+ * longer than MAX_DELAY_MS, or one the wait budget can't cover, isn't slept
+ * through: the failure comes back with `retryAfterMs` so the caller can
+ * reschedule.
+ */
+export const sendWithRetry = async (
+  send: () => Promise<WhatsAppResponse>,
+  options: RetryOptions = {}
+): Promise<SendResult> => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const sleep = options.sleep ?? defaultSleep;
+  const budget = options.waitBudget ?? { remainingMs: MAX_INLINE_WAIT_MS };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await send();
+      return { ok: true, whatsappMessageId: response.messages[0]?.id, attempts: attempt };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (!isRetryableError(error) || attempt >= maxAttempts) {
+        return { ok: false, error: errorMessage, attempts: attempt };
+      }
+
+      const delay = (error instanceof WhatsAppApiError && error.retryAfterMs)
+        || backoffDelay(attempt, options.baseDelayMs);
+
+      if (delay > MAX_DELAY_MS || delay > budget.remainingMs) {
+        return { ok: false, error: errorMessage, attempts: attempt, retryAfterMs: delay };
+      }
+
+      logger.warn('Retrying WhatsApp send', { attempt, delay, error: errorMessage });
+      await sleep(delay);
+      budget.remainingMs -= delay;
+    }
+  }
+};
+
+/**
+ * Pick the sender for this environment: the fake when WHATSAPP_USE_FAKE is set
+ * (emulator, tests), otherwise the real API if credentials are configured.
+ */
+export const createWhatsAppSender = (): WhatsAppSender | null => {
+  if (process.env.WHATSAPP_USE_FAKE === 'true') {
+    return FakeWhatsAppService.fromEnvironment();
+  }
+
+  const whatsappToken = process.env.WHATSAPP_API_TOKEN || process.env.VITE_WHATSAPP_API_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || process.env.VITE_WHATSAPP_PHONE_NUMBER_ID;
+
+  if (!whatsappToken || !phoneNumberId) {
+    return null;
+  }
+
+  return new WhatsAppService(phoneNumberId, whatsappToken);
+};
+
+/**
+ * Wait for a send token when the limiter only needs a short pause, so queued
+ * bursts drain at the configured rate. Returns null once a token is taken, or
+ * how long to defer the entry when the wait doesn't fit the budget.
+ */
+const waitForSendToken = async (
+  entry: OutboxEntry,
+  options: RetryOptions & { waitBudget: WaitBudget },
+  db: Firestore
+): Promise<number | null> => {
+  const sleep = options.sleep ?? defaultSleep;
+  const budget = options.waitBudget;
+  const sendRate = entry.campaign?.sendRatePerMinute;
+  const keys: RateLimitKeys = {
+    // Campaigns get their own bucket so a broadcast doesn't use up the owner's chat sends
+    uid: entry.campaign ? `campaign_${entry.campaign.campaignId}` : entry.requestedBy as string,
+    recipient: entry.to,
+    phoneNumberId: getPhoneNumberIdKey(),
+    // ...sized to the campaign's rate, which may be above the per-user limit
+    ...(sendRate && { userLimit: { capacity: sendRate, refillPerMinute: sendRate } }),
+  };
+
+  for (;;) {
+    try {
+      await consumeSendToken(keys, Date.now(), db);
+      return null;
+    } catch (error) {
+      const details = (error as { details?: { reason?: string; retryAfterSeconds?: number } }).details;
+
+      if (details?.reason !== RATE_LIMITED) {
+        throw error;
+      }
+
+      const delay = (details.retryAfterSeconds ?? 1) * 1000;
+
+      if (delay > MAX_DELAY_MS || delay > budget.remainingMs) {
+        return delay;
+      }
+
+      logger.warn('Outbox send rate limited, waiting', { messageId: entry.messageId, delay });
+      await sleep(delay);
+      budget.remainingMs -= delay;
+    }
+  }
+};
+
+const sendEntry = async (
+  entry: OutboxEntry,
+  sender: WhatsAppSender | null,
+  options: RetryOptions,
+  db: Firestore
+): Promise<SendResult> => {
+  if (!sender) {
+    return { ok: false, error: 'WhatsApp API credentials not configured on server', attempts: 0 };
+  }
+
+  if (!isValidRecipient(entry.to)) {
+    return { ok: false, error: `Invalid phone number: ${entry.to}`, attempts: 0 };
+  }
+
+  if (!entry.requestedBy) {
+    return { ok: false, error: 'Outbox entry is missing requestedBy', attempts: 0 };
+  }
+
+  // One budget for every wait below, so the entry can't outlive the invocation
+  const retryOptions = { ...options, waitBudget: { remainingMs: MAX_INLINE_WAIT_MS } };
+
+  try {
+    await authorizeSend(entry.requestedBy, entry.to, entry.conversationId, {}, db);
+    await assertNotOptedOut(entry.to, db);
+
+    const rateLimitedForMs = await waitForSendToken(entry, retryOptions, db);
+
+    if (rateLimitedForMs !== null) {
+      // Nothing was sent, so no attempt is used up
+      return { ok: false, error: 'Rate limited; send rescheduled', attempts: 0, retryAfterMs: rateLimitedForMs };
+    }
+
+    if (entry.interactive) {
+      await assertServiceWindowOpen(entry.to, entry.conversationId, new Date(), db);
+      const interactive = parseInteractiveMessage(entry.interactive);
+      return sendWithRetry(() => sender.sendInteractive(entry.to, interactive), retryOptions);
+    }
+
+    if (entry.media) {
+      await assertServiceWindowOpen(entry.to, entry.conversationId, new Date(), db);
+      const media = await resolveOutboundMedia(entry.media, entry.content || undefined);
+      return sendWithRetry(() => sender.sendMedia(entry.to, media), retryOptions);
+    }
+
+    if (!entry.template) {
+      await assertServiceWindowOpen(entry.to, entry.conversationId, new Date(), db);
+      return sendWithRetry(() => sender.sendMessage(entry.to, entry.content), retryOptions);
+    }
+
+    const template = await resolveTemplate(entry.template, db);
+    return sendWithRetry(() => sender.sendTemplate(entry.to, template), retryOptions);
+  } catch (error) {
+    // Unauthorized sender, opted-out customer, closed service window, invalid template
+    // or rejected media/interactive: not worth retrying
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error', attempts: 0 };
+  }
+};
+
+/**
+ * Move a pending entry to 'sending' and return it, or null when it isn't
+ * pending or its deferred retry isn't due. Transactional, so duplicate
+ * trigger deliveries cannot both claim the same entry.
+ */
+export const claimOutboxEntry = async (
+  entryRef: DocumentReference,
+  now: Date = new Date()
+): Promise<OutboxEntry | null> => {
+  return entryRef.firestore.runTransaction(async (transaction) => {
+    const snap = await transaction.get(entryRef);
+    const data = snap.data() as OutboxEntry | undefined;
+
+    if (!data || data.state !== 'pending' || (data.nextAttemptAt && data.nextAttemptAt.toMillis() > now.getTime())) {
+      return null;
+    }
+
+    transaction.update(entryRef, {
+      state: 'sending',
+      nextAttemptAt: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return data;
+  });
+};
+
+/**
+ * Claim a pending outbox entry, send it and record the outcome on both the
+ * entry and its chat message. Attempts count across deferred retries and
+ * reclaims, so an entry gives up after `maxAttempts` in total.
+ */
+export const processOutboxEntry = async (
+  entryRef: DocumentReference,
+  sender: WhatsAppSender | null,
+  options: RetryOptions = {}
+): Promise<void> => {
+  const db = entryRef.firestore;
+  const entry = await claimOutboxEntry(entryRef);
+
+  if (!entry) {
+    return;
+  }
+
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const remainingAttempts = maxAttempts - (entry.attempts || 0);
+  const result: SendResult = remainingAttempts > 0
+    ? await sendEntry(entry, sender, { ...options, maxAttempts: remainingAttempts }, db)
+    : { ok: false, error: `Gave up after ${maxAttempts} attempts`, attempts: 0 };
+
+  const messageRef = db.collection(MESSAGES_COLLECTION).doc(entry.messageId);
+
+  if (!result.ok && result.retryAfterMs) {
+    // The chat message stays 'queued'; the sweep releases the entry when it's due
+    await entryRef.update({
+      state: 'pending',
+      attempts: FieldValue.increment(result.attempts),
+      lastError: result.error,
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + result.retryAfterMs),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info('Outbox entry deferred', {
+      messageId: entry.messageId,
+      attempts: result.attempts,
+      retryAfterMs: result.retryAfterMs,
+    });
+    return;
+  }
+
+  const batch = db.batch();
+
+  if (result.ok) {
+    batch.update(entryRef, {
+      state: 'sent',
+      attempts: FieldValue.increment(result.attempts),
+      whatsappMessageId: result.whatsappMessageId || null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    batch.update(messageRef, {
+      deliveryState: 'sent',
+      whatsappMessageId: result.whatsappMessageId || null,
+      deliveryError: FieldValue.delete(),
+    });
+  } else {
+    batch.update(entryRef, {
+      state: 'failed',
+      attempts: FieldValue.increment(result.attempts),
+      lastError: result.error,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    batch.update(messageRef, {
+      deliveryState: 'failed',
+      deliveryError: result.error,
+    });
+  }
+
+  if (entry.campaign) {
+    recordCampaignSendResult(batch, entry.campaign, result, db);
+  }
+
+  await batch.commit();
+
+  // Delivery callbacks can arrive before the ID above was written
+  if (result.ok && result.whatsappMessageId) {
+    await applyPendingStatusUpdates(messageRef, result.whatsappMessageId);
+  }
+
+  await recordSendAudit({
+    uid: entry.requestedBy || 'unknown',
+    channel: 'outbox',
+    outcome: result.ok ? 'sent' : 'failed',
+    to: entry.to.replace(/\D/g, ''),
+    conversationId: entry.conversationId,
+    messageId: entry.messageId,
+    kind: entry.template ? 'template' : entry.media ? 'media' : entry.interactive ? 'interactive' : 'text',
+    ...(result.ok ? { whatsappMessageId: result.whatsappMessageId } : { error: result.error }),
+  }, db);
+
+  logger.info('Outbox entry processed', {
+    messageId: entry.messageId,
+    state: result.ok ? 'sent' : 'failed',
+    attempts: result.attempts,
+  });
+};
+
+/**
+ * Scheduled clean-up for entries no trigger will pick up again: deferred
+ * retries that are now due go back to plain 'pending' (which fires the
+ * trigger), and 'sending' entries whose invocation timed out or crashed are
+ * returned to 'pending' with the lost attempt counted. A reclaimed entry may
+ * have reached WhatsApp before its invocation died, so this can send twice.
+ */
+export const sweepMessageOutbox = async (
+  now: Date = new Date(),
+  db: Firestore = getFirestore()
+): Promise<{ released: number; reclaimed: number }> => {
+  const outbox = db.collection(OUTBOX_COLLECTION);
+  const [due, stale] = await Promise.all([
+    outbox.where('state', '==', 'pending')
+      .where('nextAttemptAt', '<=', Timestamp.fromDate(now))
+      .limit(SWEEP_BATCH_SIZE)
+      .get(),
+    outbox.where('state', '==', 'sending')
+      .where('updatedAt', '<=', Timestamp.fromMillis(now.getTime() - STALE_SENDING_MS))
+      .limit(SWEEP_BATCH_SIZE)
+      .get(),
+  ]);
+
+  for (const doc of due.docs) {
+    await doc.ref.update({ nextAttemptAt: FieldValue.delete(), updatedAt: FieldValue.serverTimestamp() });
+  }
+
+  let reclaimed = 0;
+
+  for (const doc of stale.docs) {
+    // Re-check in a transaction so an invocation finishing right now isn't overwritten
+    const wasReclaimed = await db.runTransaction(async (transaction) => {
+      const entry = (await transaction.get(doc.ref)).data() as (OutboxEntry & { updatedAt?: Timestamp }) | undefined;
+
+      if (entry?.state !== 'sending' || (entry.updatedAt?.toMillis() ?? 0) > now.getTime() - STALE_SENDING_MS) {
+        return false;
+      }
+
+      transaction.update(doc.ref, {
+        state: 'pending',
+        attempts: FieldValue.increment(1),
+        lastError: 'Send did not finish before the function timed out',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+
+    if (wasReclaimed) reclaimed += 1;
+  }
+
+  return { released: due.size, reclaimed };
+};
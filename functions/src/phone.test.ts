@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  CountryCode,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+  parsePhoneNumber,
+  resolveCountryCode,
+  toPhoneDigits,
+  whatsAppIdToE164,
+} from './phone';
+
+type Case = [input: string | number | null | undefined, defaultCountry: CountryCode, expected: string | null];
+
+const normalizeCases: Case[] = [
+  // International input ignores the default country
+  ['+91 98765 43210', 'US', '+919876543210'],
+  ['+44 7911 123456', 'IN', '+447911123456'],
+  ['+1 (415) 555-0123', 'GB', '+14155550123'],
+  ['0091 98765 43210', 'US', '+919876543210'],
+  ['00447911123456', 'US', '+447911123456'],
+  ['+86 138 0013 8000', 'US', '+8613800138000'], // Calling code without rules
+
+  // National numbers take the default country, dropping the trunk prefix
+  ['98765 43210', 'IN', '+919876543210'],
+  ['098765 43210', 'IN', '+919876543210'],
+  ['07911 123456', 'GB', '+447911123456'],
+  ['050 123 4567', 'AE', '+971501234567'],
+  ['0412 345 678', 'AU', '+61412345678'],
+  ['9123 4567', 'SG', '+6591234567'],
+  ['0803 123 4567', 'NG', '+2348031234567'],
+  ['(415) 555-0123', 'US', '+14155550123'],
+  ['1 415 555 0123', 'US', '+14155550123'],
+  ['06 12 34 56 78', 'FR', '+33612345678'],
+  ['11 91234 5678', 'BR', '+5511912345678'],
+
+  // International digits without a + (WhatsApp IDs, spreadsheet exports)
+  ['919876543210', 'US', '+919876543210'],
+  ['447911123456', 'IN', '+447911123456'],
+  ['14155550123', 'IN', '+14155550123'],
+  [919876543210, 'GB', '+919876543210'],
+
+  // National interpretation wins when the digits fit both
+  ['9198765432', 'IN', '+919198765432'],
+
+  // Invalid
+  ['', 'US', null],
+  ['   ', 'US', null],
+  [null, 'US', null],
+  [undefined, 'US', null],
+  ['N/A', 'US', null],
+  ['call me', 'IN', null],
+  ['12345', 'US', null],
+  ['+1 415 555', 'US', null],
+  ['+44 7911 1234567890', 'US', null],
+  ['+0 123 456 7890', 'US', null],
+  ['0000000000', 'IN', null],
+  ['+1234567890123456', 'US', null],
+];
+
+for (const [input, defaultCountry, expected] of normalizeCases) {
+  test(`normalizePhoneNumber(${JSON.stringify(input)}, ${defaultCountry}) → ${expected}`, () => {
+    assert.equal(normalizePhoneNumber(input, defaultCountry), expected);
+    assert.equal(isValidPhoneNumber(input, defaultCountry), expected !== null);
+  });
+}
+
+const formatCases: Case[] = [
+  ['919876543210', 'US', '+91 98765 43210'],
+  ['07911123456', 'GB', '+44 7911 123456'],
+  ['4155550123', 'US', '+1 415 555 0123'],
+  ['0501234567', 'AE', '+971 50 123 4567'],
+  ['0612345678', 'FR', '+33 6 12 34 56 78'],
+  ['+60 12 345 6789', 'US', '+60 123456789'], // No grouping rule
+  ['+8613800138000', 'US', '+8613800138000'], // No country rule
+  ['N/A', 'US', 'N/A'], // Invalid input is shown as-is
+  [null, 'US', ''],
+];
+
+for (const [input, defaultCountry, expected] of formatCases) {
+  test(`formatPhoneNumber(${JSON.stringify(input)}, ${defaultCountry}) → ${expected}`, () => {
+    assert.equal(formatPhoneNumber(input, defaultCountry), expected);
+  });
+}
+
+test('parsePhoneNumber reports the country and national number', () => {
+  assert.deepEqual(parsePhoneNumber('098765 43210', 'IN'), {
+    e164: '+919876543210',
+    callingCode: '91',
+    nationalNumber: '9876543210',
+    country: 'IN',
+  });
+  assert.equal(parsePhoneNumber('+1 416 555 0123', 'IN')?.callingCode, '1');
+  assert.equal(parsePhoneNumber('+8613800138000', 'US')?.country, undefined);
+});
+
+test('toPhoneDigits gives conversation IDs and falls back to bare digits', () => {
+  assert.equal(toPhoneDigits('+91 98765 43210', 'US'), '919876543210');
+  assert.equal(toPhoneDigits('98765 43210', 'IN'), '919876543210');
+  assert.equal(toPhoneDigits('12-345', 'US'), '12345');
+  assert.equal(toPhoneDigits(undefined, 'US'), '');
+});
+
+test('whatsAppIdToE164 never reads a WhatsApp ID as a national number', () => {
+  // 6591234567 is also a valid US national number and, with IN's trunk rules, an Indian one
+  assert.equal(toPhoneDigits('6591234567', 'US'), '16591234567');
+  assert.equal(whatsAppIdToE164('6591234567'), '+6591234567');
+  assert.equal(toPhoneDigits(whatsAppIdToE164('6591234567'), 'US'), '6591234567');
+  assert.equal(toPhoneDigits(whatsAppIdToE164('6591234567'), 'IN'), '6591234567');
+});
+
+test('resolveCountryCode reads configuration leniently', () => {
+  assert.equal(resolveCountryCode('IN'), 'IN');
+  assert.equal(resolveCountryCode(' gb '), 'GB');
+  assert.equal(resolveCountryCode('XX'), 'US');
+  assert.equal(resolveCountryCode('constructor'), 'US');
+  assert.equal(resolveCountryCode(undefined), 'US');
+});
@@ -0,0 +1,254 @@
+/**
+ * E.164 phone number normalization shared by the functions and the dashboard
+ * (src/lib/phone.ts re-exports it with the client's default country).
+ * Kept free of imports so both builds can compile it.
+ *
+ * Numbers written with a leading `+` or `00` are international. Anything else
+ * is read as a national number of the default country first (dropping its
+ * trunk prefix), then as an international number missing its `+`, which is
+ * how WhatsApp IDs and most spreadsheet exports store them.
+ */
+
+interface CountryRule {
+  callingCode: string;
+  // Valid lengths of the national significant number (without trunk prefix)
+  nationalLengths: number[];
+  // Digit dialled before national numbers inside the country, e.g. 0 in the UK
+  trunkPrefix?: string;
+  // Display grouping of the national number, e.g. [3, 3, 4] → 415 555 0123
+  groups?: number[];
+}
+
+export const COUNTRY_RULES = {
+  US: { callingCode: '1', nationalLengths: [10], trunkPrefix: '1', groups: [3, 3, 4] },
+  CA: { callingCode: '1', nationalLengths: [10], trunkPrefix: '1', groups: [3, 3, 4] },
+  GB: { callingCode: '44', nationalLengths: [10], trunkPrefix: '0', groups: [4, 6] },
+  IE: { callingCode: '353', nationalLengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  IN: { callingCode: '91', nationalLengths: [10], trunkPrefix: '0', groups: [5, 5] },
+  PK: { callingCode: '92', nationalLengths: [10], trunkPrefix: '0', groups: [3, 7] },
+  BD: { callingCode: '880', nationalLengths: [10], trunkPrefix: '0', groups: [4, 6] },
+  LK: { callingCode: '94', nationalLengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  AE: { callingCode: '971', nationalLengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  SA: { callingCode: '966', nationalLengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  QA: { callingCode: '974', nationalLengths: [8], groups: [4, 4] },
+  EG: { callingCode: '20', nationalLengths: [10], trunkPrefix: '0', groups: [3, 3, 4] },
+  NG: { callingCode: '234', nationalLengths: [10], trunkPrefix: '0', groups: [3, 3, 4] },
+  KE: { callingCode: '254', nationalLengths: [9], trunkPrefix: '0', groups: [3, 6] },
+  ZA: { callingCode: '27', nationalLengths: [9], trunkPrefix: '0', groups: [2, 3, 4] },
+  SG: { callingCode: '65', nationalLengths: [8], groups: [4, 4] },
+  MY: { callingCode: '60', nationalLengths: [9, 10], trunkPrefix: '0' },
+  ID: { callingCode: '62', nationalLengths: [9, 10, 11, 12], trunkPrefix: '0' },
+  PH: { callingCode: '63', nationalLengths: [10], trunkPrefix: '0', groups: [3, 3, 4] },
+  AU: { callingCode: '61', nationalLengths: [9], trunkPrefix: '0', groups: [1, 4, 4] },
+  NZ: { callingCode: '64', nationalLengths: [8, 9, 10], trunkPrefix: '0' },
+  DE: { callingCode: '49', nationalLengths: [10, 11], trunkPrefix: '0' },
+  FR: { callingCode: '33', nationalLengths: [9], trunkPrefix: '0', groups: [1, 2, 2, 2, 2] },
+  ES: { callingCode: '34', nationalLengths: [9], groups: [3, 3, 3] },
+  IT: { callingCode: '39', nationalLengths: [9, 10] },
+  NL: { callingCode: '31', nationalLengths: [9], trunkPrefix: '0', groups: [1, 8] },
+  BR: { callingCode: '55', nationalLengths: [10, 11], trunkPrefix: '0', groups: [2, 5, 4] },
+  MX: { callingCode: '52', nationalLengths: [10], groups: [2, 4, 4] },
+} satisfies Record<string, CountryRule>;
+
+export type CountryCode = keyof typeof COUNTRY_RULES;
+
+export const FALLBACK_COUNTRY: CountryCode = 'US';
+
+export interface ParsedPhoneNumber {
+  // +<calling code><national number>, e.g. +919876543210
+  e164: string;
+  callingCode: string;
+  nationalNumber: string;
+  // Undefined for valid numbers whose calling code isn't in COUNTRY_RULES
+  country?: CountryCode;
+}
+
+// E.164 allows at most 15 digits; shorter than 8 is never a real mobile number
+const MIN_E164_DIGITS = 8;
+const MAX_E164_DIGITS = 15;
+
+const rulesFor = (country: CountryCode): CountryRule => COUNTRY_RULES[country];
+
+export const isCountryCode = (value: unknown): value is CountryCode => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COUNTRY_RULES, value);
+};
+
+/**
+ * Read a default country from configuration (env var), falling back to
+ * FALLBACK_COUNTRY when it's missing or not one we have rules for.
+ */
+export const resolveCountryCode = (value: unknown): CountryCode => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : value;
+  return isCountryCode(code) ? code : FALLBACK_COUNTRY;
+};
+
+const countriesForCallingCode = (callingCode: string): CountryCode[] => {
+  return (Object.keys(COUNTRY_RULES) as CountryCode[])
+    .filter(country => rulesFor(country).callingCode === callingCode);
+};
+
+// Split full international digits into calling code + national number.
+// Calling codes are prefix-free, so at most one of the 1-3 digit prefixes matches.
+const parseInternationalDigits = (digits: string): ParsedPhoneNumber | null => {
+  if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS || digits.startsWith('0')) {
+    return null;
+  }
+
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.slice(0, length);
+    const countries = countriesForCallingCode(callingCode);
+
+    if (countries.length === 0) continue;
+
+    const nationalNumber = digits.slice(length);
+    const rule = rulesFor(countries[0]);
+
+    if (!rule.nationalLengths.includes(nationalNumber.length)) {
+      return null;
+    }
+
+    return {
+      e164: `+${digits}`,
+      callingCode,
+      nationalNumber,
+      // Shared calling codes (US/CA) report the first listed country
+      country: countries[0],
+    };
+  }
+
+  // Unknown calling code: accept it as long as it's a plausible E.164 length
+  return {
+    e164: `+${digits}`,
+    callingCode: '',
+    nationalNumber: digits,
+  };
+};
+
+const parseNationalDigits = (digits: string, country: CountryCode): ParsedPhoneNumber | null => {
+  const rule = rulesFor(country);
+  const candidates = [digits];
+
+  if (rule.trunkPrefix && digits.startsWith(rule.trunkPrefix)) {
+    candidates.push(digits.slice(rule.trunkPrefix.length));
+  }
+
+  const nationalNumber = candidates.find(candidate => rule.nationalLengths.includes(candidate.length));
+
+  if (!nationalNumber || nationalNumber.startsWith('0')) {
+    return null;
+  }
+
+  return {
+    e164: `+${rule.callingCode}${nationalNumber}`,
+    callingCode: rule.callingCode,
+    nationalNumber,
+    country,
+  };
+};
+
+/**
+ * Parse a phone number as typed by a person, exported by a spreadsheet or sent
+ * by WhatsApp. Returns null when it can't be read as a valid number.
+ */
+export const parsePhoneNumber = (
+  input: string | number | null | undefined,
+  defaultCountry: CountryCode = FALLBACK_COUNTRY
+): ParsedPhoneNumber | null => {
+  if (input === null || input === undefined) {
+    return null;
+  }
+
+  const raw = String(input).trim();
+
+  // Only digits and the usual separators are allowed; letters mean it isn't a phone number
+  if (!raw || /[^\d\s+\-().]/.test(raw)) {
+    return null;
+  }
+
+  const digits = raw.replace(/\D/g, '');
+
+  if (raw.startsWith('+')) {
+    return parseInternationalDigits(digits);
+  }
+
+  if (digits.startsWith('00')) {
+    return parseInternationalDigits(digits.slice(2));
+  }
+
+  return parseNationalDigits(digits, defaultCountry) || parseInternationalDigits(digits);
+};
+
+/**
+ * E.164 form of a WhatsApp ID (`wa_id`). Those are already full international
+ * numbers without the `+`, so they must never be read as national numbers:
+ * parsePhoneNumber('6591234567', 'US') would make a Singapore number American.
+ */
+export const whatsAppIdToE164 = (waId: string): string => `+${waId.replace(/\D/g, '')}`;
+
+export const normalizePhoneNumber = (
+  input: string | number | null | undefined,
+  defaultCountry: CountryCode = FALLBACK_COUNTRY
+): string | null => {
+  return parsePhoneNumber(input, defaultCountry)?.e164 ?? null;
+};
+
+export const isValidPhoneNumber = (
+  input: string | number | null | undefined,
+  defaultCountry: CountryCode = FALLBACK_COUNTRY
+): boolean => {
+  return parsePhoneNumber(input, defaultCountry) !== null;
+};
+
+/**
+ * Digits-only form used for WhatsApp recipients and as the `conversations`
+ * document ID (matching the `wa_id` of inbound webhooks). Unparseable input
+ * falls back to its bare digits so existing records still resolve.
+ */
+export const toPhoneDigits = (
+  input: string | number | null | undefined,
+  defaultCountry: CountryCode = FALLBACK_COUNTRY
+): string => {
+  const parsed = parsePhoneNumber(input, defaultCountry);
+  return parsed ? parsed.e164.slice(1) : String(input ?? '').replace(/\D/g, '');
+};
+
+const groupDigits = (digits: string, groups: number[]): string => {
+  const parts: string[] = [];
+  let offset = 0;
+
+  for (const size of groups) {
+    if (offset >= digits.length) break;
+    parts.push(digits.slice(offset, offset + size));
+    offset += size;
+  }
+
+  if (offset < digits.length) {
+    parts.push(digits.slice(offset));
+  }
+
+  return parts.join(' ');
+};
+
+/**
+ * International display format, e.g. "+44 7911 123456". Returns the input
+ * unchanged when it isn't a valid number, so bad data stays visible.
+ */
+export const formatPhoneNumber = (
+  input: string | number | null | undefined,
+  defaultCountry: CountryCode = FALLBACK_COUNTRY
+): string => {
+  const parsed = parsePhoneNumber(input, defaultCountry);
+
+  if (!parsed) {
+    return input === null || input === undefined ? '' : String(input);
+  }
+
+  if (!parsed.country) {
+    return parsed.e164;
+  }
+
+  const groups = rulesFor(parsed.country).groups;
+  const national = groups ? groupDigits(parsed.nationalNumber, groups) : parsed.nationalNumber;
+
+  return `+${parsed.callingCode} ${national}`;
+};
@@ -0,0 +1,16 @@
+import { CountryCode, isValidPhoneNumber, resolveCountryCode, toPhoneDigits } from './phone';
+
+// Country assumed for numbers written without an international prefix,
+// as an ISO 3166 alpha-2 code (e.g. IN, GB). See src/phone.ts for the rules.
+export const getDefaultPhoneCountry = (): CountryCode => {
+  return resolveCountryCode(process.env.DEFAULT_PHONE_COUNTRY);
+};
+
+// Digits-only international number, as the WhatsApp API expects in `to`
+export const toWhatsAppRecipient = (phone: string): string => {
+  return toPhoneDigits(phone, getDefaultPhoneCountry());
+};
+
+export const isValidRecipient = (phone: string): boolean => {
+  return isValidPhoneNumber(phone, getDefaultPhoneCountry());
+};
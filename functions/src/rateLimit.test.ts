@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BucketLimit, recipientBucketKey, refillBucket, secondsUntilToken } from './rateLimit';
+
+const limit: BucketLimit = { capacity: 10, refillPerMinute: 30 };
+const start = Date.UTC(2024, 0, 1);
+
+test('refillBucket starts new buckets full', () => {
+  assert.equal(refillBucket(undefined, limit, start), 10);
+});
+
+test('refillBucket adds tokens for the elapsed time', () => {
+  assert.equal(refillBucket({ tokens: 0, updatedAtMs: start }, limit, start + 2000), 1);
+  assert.equal(refillBucket({ tokens: 2.5, updatedAtMs: start }, limit, start + 10000), 7.5);
+});
+
+test('refillBucket never exceeds capacity or goes back in time', () => {
+  assert.equal(refillBucket({ tokens: 9, updatedAtMs: start }, limit, start + 60000), 10);
+  assert.equal(refillBucket({ tokens: 3, updatedAtMs: start }, limit, start - 5000), 3);
+});
+
+test('secondsUntilToken rounds up to whole seconds', () => {
+  assert.equal(secondsUntilToken(0, limit), 2);
+  assert.equal(secondsUntilToken(0.9, limit), 1);
+  assert.equal(secondsUntilToken(0, { capacity: 5, refillPerMinute: 1 }), 60);
+});
+
+test('recipientBucketKey gives a customer one bucket however the number is written', () => {
+  // The default country is US unless DEFAULT_PHONE_COUNTRY says otherwise
+  const keys = ['(415) 555-0123', '+1 415 555 0123', '14155550123', '001 415 555 0123'].map(recipientBucketKey);
+
+  assert.deepEqual(new Set(keys), new Set(['+14155550123']));
+  assert.equal(recipientBucketKey('+65 9123 4567'), '+6591234567');
+});
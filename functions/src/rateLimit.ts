@@ -0,0 +1,148 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+import { getAppConfig } from './appConfig';
+import { toWhatsAppRecipient } from './phoneConfig';
+
+const BUCKETS_COLLECTION = 'rate_limit_buckets';
+const RATE_LIMITS_DOC = 'rate_limits';
+
+export const RATE_LIMITED = 'rate-limited';
+
+export type RateLimitScope = 'user' | 'recipient' | 'global';
+
+export interface BucketLimit {
+  // Burst size: how many sends are allowed back to back
+  capacity: number;
+  // Sustained rate the bucket refills at
+  refillPerMinute: number;
+}
+
+export type RateLimitConfig = Record<RateLimitScope, BucketLimit> & { enabled: boolean };
+
+// Used for any scope missing from app_config/rate_limits
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  enabled: true,
+  user: { capacity: 30, refillPerMinute: 30 },
+  recipient: { capacity: 10, refillPerMinute: 10 },
+  global: { capacity: 200, refillPerMinute: 1000 },
+};
+
+interface BucketState {
+  tokens: number;
+  updatedAtMs: number;
+}
+
+export interface RateLimitKeys {
+  uid: string;
+  // As written on the message; see recipientBucketKey
+  recipient: string;
+  phoneNumberId: string;
+  // Replaces the configured user limit, e.g. with a campaign's own send rate
+  userLimit?: BucketLimit;
+}
+
+const parseLimit = (value: unknown, fallback: BucketLimit): BucketLimit => {
+  const { capacity, refillPerMinute } = (value || {}) as Record<string, unknown>;
+  return {
+    capacity: typeof capacity === 'number' && capacity > 0 ? capacity : fallback.capacity,
+    refillPerMinute: typeof refillPerMinute === 'number' && refillPerMinute > 0
+      ? refillPerMinute
+      : fallback.refillPerMinute,
+  };
+};
+
+const parseRateLimitConfig = (data: Record<string, unknown> | undefined): RateLimitConfig => {
+  if (!data) {
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  return {
+    enabled: data.enabled !== false,
+    user: parseLimit(data.user, DEFAULT_RATE_LIMITS.user),
+    recipient: parseLimit(data.recipient, DEFAULT_RATE_LIMITS.recipient),
+    global: parseLimit(data.global, DEFAULT_RATE_LIMITS.global),
+  };
+};
+
+// Limits live in `app_config/rate_limits` so they can be tuned without a redeploy
+export const getRateLimitConfig = (now: number = Date.now()): Promise<RateLimitConfig> => {
+  return getAppConfig(RATE_LIMITS_DOC, parseRateLimitConfig, now);
+};
+
+// Tokens in a bucket after refilling for the time since it was last used
+export const refillBucket = (state: BucketState | undefined, limit: BucketLimit, now: number): number => {
+  if (!state) {
+    return limit.capacity;
+  }
+
+  const elapsedMinutes = Math.max(0, now - state.updatedAtMs) / 60000;
+  return Math.min(limit.capacity, state.tokens + elapsedMinutes * limit.refillPerMinute);
+};
+
+// Seconds until a bucket holding `tokens` has a whole token again
+export const secondsUntilToken = (tokens: number, limit: BucketLimit): number => {
+  return Math.max(1, Math.ceil(((1 - tokens) / limit.refillPerMinute) * 60));
+};
+
+/**
+ * One bucket per customer however their number was typed, shared by direct
+ * sends and the outbox: the E.164 form ("+14155550123").
+ */
+export const recipientBucketKey = (recipient: string): string => `+${toWhatsAppRecipient(recipient)}`;
+
+export const getPhoneNumberIdKey = (): string => {
+  return process.env.WHATSAPP_PHONE_NUMBER_ID || process.env.VITE_WHATSAPP_PHONE_NUMBER_ID || 'default';
+};
+
+/**
+ * Take one token from the caller's, the recipient's and the business number's
+ * buckets in a single transaction, or none if any of them is empty. Throws
+ * `resource-exhausted` with the scope and `retryAfterSeconds` in its details.
+ *
+ * The global bucket is one document, so sustained sends are bounded by
+ * Firestore's per-document write rate; that's well above what Meta allows a
+ * new number anyway.
+ */
+export const consumeSendToken = async (
+  keys: RateLimitKeys,
+  now: number = Date.now(),
+  db: Firestore = getFirestore()
+): Promise<void> => {
+  const configured = await getRateLimitConfig(now);
+
+  if (!configured.enabled) {
+    return;
+  }
+
+  const config = keys.userLimit ? { ...configured, user: keys.userLimit } : configured;
+  const buckets: Array<{ scope: RateLimitScope; key: string }> = [
+    { scope: 'user', key: keys.uid },
+    { scope: 'recipient', key: recipientBucketKey(keys.recipient) },
+    { scope: 'global', key: keys.phoneNumberId },
+  ];
+  const refs = buckets.map(({ scope, key }) => db.collection(BUCKETS_COLLECTION).doc(`${scope}:${key}`));
+
+  await db.runTransaction(async (transaction) => {
+    const snaps = await transaction.getAll(...refs);
+    const tokens = snaps.map((snap, index) => {
+      return refillBucket(snap.data() as BucketState | undefined, config[buckets[index].scope], now);
+    });
+
+    const emptyIndex = tokens.findIndex(available => available < 1);
+
+    if (emptyIndex !== -1) {
+      const { scope } = buckets[emptyIndex];
+      const retryAfterSeconds = secondsUntilToken(tokens[emptyIndex], config[scope]);
+
+      throw new HttpsError(
+        'resource-exhausted',
+        `Too many messages; try again in ${retryAfterSeconds} seconds`,
+        { reason: RATE_LIMITED, scope, retryAfterSeconds }
+      );
+    }
+
+    refs.forEach((ref, index) => {
+      transaction.set(ref, { tokens: tokens[index] - 1, updatedAtMs: now });
+    });
+  });
+};
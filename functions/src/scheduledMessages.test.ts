@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isWindowClosedAt } from './scheduledMessages';
+
+const sendAt = new Date('2024-03-10T09:00:00Z');
+
+test('isWindowClosedAt sends while the window is still open', () => {
+  assert.equal(isWindowClosedAt(new Date('2024-03-10T09:00:01Z'), sendAt), false);
+});
+
+test('isWindowClosedAt holds messages once the window has closed', () => {
+  assert.equal(isWindowClosedAt(new Date('2024-03-10T09:00:00Z'), sendAt), true);
+  assert.equal(isWindowClosedAt(new Date('2024-03-09T12:00:00Z'), sendAt), true);
+});
+
+test('isWindowClosedAt defers to WhatsApp when the window is unknown', () => {
+  assert.equal(isWindowClosedAt(undefined, sendAt), false);
+});
@@ -0,0 +1,119 @@
+import { logger } from 'firebase-functions';
+import { DocumentReference, FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { queueOutboundMessage } from './outbox';
+
+const CONVERSATIONS_COLLECTION = 'conversations';
+export const SCHEDULED_MESSAGES_COLLECTION = 'scheduled_messages';
+
+// Due messages handled per scheduler run; the rest wait for the next minute
+const DISPATCH_BATCH_SIZE = 200;
+
+export type ScheduledMessageState = 'scheduled' | 'sent' | 'window_closed' | 'failed' | 'cancelled';
+
+// Written by the chat dashboard's "send later"; text only, sent as `createdBy`
+export interface ScheduledMessage {
+  conversationId: string;
+  to: string;
+  content: string;
+  scheduledFor: Timestamp;
+  state: ScheduledMessageState;
+  createdBy: string;
+  messageId?: string;
+  error?: string;
+}
+
+type DispatchOutcome = Exclude<ScheduledMessageState, 'scheduled' | 'cancelled'>;
+
+/**
+ * Whether a free-form message can no longer be sent at `sendAt`. Conversations
+ * without `serviceWindowExpiresAt` are let through, as in assertServiceWindowOpen.
+ */
+export const isWindowClosedAt = (expiresAt: Date | undefined, sendAt: Date): boolean => {
+  return !!expiresAt && expiresAt.getTime() <= sendAt.getTime();
+};
+
+/**
+ * Move one due message into the outbox, or mark it `window_closed` when the
+ * customer's service window has closed by its send time. The conversation is
+ * read in the same transaction, so a customer reply that reopens the window
+ * just before the run is taken into account, and edits or cancellations made
+ * since the query ran are respected.
+ */
+const dispatchScheduledMessage = async (ref: DocumentReference, now: Date): Promise<DispatchOutcome | null> => {
+  const db = getFirestore();
+
+  return db.runTransaction(async (transaction) => {
+    const scheduled = (await transaction.get(ref)).data() as ScheduledMessage | undefined;
+
+    if (!scheduled || scheduled.state !== 'scheduled' || scheduled.scheduledFor.toMillis() > now.getTime()) {
+      return null;
+    }
+
+    const conversationRef = db.collection(CONVERSATIONS_COLLECTION).doc(scheduled.conversationId);
+    const conversation = (await transaction.get(conversationRef)).data();
+
+    if (!conversation) {
+      transaction.update(ref, {
+        state: 'failed',
+        error: 'Conversation not found',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return 'failed';
+    }
+
+    const expiresAt: Timestamp | undefined = conversation.serviceWindowExpiresAt;
+
+    if (isWindowClosedAt(expiresAt?.toDate(), now)) {
+      transaction.update(ref, {
+        state: 'window_closed',
+        serviceWindowExpiresAt: expiresAt,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return 'window_closed';
+    }
+
+    const messageId = queueOutboundMessage(transaction, {
+      conversationId: scheduled.conversationId,
+      requestedBy: scheduled.createdBy,
+      to: scheduled.to,
+      content: scheduled.content,
+    });
+
+    transaction.update(ref, {
+      state: 'sent',
+      messageId,
+      sentAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return 'sent';
+  });
+};
+
+/**
+ * Run by the scheduler every minute: queue scheduled messages whose time has
+ * come. The outbox then authorizes, checks opt-out, rate limits and sends
+ * them like any other operator message.
+ */
+export const runScheduledMessageDispatcher = async (now: Date = new Date()): Promise<void> => {
+  const due = await getFirestore().collection(SCHEDULED_MESSAGES_COLLECTION)
+    .where('state', '==', 'scheduled')
+    .where('scheduledFor', '<=', Timestamp.fromDate(now))
+    .orderBy('scheduledFor')
+    .limit(DISPATCH_BATCH_SIZE)
+    .get();
+
+  for (const doc of due.docs) {
+    try {
+      const outcome = await dispatchScheduledMessage(doc.ref, now);
+
+      if (outcome) {
+        logger.info('Scheduled message dispatched', { scheduledMessageId: doc.id, outcome });
+      }
+    } catch (error) {
+      logger.error('Scheduled message dispatch failed', {
+        scheduledMessageId: doc.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+};
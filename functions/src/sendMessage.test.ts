@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { asFirestore, createFakeFirestore } from './fakeFirestore';
+import { linkChatMessage } from './sendMessage';
+
+const SENDER = { uid: 'operator-1', role: 'operator' as const, conversationId: '6591234567' };
+
+const setup = async () => {
+  const db = createFakeFirestore();
+  const messages = db.collection('chat_messages');
+
+  await messages.doc('own').set({ conversationId: '6591234567', senderId: 'operator-1', deliveryState: 'queued' });
+  await messages.doc('other-sender').set({ conversationId: '6591234567', senderId: 'operator-2', deliveryState: 'queued' });
+  await messages.doc('other-conversation').set({ conversationId: '15551234567', senderId: 'operator-1', deliveryState: 'queued' });
+
+  return db;
+};
+
+test('linkChatMessage links a message the caller sent in the authorized conversation', async () => {
+  const db = await setup();
+
+  assert.equal(await linkChatMessage(SENDER, 'own', 'wamid.out1', asFirestore(db)), true);
+  assert.equal(db.data('chat_messages/own')?.whatsappMessageId, 'wamid.out1');
+  assert.equal(db.data('chat_messages/own')?.deliveryState, 'sent');
+});
+
+test('linkChatMessage leaves messages the caller did not send here alone', async () => {
+  const db = await setup();
+
+  for (const messageId of ['other-sender', 'other-conversation', 'missing']) {
+    assert.equal(await linkChatMessage(SENDER, messageId, 'wamid.out1', asFirestore(db)), false);
+  }
+
+  assert.equal(db.data('chat_messages/other-sender')?.whatsappMessageId, undefined);
+  assert.equal(db.data('chat_messages/other-conversation')?.whatsappMessageId, undefined);
+  assert.equal(db.data('chat_messages/missing'), undefined);
+});
@@ -0,0 +1,250 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { getFirestore, FieldValue, Firestore } from 'firebase-admin/firestore';
+import { AuthorizedSender, authorizeSend, recordSendAudit, SendAuditRecord, SendChannel } from './authorization';
+import { assertNotOptedOut } from './consent';
+import { claimSendRequest, completeSendRequest, isValidIdempotencyKey, releaseSendRequest } from './idempotency';
+import { parseInteractiveMessage } from './interactive';
+import { resolveOutboundMedia } from './media';
+import { applyPendingStatusUpdates } from './messageStatus';
+import { isValidRecipient } from './phoneConfig';
+import { consumeSendToken } from './rateLimit';
+import { assertServiceWindowOpen } from './serviceWindow';
+import { resolveTemplate } from './templates';
+import { WhatsAppService } from './whatsappService';
+
+export interface SendWhatsAppResult {
+  success: true;
+  messageId?: string;
+  // Set when the idempotency key was already sent; messageId is the original send's
+  duplicate?: boolean;
+}
+
+export interface SendCallerContext {
+  channel: SendChannel;
+  // Custom claims from the caller's ID token
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Record the provider ID on the chat message the caller sent, so status
+ * callbacks can find it. `messageId` comes from the client, so a message that
+ * isn't the caller's own in the authorized conversation is left alone.
+ * Returns whether the message was linked.
+ */
+export const linkChatMessage = async (
+  sender: AuthorizedSender,
+  messageId: string,
+  whatsappMessageId: string,
+  db: Firestore = getFirestore()
+): Promise<boolean> => {
+  const messageRef = db.collection('chat_messages').doc(messageId);
+  const message = (await messageRef.get()).data();
+
+  if (!message || message.conversationId !== sender.conversationId || message.senderId !== sender.uid) {
+    logger.warn('Not linking a chat message the caller did not send in this conversation', {
+      messageId,
+      uid: sender.uid,
+      conversationId: sender.conversationId,
+    });
+    return false;
+  }
+
+  await messageRef.update({
+    whatsappMessageId,
+    deliveryState: 'sent',
+    deliveryError: FieldValue.delete(),
+  });
+  await applyPendingStatusUpdates(messageRef, whatsappMessageId);
+  return true;
+};
+
+/**
+ * Validation, authorization and sending shared by the `sendWhatsAppMessage`
+ * callable and its `sendWhatsAppMessageHttp` counterpart. The caller must
+ * already be authenticated. Every attempt is recorded in `message_audit`.
+ * Requests carrying an `idempotencyKey` are sent at most once per key.
+ * Throws HttpsError so both entry points report the same error codes.
+ */
+export const sendWhatsAppForUser = async (
+  uid: string,
+  data: unknown,
+  caller: SendCallerContext = { channel: 'callable' }
+): Promise<SendWhatsAppResult> => {
+  const audit: SendAuditRecord = { uid, channel: caller.channel, outcome: 'failed' };
+  let claimedKey: string | undefined;
+
+  try {
+    // 1. Validate request data: a free-form message, a registered template,
+    //    an uploaded file or an interactive message
+    const {
+      to,
+      message,
+      template,
+      media,
+      interactive,
+      messageId,
+      conversationId,
+      idempotencyKey,
+    } = (data || {}) as Record<string, unknown>;
+
+    if (!to || (!message && !template && !media && !interactive)) {
+      throw new HttpsError('invalid-argument', 'Missing required fields: to, and message, template, media or interactive');
+    }
+
+    if (typeof to !== 'string' || (message !== undefined && typeof message !== 'string')) {
+      throw new HttpsError('invalid-argument', 'Invalid field types: to and message must be strings');
+    }
+
+    if (!isValidRecipient(to)) {
+      throw new HttpsError('invalid-argument', `Invalid phone number: ${to}`);
+    }
+
+    if (!template && !media && !interactive && (message as string).trim().length === 0) {
+      throw new HttpsError('invalid-argument', 'Message cannot be empty');
+    }
+
+    if (messageId !== undefined && typeof messageId !== 'string') {
+      throw new HttpsError('invalid-argument', 'Invalid field type: messageId must be a string');
+    }
+
+    if (conversationId !== undefined && typeof conversationId !== 'string') {
+      throw new HttpsError('invalid-argument', 'Invalid field type: conversationId must be a string');
+    }
+
+    if (idempotencyKey !== undefined && !isValidIdempotencyKey(idempotencyKey)) {
+      throw new HttpsError('invalid-argument', 'Invalid idempotencyKey: use 8-128 letters, digits, "-" or "_"');
+    }
+
+    audit.to = to.replace(/\D/g, '');
+    audit.messageId = messageId;
+    audit.kind = template ? 'template' : media ? 'media' : interactive ? 'interactive' : 'text';
+
+    // 2. Check the caller's role and access to the recipient's conversation
+    const sender = await authorizeSend(uid, to, conversationId, caller.claims);
+    audit.role = sender.role;
+    audit.conversationId = sender.conversationId;
+
+    // Customers who replied STOP only get messages again after an owner override
+    await assertNotOptedOut(to);
+
+    // Double clicks and the client's callable-to-HTTP fallback reuse the key;
+    // answer repeats with the original result instead of sending again
+    if (idempotencyKey) {
+      const claim = await claimSendRequest(uid, idempotencyKey);
+
+      if (claim.duplicate) {
+        await recordSendAudit({ ...audit, outcome: 'duplicate', whatsappMessageId: claim.messageId });
+        return { success: true, messageId: claim.messageId, duplicate: true };
+      }
+
+      claimedKey = idempotencyKey;
+    }
+
+    const templateMessage = template ? await resolveTemplate(template) : undefined;
+    const mediaMessage = !templateMessage && media
+      ? await resolveOutboundMedia(media, (message as string | undefined) || undefined)
+      : undefined;
+    const interactiveMessage = !templateMessage && !mediaMessage && interactive
+      ? parseInteractiveMessage(interactive)
+      : undefined;
+
+    // Free-form messages are only accepted inside the 24-hour service window
+    if (!templateMessage) {
+      await assertServiceWindowOpen(to, sender.conversationId);
+    }
+
+    // 3. Get WhatsApp credentials from environment
+    const whatsappToken = process.env.WHATSAPP_API_TOKEN || process.env.VITE_WHATSAPP_API_TOKEN;
+    const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || process.env.VITE_WHATSAPP_PHONE_NUMBER_ID;
+
+    if (!whatsappToken || !phoneNumberId) {
+      logger.error('WhatsApp credentials not configured', {
+        hasToken: !!whatsappToken,
+        hasPhoneId: !!phoneNumberId
+      });
+      throw new HttpsError('failed-precondition', 'WhatsApp API credentials not configured on server');
+    }
+
+    // Spend a token from the caller's, recipient's and number's send buckets
+    await consumeSendToken({ uid, recipient: to, phoneNumberId });
+
+    logger.info('Sending WhatsApp message', {
+      to: to.replace(/\d/g, '*'), // Mask phone number for privacy
+      ...(templateMessage
+        ? { template: templateMessage.name }
+        : mediaMessage
+          ? { mediaKind: mediaMessage.kind }
+          : interactiveMessage
+            ? { interactiveType: interactiveMessage.type }
+            : { messageLength: (message as string).length }),
+    });
+
+    // 4. Initialize WhatsApp service and send message
+    const whatsappService = new WhatsAppService(phoneNumberId, whatsappToken);
+    const whatsappResponse = templateMessage
+      ? await whatsappService.sendTemplate(to, templateMessage)
+      : mediaMessage
+        ? await whatsappService.sendMedia(to, mediaMessage)
+        : interactiveMessage
+          ? await whatsappService.sendInteractive(to, interactiveMessage)
+          : await whatsappService.sendMessage(to, message as string);
+
+    logger.info('WhatsApp message sent successfully', {
+      messageId: whatsappResponse.messages[0]?.id,
+    });
+
+    // 5. Link the chat message to the provider ID so status callbacks can find it
+    if (messageId && whatsappResponse.messages[0]?.id) {
+      try {
+        await linkChatMessage(sender, messageId, whatsappResponse.messages[0].id);
+      } catch (linkError) {
+        // The message was already sent, so don't report the send as failed
+        logger.warn('Failed to link chat message to WhatsApp message ID', { messageId, linkError });
+      }
+    }
+
+    if (claimedKey) {
+      await completeSendRequest(uid, claimedKey, whatsappResponse.messages[0]?.id);
+    }
+
+    await recordSendAudit({
+      ...audit,
+      outcome: 'sent',
+      whatsappMessageId: whatsappResponse.messages[0]?.id,
+    });
+
+    return {
+      success: true,
+      messageId: whatsappResponse.messages[0]?.id,
+    };
+
+  } catch (error) {
+    logger.error('Failed to send WhatsApp message', {
+      error,
+      uid
+    });
+
+    if (claimedKey) {
+      await releaseSendRequest(uid, claimedKey);
+    }
+
+    const denied = error instanceof HttpsError && error.code === 'permission-denied';
+    const limited = error instanceof HttpsError && error.code === 'resource-exhausted';
+    await recordSendAudit({
+      ...audit,
+      outcome: denied ? 'denied' : limited ? 'rate_limited' : 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.message.includes('WhatsApp API Error')) {
+      throw new HttpsError('internal', `WhatsApp API Error: ${error.message}`);
+    }
+
+    throw new HttpsError('internal', 'An unexpected error occurred while sending the message.');
+  }
+};
@@ -0,0 +1,56 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions';
+import { Firestore, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { toWhatsAppRecipient } from './phoneConfig';
+
+const CONVERSATIONS_COLLECTION = 'conversations';
+
+// WhatsApp accepts free-form replies for 24 hours after the customer's last message;
+// after that only approved templates can be sent. Mirrors src/lib/serviceWindow.ts.
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const SERVICE_WINDOW_CLOSED = 'service-window-closed';
+
+export const serviceWindowFields = (lastInboundAt: Date) => ({
+  lastInboundAt: Timestamp.fromDate(lastInboundAt),
+  serviceWindowExpiresAt: Timestamp.fromMillis(lastInboundAt.getTime() + SERVICE_WINDOW_MS),
+});
+
+/**
+ * Throw `failed-precondition` if the conversation's service window is known to
+ * have closed. Conversations we can't find, or that predate `lastInboundAt`
+ * tracking, are let through and left to the WhatsApp API to judge.
+ */
+export const assertServiceWindowOpen = async (
+  to: string,
+  conversationId?: string,
+  now: Date = new Date(),
+  db: Firestore = getFirestore()
+): Promise<void> => {
+  const digits = toWhatsAppRecipient(to);
+
+  let conversation = (await db.collection(CONVERSATIONS_COLLECTION).doc(conversationId || digits).get()).data();
+
+  if (!conversation) {
+    const matches = await db.collection(CONVERSATIONS_COLLECTION)
+      .where('customerPhone', '==', to)
+      .limit(1)
+      .get();
+    conversation = matches.docs[0]?.data();
+  }
+
+  const expiresAt: Timestamp | undefined = conversation?.serviceWindowExpiresAt;
+
+  if (!expiresAt) {
+    logger.info('Service window unknown, deferring to WhatsApp API', { hasConversation: !!conversation });
+    return;
+  }
+
+  if (expiresAt.toMillis() <= now.getTime()) {
+    throw new HttpsError(
+      'failed-precondition',
+      'The customer service window has closed; only template messages can be sent',
+      { reason: SERVICE_WINDOW_CLOSED, serviceWindowExpiresAt: expiresAt.toDate().toISOString() }
+    );
+  }
+};
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  describeShortages,
+  findShortages,
+  inventoryItemId,
+  stockAllocations,
+  stockDelta,
+  validateStockMovement,
+} from './stock';
+
+test('inventoryItemId keys variants by product, size and color', () => {
+  assert.equal(inventoryItemId({ productId: 'hoodie', size: 'M', color: 'Heather Grey' }), 'hoodie__m__heather-grey');
+  assert.equal(inventoryItemId({ productId: 'hoodie', size: ' m ' }), 'hoodie__m__any');
+  assert.equal(inventoryItemId({ productId: 'tote' }), 'tote__any__any');
+});
+
+test('stockDelta signs restocks, returns and sales by their type', () => {
+  assert.equal(stockDelta('restock', 5), 5);
+  assert.equal(stockDelta('return', -1), 1);
+  assert.equal(stockDelta('sale', 2), -2);
+  assert.equal(stockDelta('adjustment', -3), -3);
+});
+
+test('validateStockMovement rejects fractional, zero and overselling movements', () => {
+  assert.equal(validateStockMovement('sale', 2, 2), null);
+  assert.match(validateStockMovement('sale', 3, 2) ?? '', /Only 2 in stock/);
+  assert.match(validateStockMovement('adjustment', -1, 0) ?? '', /Only 0 in stock/);
+  assert.match(validateStockMovement('restock', 0, 5) ?? '', /whole number/);
+  assert.match(validateStockMovement('restock', 1.5, 5) ?? '', /whole number/);
+});
+
+test('stockAllocations sums line items per variant and skips untracked items', () => {
+  const allocations = stockAllocations([
+    { productId: 'hoodie', name: 'Hoodie', size: 'M', quantity: 1 },
+    { name: 'Gift wrap', quantity: 1 },
+    { productId: 'hoodie', name: 'Hoodie', size: 'm', quantity: 2 },
+    { productId: 'tote', name: 'Tote', quantity: 1 },
+  ]);
+
+  assert.deepEqual(allocations, [
+    { itemId: 'hoodie__m__any', productId: 'hoodie', size: 'M', name: 'Hoodie', quantity: 3 },
+    { itemId: 'tote__any__any', productId: 'tote', name: 'Tote', quantity: 1 },
+  ]);
+});
+
+test('findShortages compares allocations with stock that is not already reserved', () => {
+  const allocations = stockAllocations([
+    { productId: 'hoodie', name: 'Hoodie', size: 'M', color: 'Black', quantity: 2 },
+    { productId: 'tote', name: 'Tote', quantity: 1 },
+    { productId: 'cap', name: 'Cap', quantity: 1 },
+  ]);
+  const shortages = findShortages(allocations, {
+    hoodie__m__black: { onHand: 5, reserved: 4 },
+    tote__any__any: { onHand: 1, reserved: 0 },
+  });
+
+  assert.deepEqual(shortages.map(({ itemId, available }) => [itemId, available]), [
+    ['hoodie__m__black', 1],
+    ['cap__any__any', 0],
+  ]);
+  assert.equal(
+    describeShortages(shortages),
+    'Not enough stock: Hoodie M / Black (2 needed, 1 available), Cap (1 needed, 0 available)'
+  );
+});
@@ -0,0 +1,167 @@
+/**
+ * Stock levels and movements shared by the functions and the dashboard
+ * (src/lib/stock.ts re-exports it). Kept free of imports so both builds can
+ * compile it.
+ *
+ * Each product variant (size and color) has one `inventory` document holding
+ * its on-hand count. Every change is written in the same transaction as an
+ * entry in the append-only `stock_movements` ledger.
+ *
+ * Confirmed orders also hold a `reserved` count on the variants they need.
+ * Reserving doesn't move stock, so it isn't in the ledger; what is left to
+ * sell is `onHand - reserved`.
+ */
+
+export const INVENTORY_COLLECTION = 'inventory';
+export const STOCK_MOVEMENTS_COLLECTION = 'stock_movements';
+
+export const STOCK_MOVEMENT_TYPES = ['restock', 'sale', 'return', 'adjustment'] as const;
+
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  restock: 'Restock',
+  sale: 'Sale',
+  return: 'Return',
+  adjustment: 'Adjustment',
+};
+
+export const MAX_MOVEMENT_REASON_LENGTH = 500;
+
+export interface StockVariant {
+  productId: string;
+  size?: string;
+  color?: string;
+}
+
+const idPart = (value?: string) => value?.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-') || 'any';
+
+// "hoodie123__m__black"; variants without a size or color use "any"
+export const inventoryItemId = ({ productId, size, color }: StockVariant): string => {
+  return [productId, idPart(size), idPart(color)].join('__');
+};
+
+export const isStockMovementType = (value: unknown): value is StockMovementType => {
+  return typeof value === 'string' && (STOCK_MOVEMENT_TYPES as readonly string[]).includes(value);
+};
+
+/**
+ * The change to on-hand stock for a movement. Restocks and returns add and
+ * sales remove, whatever sign `quantity` has; adjustments keep theirs.
+ */
+export const stockDelta = (type: StockMovementType, quantity: number): number => {
+  switch (type) {
+    case 'restock':
+    case 'return':
+      return Math.abs(quantity);
+    case 'sale':
+      return -Math.abs(quantity);
+    default:
+      return quantity;
+  }
+};
+
+/**
+ * Check a movement against the current on-hand count, returning why it is
+ * not allowed or null when it is. Stock can't go below zero.
+ */
+export const validateStockMovement = (
+  type: StockMovementType,
+  quantity: number,
+  onHand: number,
+  reason?: string
+): string | null => {
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    return 'Quantity must be a whole number other than 0';
+  }
+
+  if (reason && reason.length > MAX_MOVEMENT_REASON_LENGTH) {
+    return `Reason must be at most ${MAX_MOVEMENT_REASON_LENGTH} characters`;
+  }
+
+  if (onHand + stockDelta(type, quantity) < 0) {
+    return `Only ${onHand} in stock`;
+  }
+
+  return null;
+};
+
+export interface StockLevel {
+  onHand: number;
+  reserved: number;
+}
+
+// Negative when more is reserved than is on hand
+export const availableStock = ({ onHand, reserved }: StockLevel): number => onHand - reserved;
+
+// An order's claim on one variant, summed over the line items for it
+export interface StockAllocation extends StockVariant {
+  itemId: string;
+  // The line item's name, for messages and for creating a missing inventory item
+  name: string;
+  quantity: number;
+}
+
+// Order line items as far as stock is concerned
+export interface StockLine extends Partial<StockVariant> {
+  name: string;
+  quantity: number;
+}
+
+/**
+ * What an order's line items need from stock, one allocation per variant.
+ * Items without a catalog product aren't tracked and are left out.
+ */
+export const stockAllocations = (items: StockLine[]): StockAllocation[] => {
+  const allocations = new Map<string, StockAllocation>();
+
+  for (const { productId, size, color, name, quantity } of items) {
+    if (!productId || !(quantity > 0)) continue;
+
+    const itemId = inventoryItemId({ productId, size, color });
+    const existing = allocations.get(itemId);
+
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      allocations.set(itemId, {
+        itemId,
+        productId,
+        ...(size && { size }),
+        ...(color && { color }),
+        name,
+        quantity,
+      });
+    }
+  }
+
+  return [...allocations.values()];
+};
+
+export interface StockShortage extends StockAllocation {
+  available: number;
+}
+
+/**
+ * The allocations that available stock can't cover. Variants without an
+ * inventory item have none available.
+ */
+export const findShortages = (
+  allocations: StockAllocation[],
+  levels: Record<string, StockLevel | undefined>
+): StockShortage[] => {
+  return allocations.flatMap((allocation) => {
+    const level = levels[allocation.itemId];
+    const available = level ? Math.max(availableStock(level), 0) : 0;
+    return available < allocation.quantity ? [{ ...allocation, available }] : [];
+  });
+};
+
+// "Not enough stock: Hoodie M / Black (2 needed, 1 available)"
+export const describeShortages = (shortages: StockShortage[]): string => {
+  const parts = shortages.map(({ name, size, color, quantity, available }) => {
+    const variant = [size, color].filter(Boolean).join(' / ');
+    return `${variant ? `${name} ${variant}` : name} (${quantity} needed, ${available} available)`;
+  });
+  return `Not enough stock: ${parts.join(', ')}`;
+};
@@ -0,0 +1,45 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+import { TemplateMessage } from './whatsappService';
+
+const TEMPLATES_COLLECTION = 'message_templates';
+
+/**
+ * Validate a template send against the `message_templates` registry: the
+ * template must exist and be active for that language, and every body
+ * placeholder must have a non-empty value.
+ */
+export const resolveTemplate = async (data: unknown, db: Firestore = getFirestore()): Promise<TemplateMessage> => {
+  const { name, language, parameters = [] } = (data || {}) as Record<string, unknown>;
+
+  if (typeof name !== 'string' || typeof language !== 'string' || !Array.isArray(parameters)) {
+    throw new HttpsError('invalid-argument', 'Invalid template: name and language must be strings, parameters an array');
+  }
+
+  if (parameters.some(value => typeof value !== 'string' || value.trim().length === 0)) {
+    throw new HttpsError('invalid-argument', 'Template parameters must be non-empty strings');
+  }
+
+  const matches = await db.collection(TEMPLATES_COLLECTION)
+    .where('name', '==', name)
+    .where('language', '==', language)
+    .limit(1)
+    .get();
+
+  const template = matches.docs[0]?.data();
+
+  if (!template || template.isActive === false) {
+    throw new HttpsError('not-found', `Template ${name} (${language}) is not registered`);
+  }
+
+  const expectedParameters = (template.parameters || []).length;
+
+  if (parameters.length !== expectedParameters) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Template ${name} expects ${expectedParameters} parameters, got ${parameters.length}`
+    );
+  }
+
+  return { name, language, parameters: parameters as string[] };
+};
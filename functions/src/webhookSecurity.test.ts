@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { asFirestore, createFakeFirestore } from './fakeFirestore';
+import { DEFAULT_CONSENT_KEYWORDS } from './consent';
+import { InboundMessage, persistInboundMessage } from './inboundWebhook';
+import { applyStatusUpdate, parseStatusUpdates } from './messageStatus';
+import { isStaleEvent, verifySignature, webhookEventRecord } from './webhookSecurity';
+
+// A delivery callback as Meta sends it, signed with APP_SECRET
+const APP_SECRET = 'test-app-secret';
+const RAW_BODY = '{"object":"whatsapp_business_account","entry":[{"id":"waba-1","changes":[{"field":"messages",'
+  + '"value":{"messaging_product":"whatsapp","statuses":[{"id":"wamid.out1","status":"delivered",'
+  + '"timestamp":"1760000000","recipient_id":"6591234567"}]}}]}]}';
+const SIGNATURE = 'sha256=9a41c4272c295532780ace8df2a1d18918e1bf9eaa30a03176fe65422fc1b9ae';
+const EVENT_TIME = new Date(1760000000 * 1000);
+
+test('verifySignature accepts the body Meta signed', () => {
+  assert.equal(verifySignature(RAW_BODY, SIGNATURE, APP_SECRET), null);
+  assert.equal(verifySignature(Buffer.from(RAW_BODY), SIGNATURE, APP_SECRET), null);
+});
+
+test('verifySignature rejects a tampered body or the wrong secret', () => {
+  const tampered = RAW_BODY.replace('"delivered"', '"read"');
+
+  assert.equal(verifySignature(tampered, SIGNATURE, APP_SECRET), 'invalid-signature');
+  assert.equal(verifySignature(RAW_BODY, SIGNATURE, 'other-secret'), 'invalid-signature');
+  assert.equal(verifySignature(RAW_BODY, 'sha256=abc123', APP_SECRET), 'invalid-signature');
+});
+
+test('verifySignature rejects a missing or malformed header', () => {
+  assert.equal(verifySignature(RAW_BODY, undefined, APP_SECRET), 'missing-signature');
+  assert.equal(verifySignature(RAW_BODY, '', APP_SECRET), 'missing-signature');
+  assert.equal(verifySignature(RAW_BODY, SIGNATURE.replace('sha256=', 'sha1='), APP_SECRET), 'missing-signature');
+});
+
+test('isStaleEvent rejects events older than the allowed age', () => {
+  const hour = 60 * 60 * 1000;
+
+  assert.equal(isStaleEvent(EVENT_TIME, new Date(EVENT_TIME.getTime() + 24 * hour)), false);
+  assert.equal(isStaleEvent(EVENT_TIME, new Date(EVENT_TIME.getTime() + 24 * hour + 1)), true);
+  assert.equal(isStaleEvent(EVENT_TIME, new Date(EVENT_TIME.getTime() + 2 * hour), hour), true);
+});
+
+test('webhookEventRecord keeps dedupe records as long as events are accepted', () => {
+  const record = webhookEventRecord('status', EVENT_TIME);
+
+  assert.equal(record.eventType, 'status');
+  assert.equal(record.expiresAt.toMillis() - record.receivedAt.toMillis(), 24 * 60 * 60 * 1000);
+});
+
+test('a replayed status callback is reported as a duplicate', async () => {
+  const db = createFakeFirestore();
+  await db.collection('chat_messages').doc('message-1').set({
+    conversationId: 'conversation-1',
+    whatsappMessageId: 'wamid.out1',
+    status: 'sent',
+  });
+
+  const [update] = parseStatusUpdates(JSON.parse(RAW_BODY));
+  assert.equal(update.timestamp.getTime(), EVENT_TIME.getTime());
+
+  const first = await applyStatusUpdate(update, asFirestore(db));
+  const replay = await applyStatusUpdate(update, asFirestore(db));
+
+  assert.deepEqual(first, { outcome: 'applied', messageId: 'message-1' });
+  assert.deepEqual(replay, { outcome: 'duplicate' });
+  assert.equal(db.data('chat_messages/message-1')?.status, 'delivered');
+  assert.equal(db.data('webhook_events/wamid.out1:delivered')?.eventType, 'status');
+});
+
+test('a replayed inbound message is stored once', async () => {
+  const db = createFakeFirestore();
+  const message: InboundMessage = {
+    whatsappMessageId: 'wamid.in1',
+    from: '6591234567',
+    phone: '+6591234567',
+    customerName: 'Mei',
+    content: 'Is the blue dress in stock?',
+    messageType: 'text',
+    timestamp: EVENT_TIME,
+  };
+
+  const first = await persistInboundMessage(message, DEFAULT_CONSENT_KEYWORDS, asFirestore(db));
+  const replay = await persistInboundMessage(message, DEFAULT_CONSENT_KEYWORDS, asFirestore(db));
+
+  assert.ok(first);
+  assert.equal(replay, null);
+  assert.equal(db.documentsIn('chat_messages').length, 1);
+  assert.equal(db.data('conversations/6591234567')?.unreadCount, 1);
+});
@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+
+const WEBHOOK_EVENTS_COLLECTION = 'webhook_events';
+const SIGNATURE_PREFIX = 'sha256=';
+
+// Events older than this are rejected, and dedupe records live exactly as long
+// so any replay inside the accepted window is still caught.
+export const DEFAULT_MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export type RejectionReason = 'missing-signature' | 'invalid-signature' | 'stale-event' | 'duplicate-event';
+
+/**
+ * Check the `X-Hub-Signature-256` header Meta sends with every webhook call.
+ * The signature is an HMAC-SHA256 of the raw request body keyed with the app secret.
+ */
+export const verifySignature = (
+  rawBody: Buffer | string,
+  signatureHeader: string | undefined,
+  appSecret: string
+): RejectionReason | null => {
+  if (!signatureHeader || !signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return 'missing-signature';
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody).digest();
+  const received = Buffer.from(signatureHeader.slice(SIGNATURE_PREFIX.length), 'hex');
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return 'invalid-signature';
+  }
+
+  return null;
+};
+
+export const isStaleEvent = (
+  eventTime: Date,
+  now: Date = new Date(),
+  maxAgeMs: number = DEFAULT_MAX_EVENT_AGE_MS
+): boolean => {
+  return now.getTime() - eventTime.getTime() > maxAgeMs;
+};
+
+export const getMaxEventAgeMs = (): number => {
+  const configured = Number(process.env.WHATSAPP_WEBHOOK_MAX_AGE_SECONDS);
+  return configured > 0 ? configured * 1000 : DEFAULT_MAX_EVENT_AGE_MS;
+};
+
+/**
+ * Reference to the dedupe record for a provider event ID.
+ * Configure a Firestore TTL policy on `expiresAt` so records clean themselves up.
+ */
+export const webhookEventRef = (db: Firestore, eventId: string) => {
+  return db.collection(WEBHOOK_EVENTS_COLLECTION).doc(eventId);
+};
+
+export const webhookEventRecord = (eventType: string, now: Date = new Date()) => ({
+  eventType,
+  receivedAt: Timestamp.fromDate(now),
+  expiresAt: Timestamp.fromMillis(now.getTime() + getMaxEventAgeMs()),
+});
@@ -1,4 +1,6 @@
-interface WhatsAppMessage {
+import { toWhatsAppRecipient } from './phoneConfig';
+
+interface WhatsAppTextMessage {
   messaging_product: 'whatsapp';
   to: string;
   type: 'text';
@@ -7,7 +9,107 @@ interface WhatsAppMessage {
   };
 }
 
-interface WhatsAppResponse {
+interface WhatsAppTemplateMessage {
+  messaging_product: 'whatsapp';
+  to: string;
+  type: 'template';
+  template: {
+    name: string;
+    language: {
+      code: string;
+    };
+    components?: Array<{
+      type: 'body';
+      parameters: Array<{
+        type: 'text';
+        text: string;
+      }>;
+    }>;
+  };
+}
+
+interface WhatsAppMediaMessage {
+  messaging_product: 'whatsapp';
+  to: string;
+  type: MediaKind;
+  image?: WhatsAppMediaObject;
+  audio?: WhatsAppMediaObject;
+  document?: WhatsAppMediaObject;
+}
+
+interface WhatsAppMediaObject {
+  link: string;
+  caption?: string;
+  filename?: string;
+}
+
+interface WhatsAppInteractiveMessage {
+  messaging_product: 'whatsapp';
+  to: string;
+  type: 'interactive';
+  interactive: {
+    type: 'button' | 'list';
+    body: {
+      text: string;
+    };
+    action: {
+      buttons?: Array<{
+        type: 'reply';
+        reply: { id: string; title: string };
+      }>;
+      button?: string;
+      sections?: Array<{
+        rows: Array<{ id: string; title: string; description?: string }>;
+      }>;
+    };
+  };
+}
+
+type WhatsAppMessage =
+  | WhatsAppTextMessage
+  | WhatsAppTemplateMessage
+  | WhatsAppMediaMessage
+  | WhatsAppInteractiveMessage;
+
+export type MediaKind = 'image' | 'audio' | 'document';
+
+// A file WhatsApp fetches from `link` and delivers as an image, voice note or document
+export interface MediaMessage {
+  kind: MediaKind;
+  link: string;
+  caption?: string;
+  filename?: string;
+}
+
+// Reply buttons (up to 3) or a list picker; the customer's choice comes back
+// on the webhook as a button_reply or list_reply carrying the option ID
+export interface InteractiveMessage {
+  type: 'button' | 'list';
+  body: string;
+  buttonText?: string;
+  options: InteractiveOption[];
+}
+
+export interface InteractiveOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface DownloadedMedia {
+  data: Buffer;
+  mimeType: string;
+}
+
+// A pre-approved (HSM) template; the only kind of message Meta accepts once
+// the customer's 24-hour service window has closed
+export interface TemplateMessage {
+  name: string;
+  language: string;
+  parameters: string[];
+}
+
+export interface WhatsAppResponse {
   messaging_product: string;
   contacts: Array<{
     input: string;
@@ -18,21 +120,59 @@ interface WhatsAppResponse {
   }>;
 }
 
-export class WhatsAppService {
-  private readonly baseUrl = 'https://graph.facebook.com/v22.0';
+export class WhatsAppApiError extends Error {
+  readonly status: number;
+  readonly code?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, message: string, code?: number, retryAfterMs?: number) {
+    super(`WhatsApp API Error: ${status} - ${message}`);
+    this.name = 'WhatsAppApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Throttling and server-side failures are worth another attempt; other 4xx are not
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+// Anything that can deliver messages and fetch inbound media; lets the outbox
+// and webhook run against a fake
+export interface WhatsAppSender {
+  sendMessage(to: string, message: string): Promise<WhatsAppResponse>;
+  sendTemplate(to: string, template: TemplateMessage): Promise<WhatsAppResponse>;
+  sendMedia(to: string, media: MediaMessage): Promise<WhatsAppResponse>;
+  sendInteractive(to: string, interactive: InteractiveMessage): Promise<WhatsAppResponse>;
+  downloadMedia(mediaId: string, maxBytes?: number): Promise<DownloadedMedia>;
+}
+
+export const DEFAULT_WHATSAPP_API_BASE_URL = 'https://graph.facebook.com/v22.0';
+
+// WHATSAPP_API_BASE_URL points the functions at another Graph host, such as
+// the local mock (mockWhatsAppServer.ts) in the emulator and tests
+export const getWhatsAppApiBaseUrl = (): string => {
+  return (process.env.WHATSAPP_API_BASE_URL || DEFAULT_WHATSAPP_API_BASE_URL).replace(/\/+$/, '');
+};
+
+export class WhatsAppService implements WhatsAppSender {
+  private readonly baseUrl: string;
   private phoneNumberId: string;
   private accessToken: string;
 
-  constructor(phoneNumberId: string, accessToken: string) {
+  constructor(phoneNumberId: string, accessToken: string, baseUrl: string = getWhatsAppApiBaseUrl()) {
     this.phoneNumberId = phoneNumberId;
     this.accessToken = accessToken;
+    this.baseUrl = baseUrl;
   }
 
   async sendMessage(to: string, message: string): Promise<WhatsAppResponse> {
-    // Format phone number (remove any non-digits and ensure it starts with country code)
-    const formattedPhone = to.replace(/\D/g, '');
+    // Format phone number (international digits, using the default country for national numbers)
+    const formattedPhone = toWhatsAppRecipient(to);
     
-    const messageData: WhatsAppMessage = {
+    const messageData: WhatsAppTextMessage = {
       messaging_product: 'whatsapp',
       to: formattedPhone,
       type: 'text',
@@ -41,6 +181,105 @@ export class WhatsAppService {
       }
     };
 
+    return this.post(messageData);
+  }
+
+  async sendTemplate(to: string, template: TemplateMessage): Promise<WhatsAppResponse> {
+    const messageData: WhatsAppTemplateMessage = {
+      messaging_product: 'whatsapp',
+      to: toWhatsAppRecipient(to),
+      type: 'template',
+      template: {
+        name: template.name,
+        language: {
+          code: template.language
+        },
+        ...(template.parameters.length > 0 && {
+          components: [{
+            type: 'body',
+            parameters: template.parameters.map(text => ({ type: 'text', text })),
+          }],
+        }),
+      }
+    };
+
+    return this.post(messageData);
+  }
+
+  async sendMedia(to: string, media: MediaMessage): Promise<WhatsAppResponse> {
+    const messageData: WhatsAppMediaMessage = {
+      messaging_product: 'whatsapp',
+      to: toWhatsAppRecipient(to),
+      type: media.kind,
+      [media.kind]: {
+        link: media.link,
+        ...(media.caption && { caption: media.caption }),
+        ...(media.filename && { filename: media.filename }),
+      },
+    };
+
+    return this.post(messageData);
+  }
+
+  async sendInteractive(to: string, interactive: InteractiveMessage): Promise<WhatsAppResponse> {
+    const messageData: WhatsAppInteractiveMessage = {
+      messaging_product: 'whatsapp',
+      to: toWhatsAppRecipient(to),
+      type: 'interactive',
+      interactive: {
+        type: interactive.type,
+        body: {
+          text: interactive.body
+        },
+        action: interactive.type === 'button'
+          ? {
+            buttons: interactive.options.map(option => ({
+              type: 'reply',
+              reply: { id: option.id, title: option.title },
+            })),
+          }
+          : {
+            button: interactive.buttonText,
+            sections: [{ rows: interactive.options }],
+          },
+      }
+    };
+
+    return this.post(messageData);
+  }
+
+  // Inbound media is a two-step fetch: the media ID resolves to a short-lived
+  // URL, which itself needs the access token to download
+  async downloadMedia(mediaId: string, maxBytes?: number): Promise<DownloadedMedia> {
+    const metadataResponse = await fetch(`${this.baseUrl}/${mediaId}`, {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` },
+    });
+
+    if (!metadataResponse.ok) {
+      throw await this.toApiError(metadataResponse);
+    }
+
+    const metadata: { url: string; mime_type: string; file_size?: number } = await metadataResponse.json();
+
+    if (maxBytes !== undefined && Number(metadata.file_size) > maxBytes) {
+      throw new Error(`Media ${mediaId} is ${metadata.file_size} bytes, over the ${maxBytes} byte limit`);
+    }
+
+    const fileResponse = await fetch(metadata.url, {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` },
+    });
+
+    if (!fileResponse.ok) {
+      throw await this.toApiError(fileResponse);
+    }
+
+    return {
+      data: Buffer.from(await fileResponse.arrayBuffer()),
+      mimeType: metadata.mime_type,
+    };
+  }
+
+  private async post(messageData: WhatsAppMessage): Promise<WhatsAppResponse> {
     const response = await fetch(`${this.baseUrl}/${this.phoneNumberId}/messages`, {
       method: 'POST',
       headers: {
@@ -51,23 +290,25 @@ export class WhatsAppService {
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`WhatsApp API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+      throw await this.toApiError(response);
     }
 
     return response.json();
   }
 
+  private async toApiError(response: Response): Promise<WhatsAppApiError> {
+    const errorData = await response.json().catch(() => ({}));
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return new WhatsAppApiError(
+      response.status,
+      errorData.error?.message || 'Unknown error',
+      errorData.error?.code,
+      retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+
+  // Kept for existing callers; see phoneConfig.ts for the default country
   static formatPhoneNumber(phone: string): string {
-    // Remove all non-digits
-    let cleaned = phone.replace(/\D/g, '');
-    
-    // If it doesn't start with country code, assume it's a local number
-    // You may need to adjust this based on your region
-    if (!cleaned.startsWith('1') && cleaned.length === 10) {
-      cleaned = '1' + cleaned; // Add US country code as default
-    }
-    
-    return cleaned;
+    return toWhatsAppRecipient(phone);
   }
 }
\ No newline at end of file
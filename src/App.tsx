@@ -9,6 +9,8 @@ import { RoleProtectedRoute } from "@/components/auth/RoleProtectedRoute";
 import Index from "./pages/Index";
 import OperatorDashboard from "./pages/OperatorDashboard";
 import BusinessOwnerDashboard from "./pages/BusinessOwnerDashboard";
+import CampaignsPage from "./pages/CampaignsPage";
+import CampaignReportPage from "./pages/CampaignReportPage";
 import ChatDashboard from "./pages/ChatDashboard";
 import AuthPage from "./pages/AuthPage";
 import NotFound from "./pages/NotFound";
@@ -34,6 +36,20 @@ const App = () => (
                 </RoleProtectedRoute>
               </ProtectedRoute>
             } />
+            <Route path="/business-owner/campaigns" element={
+              <ProtectedRoute>
+                <RoleProtectedRoute allowedRoles={['business_owner']}>
+                  <CampaignsPage />
+                </RoleProtectedRoute>
+              </ProtectedRoute>
+            } />
+            <Route path="/business-owner/campaigns/:campaignId" element={
+              <ProtectedRoute>
+                <RoleProtectedRoute allowedRoles={['business_owner']}>
+                  <CampaignReportPage />
+                </RoleProtectedRoute>
+              </ProtectedRoute>
+            } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
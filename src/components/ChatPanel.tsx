@@ -3,12 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Send, X, Phone, User } from 'lucide-react';
+import { Send, X, Phone, User, MessageSquarePlus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { useAuth } from '@/contexts/AuthContext';
+import { WebhookChatService } from '@/services/webhookChatService';
+import { formatPhoneNumber } from '@/lib/phone';
+import { createIdempotencyKey, toOperatorMessageId } from '@/lib/idempotency';
 
 interface ChatMessage {
   id: string;
@@ -33,6 +36,24 @@ interface ChatPanelProps {
   onMessageSent?: () => void;
 }
 
+type FunctionsCallError = Error & {
+  code?: string;
+  details?: { reason?: string; retryAfterSeconds?: number };
+};
+
+const REJECTION_CODES = [
+  'functions/invalid-argument',
+  'functions/failed-precondition',
+  'functions/unauthenticated',
+  'functions/permission-denied',
+  'functions/resource-exhausted',
+  'functions/aborted',
+];
+
+const isRejectedByFunction = (error: unknown) => {
+  return REJECTION_CODES.includes((error as FunctionsCallError)?.code || '');
+};
+
 export const ChatPanel: React.FC<ChatPanelProps> = ({
   isOpen,
   onClose,
@@ -46,8 +67,33 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
   const [isSending, setIsSending] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
+  // Guards against a second send starting before isSending re-renders
+  const sendingRef = useRef(false);
+  // Key of the last message that didn't go through; resending the same text reuses it
+  const pendingSendRef = useRef<{ text: string; key: string } | null>(null);
+  // Sends need an existing conversation: null once we know there is none, undefined until looked up
+  const [conversationId, setConversationId] = useState<string | null | undefined>(undefined);
+  const [isStartingConversation, setIsStartingConversation] = useState(false);
   const { toast } = useToast();
-  const { currentUser } = useAuth();
+  const { currentUser, isBusinessOwner } = useAuth();
+
+  useEffect(() => {
+    let cancelled = false;
+    setConversationId(undefined);
+
+    WebhookChatService.findConversationByPhone(customer.phone)
+      .then(id => {
+        if (!cancelled) setConversationId(id);
+      })
+      .catch(error => {
+        // Leave it unknown; the function decides whether the send is allowed
+        console.error('Failed to look up conversation:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customer.phone]);
 
   // Sync with initialMessages when they change and merge with local messages by ID
   useEffect(() => {
@@ -90,15 +136,41 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
   }, [isOpen, customer.phone, webhookUrl, messages]);
   */
 
+  const startConversation = async () => {
+    setIsStartingConversation(true);
+
+    try {
+      setConversationId(await WebhookChatService.getOrCreateConversationByPhone(customer.phone, customer.name));
+    } catch (error) {
+      console.error('Failed to start conversation:', error);
+      toast({
+        title: "Failed to start conversation",
+        description: "There was an error creating the conversation. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStartingConversation(false);
+    }
+  };
+
   const sendMessage = async () => {
-    if (!newMessage.trim()) return;
+    const text = newMessage.trim();
+    if (!text || sendingRef.current || conversationId === null) return;
 
+    sendingRef.current = true;
     setIsSending(true);
+
+    // If an earlier attempt actually reached WhatsApp, reusing its key makes
+    // the function return that send instead of messaging the customer twice
+    const idempotencyKey = pendingSendRef.current?.text === text
+      ? pendingSendRef.current.key
+      : createIdempotencyKey();
+    pendingSendRef.current = { text, key: idempotencyKey };
     
     // Create the message object
     const messageToSend = {
-      id: `operator-${Date.now()}`,
-      message: newMessage.trim(),
+      id: toOperatorMessageId(idempotencyKey),
+      message: text,
       sender: 'operator' as const,
       timestamp: new Date().toISOString(),
       phone_number: customer.phone,
@@ -122,7 +194,9 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         const sendWhatsAppMessage = httpsCallable(functions, 'sendWhatsAppMessage');
         const result = await sendWhatsAppMessage({
           to: customer.phone,
-          message: messageToSend.message
+          message: messageToSend.message,
+          ...(conversationId && { conversationId }),
+          idempotencyKey,
         });
         response = result.data as {
           success: boolean;
@@ -130,6 +204,11 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
           contactId: string;
         };
       } catch (callableError) {
+        // The function rejected the request itself; the HTTP endpoint would give the same answer
+        if (isRejectedByFunction(callableError)) {
+          throw callableError;
+        }
+
         console.warn('Firebase Callable failed, trying HTTP endpoint:', callableError);
 
         // Fallback to HTTP endpoint
@@ -145,7 +224,9 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
           },
           body: JSON.stringify({
             to: customer.phone,
-            message: messageToSend.message
+            message: messageToSend.message,
+            ...(conversationId && { conversationId }),
+            idempotencyKey,
           }),
           mode: 'cors',
           credentials: 'omit'
@@ -153,14 +234,18 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
 
         if (!httpResponse.ok) {
           const errorData = await httpResponse.json().catch(() => ({}));
-          throw new Error(errorData.error || 'HTTP request failed');
+          throw Object.assign(new Error(errorData.error || 'HTTP request failed'), {
+            code: errorData.code ? `functions/${errorData.code}` : undefined,
+            details: errorData.details,
+          });
         }
 
         response = await httpResponse.json();
       }
 
-      // Save message to Firebase
-      await addDoc(collection(db, 'messages'), {
+      // Save message to Firebase under the optimistic ID, so the copy that comes
+      // back through the data sources replaces the local bubble
+      await setDoc(doc(db, 'messages', messageToSend.id), {
         id: messageToSend.id,
         message: messageToSend.message,
         sender: messageToSend.sender,
@@ -171,6 +256,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         whatsapp_message_id: response.messageId,
         delivery_status: 'sent'
       });
+      pendingSendRef.current = null;
 
       // Trigger refresh of data sources
       if (onMessageSent) {
@@ -191,7 +277,21 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
       let errorMessage = "There was an error sending your WhatsApp message. Please try again.";
       
       if (error instanceof Error) {
-        if (error.message.includes('credentials not configured')) {
+        const { details } = error as FunctionsCallError;
+
+        if (details?.reason === 'opted-out') {
+          errorMessage = "This customer has opted out of WhatsApp messages. A business owner can override this from the chat dashboard.";
+        } else if (details?.reason === 'service-window-closed') {
+          errorMessage = "The customer's 24-hour reply window has closed. Only approved templates can be sent until they message again.";
+        } else if (details?.reason === 'send-in-progress') {
+          errorMessage = "This message is still being sent. Send it again in a moment to confirm it went through.";
+        } else if (details?.reason === 'rate-limited') {
+          const seconds = details.retryAfterSeconds ?? 1;
+          errorMessage = `You're sending messages too quickly. Try again in ${seconds} second${seconds === 1 ? '' : 's'}.`;
+        } else if ((error as FunctionsCallError).code === 'functions/permission-denied') {
+          // The function explains which check failed (inactive account, role, conversation access)
+          errorMessage = error.message;
+        } else if (error.message.includes('credentials not configured')) {
           errorMessage = "WhatsApp API is not configured. Please contact your administrator.";
         } else if (error.message.includes('WhatsApp API Error')) {
           errorMessage = `WhatsApp Error: ${error.message.split(' - ')[1] || 'Unknown error'}`;
@@ -214,6 +314,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         variant: "destructive",
       });
     } finally {
+      sendingRef.current = false;
       setIsSending(false);
     }
   };
@@ -252,7 +353,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
               </h3>
               <div className="flex items-center space-x-1 text-xs text-primary-foreground/80">
                 <Phone className="h-3 w-3" />
-                <span>{customer.phone}</span>
+                <span>{formatPhoneNumber(customer.phone)}</span>
               </div>
             </div>
           </div>
@@ -305,6 +406,28 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         </div>
       </ScrollArea>
 
+      {conversationId === null && (
+        <div className="px-4 py-3 border-t bg-muted/40 flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {isBusinessOwner
+              ? "No conversation with this customer yet."
+              : "No conversation with this customer yet. Ask a business owner to start one."}
+          </p>
+          {isBusinessOwner && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={startConversation}
+              disabled={isStartingConversation}
+              className="shrink-0"
+            >
+              <MessageSquarePlus className="h-4 w-4 mr-1" />
+              New conversation
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Input */}
       <div className="p-4 border-t bg-background">
         <div className="flex items-center space-x-2">
@@ -316,12 +439,12 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
             onKeyDown={handleKeyDown}
             placeholder="Type a message..."
             className="flex-1"
-            disabled={isSending}
+            disabled={isSending || conversationId === null}
             aria-label="Type a message to send"
           />
           <Button
             onClick={sendMessage}
-            disabled={!newMessage.trim() || isSending}
+            disabled={!newMessage.trim() || isSending || conversationId === null}
             size="icon"
             className="shrink-0"
           >
@@ -6,6 +6,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Send, X, Phone, User } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { formatPhoneNumber } from '@/lib/phone';
+import { createIdempotencyKey, toOperatorMessageId } from '@/lib/idempotency';
 
 interface ChatMessage {
   id: string;
@@ -40,6 +42,10 @@ export const WhatsAppChat: React.FC<WhatsAppChatProps> = ({
   const [newMessage, setNewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  // Guards against a second send starting before isSending re-renders
+  const sendingRef = useRef(false);
+  // Key of the last message that didn't go through; resending the same text reuses it
+  const pendingSendRef = useRef<{ text: string; key: string } | null>(null);
   const { toast } = useToast();
 
   // Auto-scroll to bottom when new messages arrive
@@ -60,14 +66,22 @@ export const WhatsAppChat: React.FC<WhatsAppChatProps> = ({
   */
 
   const sendMessage = async () => {
-    if (!newMessage.trim()) return;
+    const text = newMessage.trim();
+    if (!text || sendingRef.current) return;
 
+    sendingRef.current = true;
     setIsSending(true);
+
+    // The workflow can drop repeats of a key that it has already delivered
+    const idempotencyKey = pendingSendRef.current?.text === text
+      ? pendingSendRef.current.key
+      : createIdempotencyKey();
+    pendingSendRef.current = { text, key: idempotencyKey };
     
     // Create the message object
     const messageToSend = {
-      id: `operator-${Date.now()}`,
-      message: newMessage.trim(),
+      id: toOperatorMessageId(idempotencyKey),
+      message: text,
       sender: 'operator' as const,
       timestamp: new Date().toISOString(),
       phone_number: customer.phone,
@@ -91,13 +105,16 @@ export const WhatsAppChat: React.FC<WhatsAppChatProps> = ({
           message: messageToSend.message,
           sender: 'operator',
           timestamp: messageToSend.timestamp,
-          type: 'reply'
+          type: 'reply',
+          message_id: messageToSend.id,
+          idempotency_key: idempotencyKey
         }),
       });
 
       if (!response.ok) {
         throw new Error('Failed to send message');
       }
+      pendingSendRef.current = null;
 
       toast({
         title: "Message sent",
@@ -105,6 +122,11 @@ export const WhatsAppChat: React.FC<WhatsAppChatProps> = ({
       });
     } catch (error) {
       console.error('Failed to send message:', error);
+
+      // Remove the message from UI if sending failed
+      setMessages(prev => prev.filter(msg => msg.id !== messageToSend.id));
+      setNewMessage(messageToSend.message); // Restore the message text
+
       const errorMessage = error instanceof TypeError 
         ? "Could not reach the webhook (CORS or endpoint is offline). Please check your n8n workflow."
         : "There was an error sending your message. Please try again.";
@@ -115,6 +137,7 @@ export const WhatsAppChat: React.FC<WhatsAppChatProps> = ({
         variant: "destructive",
       });
     } finally {
+      sendingRef.current = false;
       setIsSending(false);
     }
   };
@@ -152,7 +175,7 @@ export const WhatsAppChat: React.FC<WhatsAppChatProps> = ({
                 </DialogTitle>
                 <div className="flex items-center space-x-1 text-xs text-primary-foreground/80">
                   <Phone className="h-3 w-3" />
-                  <span>{customer.phone}</span>
+                  <span>{formatPhoneNumber(customer.phone)}</span>
                 </div>
               </div>
             </div>
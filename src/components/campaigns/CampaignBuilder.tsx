@@ -0,0 +1,302 @@
+import React, { useState } from 'react';
+import { useMessageTemplates } from '@/hooks/useMessageTemplates';
+import { TemplateService } from '@/services/templateService';
+import { MAX_SEND_RATE_PER_MINUTE } from '@/services/campaignService';
+import { CampaignAudiencePreview, CampaignSegment, CreateCampaignData } from '@/types/campaign';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileText, Users } from 'lucide-react';
+
+interface CampaignBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (data: CreateCampaignData) => Promise<string>;
+  onPreviewAudience: (segment: CampaignSegment) => Promise<CampaignAudiencePreview>;
+}
+
+const DEFAULT_SEND_RATE = 30;
+
+const parseList = (value: string): string[] | undefined => {
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const parseDate = (value: string): Date | undefined => (value ? new Date(value) : undefined);
+
+export const CampaignBuilder: React.FC<CampaignBuilderProps> = ({
+  open,
+  onOpenChange,
+  onCreate,
+  onPreviewAudience,
+}) => {
+  const { templates } = useMessageTemplates();
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [products, setProducts] = useState('');
+  const [categories, setCategories] = useState('');
+  const [lastContactAfter, setLastContactAfter] = useState('');
+  const [lastContactBefore, setLastContactBefore] = useState('');
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [parameters, setParameters] = useState<string[]>([]);
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [sendRate, setSendRate] = useState(DEFAULT_SEND_RATE);
+  const [preview, setPreview] = useState<CampaignAudiencePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+  const isComplete = !!name.trim() && !!selectedTemplate &&
+    selectedTemplate.parameters.every((_, index) => parameters[index]?.trim());
+
+  const segment: CampaignSegment = {
+    tags: parseList(tags),
+    products: parseList(products),
+    categories: parseList(categories),
+    lastContactAfter: parseDate(lastContactAfter),
+    lastContactBefore: parseDate(lastContactBefore),
+  };
+
+  // Any segment change makes the previous audience count stale
+  const updateSegment = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setter(e.target.value);
+    setPreview(null);
+  };
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    setSelectedTemplateId(templateId);
+    setParameters(template ? template.parameters.map(() => '') : []);
+  };
+
+  const handleParameterChange = (index: number, value: string) => {
+    setParameters(prev => prev.map((p, i) => (i === index ? value : p)));
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsPreviewing(true);
+      setSaveError(null);
+      setPreview(await onPreviewAudience(segment));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to preview audience');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setTags('');
+    setProducts('');
+    setCategories('');
+    setLastContactAfter('');
+    setLastContactBefore('');
+    setSelectedTemplateId('');
+    setParameters([]);
+    setScheduledFor('');
+    setSendRate(DEFAULT_SEND_RATE);
+    setPreview(null);
+  };
+
+  const handleCreate = async () => {
+    if (!selectedTemplate || !isComplete || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await onCreate({
+        name: name.trim(),
+        template: {
+          name: selectedTemplate.name,
+          language: selectedTemplate.language,
+          parameters,
+        },
+        content: TemplateService.renderTemplate(selectedTemplate, parameters),
+        segment,
+        // Leaving the start empty sends on the next dispatcher run
+        scheduledFor: parseDate(scheduledFor) || new Date(),
+        sendRatePerMinute: sendRate,
+      });
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to create campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New campaign</DialogTitle>
+          <DialogDescription>
+            Send an approved template to a customer segment. Customers who opted out are excluded automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Name</Label>
+            <Input
+              id="campaign-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Winter collection launch"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <h4 className="text-sm font-medium">Segment</h4>
+              <p className="text-xs text-muted-foreground">
+                Leave a field empty to ignore it. Separate several values with commas; any of them matches.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="campaign-tags" className="text-xs">Tags</Label>
+                <Input id="campaign-tags" value={tags} onChange={updateSegment(setTags)} placeholder="vip, wholesale" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="campaign-products" className="text-xs">Enquired products</Label>
+                <Input id="campaign-products" value={products} onChange={updateSegment(setProducts)} placeholder="Comfort Hoodie" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="campaign-categories" className="text-xs">Enquiry categories</Label>
+                <Input id="campaign-categories" value={categories} onChange={updateSegment(setCategories)} placeholder="Enquiry" />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="campaign-contact-after" className="text-xs">Last contact after</Label>
+                <Input
+                  id="campaign-contact-after"
+                  type="date"
+                  value={lastContactAfter}
+                  onChange={updateSegment(setLastContactAfter)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="campaign-contact-before" className="text-xs">Last contact before</Label>
+                <Input
+                  id="campaign-contact-before"
+                  type="date"
+                  value={lastContactBefore}
+                  onChange={updateSegment(setLastContactBefore)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="sm" onClick={handlePreview} disabled={isPreviewing}>
+                <Users className="h-4 w-4 mr-2" />
+                {isPreviewing ? 'Counting...' : 'Preview audience'}
+              </Button>
+              {preview && (
+                <p className="text-sm text-muted-foreground">
+                  {preview.eligible} customers will receive this campaign
+                  {preview.optedOut > 0 && `, ${preview.optedOut} opted out and excluded`}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Message</h4>
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No approved templates are available. Register one before creating a campaign.
+              </p>
+            ) : (
+              <Select value={selectedTemplateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger aria-label="Choose a message template">
+                  <SelectValue placeholder="Choose a template..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name} ({template.language})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {selectedTemplate && (
+              <>
+                {selectedTemplate.parameters.map((label, index) => (
+                  <div key={index} className="space-y-1">
+                    <Label htmlFor={`campaign-param-${index}`} className="text-xs">
+                      {label || `Parameter ${index + 1}`}
+                    </Label>
+                    <Input
+                      id={`campaign-param-${index}`}
+                      value={parameters[index] || ''}
+                      onChange={(e) => handleParameterChange(index, e.target.value)}
+                    />
+                  </div>
+                ))}
+
+                <div className="flex items-start gap-2 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+                  <FileText className="h-4 w-4 mt-0.5 shrink-0" />
+                  <p>{TemplateService.renderTemplate(selectedTemplate, parameters)}</p>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="campaign-start" className="text-xs">Start</Label>
+              <Input
+                id="campaign-start"
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to start right away.</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="campaign-rate" className="text-xs">Messages per minute</Label>
+              <Input
+                id="campaign-rate"
+                type="number"
+                min={1}
+                max={MAX_SEND_RATE_PER_MINUTE}
+                value={sendRate}
+                onChange={(e) => setSendRate(Number(e.target.value))}
+              />
+            </div>
+          </div>
+
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={!isComplete || isSaving} size="sm">
+            {isSaving ? 'Scheduling...' : 'Schedule campaign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
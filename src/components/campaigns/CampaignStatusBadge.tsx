@@ -0,0 +1,17 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CampaignStatus } from '@/types/campaign';
+
+const STATUS_VARIANTS: Record<CampaignStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  scheduled: 'outline',
+  sending: 'default',
+  completed: 'secondary',
+  cancelled: 'outline',
+  failed: 'destructive',
+};
+
+export const CampaignStatusBadge: React.FC<{ status: CampaignStatus }> = ({ status }) => (
+  <Badge variant={STATUS_VARIANTS[status]} className="capitalize">
+    {status}
+  </Badge>
+);
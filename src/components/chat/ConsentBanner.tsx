@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { CustomerConsent } from '@/types/chat';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BellOff, ShieldCheck } from 'lucide-react';
+
+interface ConsentBannerProps {
+  consent: CustomerConsent | null;
+  canOverride: boolean;
+  onSetOverride: (allow: boolean, reason?: string) => Promise<void>;
+  className?: string;
+}
+
+// Shown while the customer is opted out; business owners can allow messages anyway
+export const ConsentBanner: React.FC<ConsentBannerProps> = ({
+  consent,
+  canOverride,
+  onSetOverride,
+  className,
+}) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  if (consent?.status !== 'opted_out') return null;
+
+  const handleSave = async (allow: boolean) => {
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await onSetOverride(allow, allow ? reason.trim() : undefined);
+      setIsDialogOpen(false);
+      setReason('');
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to update override');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const optedOutAt = consent.updatedAt ? ` on ${format(consent.updatedAt, 'MMM dd, HH:mm')}` : '';
+  const keyword = consent.keyword ? `replied "${consent.keyword}"` : 'opted out';
+
+  if (consent.override) {
+    return (
+      <Alert className={className}>
+        <ShieldCheck className="h-4 w-4" />
+        <AlertTitle>Opted out, messages allowed by override</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p>
+            {consent.override.byName || 'A business owner'} allowed messages
+            {consent.override.at ? ` on ${format(consent.override.at, 'MMM dd, HH:mm')}` : ''}: {consent.override.reason}
+          </p>
+          {canOverride && (
+            <Button variant="outline" size="sm" onClick={() => handleSave(false)} disabled={isSaving}>
+              Revoke override
+            </Button>
+          )}
+          {saveError && <p className="text-destructive">{saveError}</p>}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <>
+      <Alert variant="destructive" className={className}>
+        <BellOff className="h-4 w-4" />
+        <AlertTitle>Customer opted out</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p>
+            The customer {keyword}{optedOutAt}. Messages and templates are blocked until they reply START.
+          </p>
+          {canOverride && (
+            <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+              Allow messages
+            </Button>
+          )}
+        </AlertDescription>
+      </Alert>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override opt-out</DialogTitle>
+            <DialogDescription>
+              Only message a customer who opted out when they have asked for it, for example about an open order.
+              The override and your reason are recorded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="consent-override-reason">Reason</Label>
+            <Textarea
+              id="consent-override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Customer asked by phone for delivery updates on order #1042"
+              maxLength={500}
+            />
+            {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => handleSave(true)} disabled={!reason.trim() || isSaving} size="sm">
+              Allow messages
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
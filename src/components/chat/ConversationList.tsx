@@ -4,6 +4,10 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { ServiceWindowBadge } from '@/components/chat/ServiceWindowBadge';
+import { resolveServiceWindowExpiry } from '@/lib/serviceWindow';
+import { ORDER_ACTION_LABELS } from '@/lib/interactive';
+import { formatPhoneNumber } from '@/lib/phone';
 import { formatDistanceToNow } from 'date-fns';
 import { MessageCircle, Clock, User } from 'lucide-react';
 
@@ -117,9 +121,15 @@ export const ConversationList: React.FC<ConversationListProps> = ({
                       </div>
                     </div>
                     
-                    <p className="text-sm text-muted-foreground truncate mb-2">
-                      {conversation.customerPhone}
-                    </p>
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <p className="text-sm text-muted-foreground truncate">
+                        {formatPhoneNumber(conversation.customerPhone)}
+                      </p>
+                      <ServiceWindowBadge
+                        expiresAt={resolveServiceWindowExpiry(conversation)}
+                        className="text-xs shrink-0"
+                      />
+                    </div>
                     
                     <div className="flex items-center justify-between">
                       <p className="text-sm text-muted-foreground truncate flex-1 mr-2">
@@ -131,6 +141,15 @@ export const ConversationList: React.FC<ConversationListProps> = ({
                       </div>
                     </div>
                     
+                    {conversation.lastOrderAction && (
+                      <Badge
+                        variant={conversation.lastOrderAction.action === 'cancel' ? 'destructive' : 'secondary'}
+                        className="text-xs mt-2"
+                      >
+                        {ORDER_ACTION_LABELS[conversation.lastOrderAction.action]}
+                      </Badge>
+                    )}
+                    
                     {conversation.tags && conversation.tags.length > 0 && (
                       <div className="flex gap-1 mt-2">
                         {conversation.tags.slice(0, 2).map((tag, index) => (
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage, Conversation, UserPresence } from '@/types/chat';
+import { ChatMessage, Conversation, InteractiveMessage, MessageTemplate, ScheduledMessage, UserPresence } from '@/types/chat';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCustomerConsent } from '@/hooks/useCustomerConsent';
+import { useScheduledMessages } from '@/hooks/useScheduledMessages';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,6 +10,18 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { TemplatePicker } from '@/components/chat/TemplatePicker';
+import { ServiceWindowBadge } from '@/components/chat/ServiceWindowBadge';
+import { ConsentBanner } from '@/components/chat/ConsentBanner';
+import { OrderReplyBanner } from '@/components/chat/OrderReplyBanner';
+import { MessageAttachments } from '@/components/chat/MessageAttachments';
+import { InteractiveComposer } from '@/components/chat/InteractiveComposer';
+import { InteractiveContent } from '@/components/chat/InteractiveContent';
+import { ScheduleMessageDialog } from '@/components/chat/ScheduleMessageDialog';
+import { ScheduledMessagesList } from '@/components/chat/ScheduledMessagesList';
+import { isServiceWindowOpen, resolveServiceWindowExpiry } from '@/lib/serviceWindow';
+import { ACCEPTED_MEDIA_TYPES, formatFileSize, isMediaPlaceholder, validateMediaFile } from '@/lib/media';
+import { formatPhoneNumber } from '@/lib/phone';
 import { 
   Send, 
   Phone, 
@@ -15,8 +29,14 @@ import {
   Clock, 
   Check, 
   CheckCheck,
+  AlertCircle,
+  RotateCcw,
   Smile,
   Paperclip,
+  ListChecks,
+  CalendarClock,
+  X,
+  ShoppingCart,
   MoreHorizontal 
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
@@ -26,9 +46,16 @@ interface EnhancedChatPanelProps {
   messages: ChatMessage[];
   presence: Record<string, UserPresence>;
   onSendMessage: (content: string) => Promise<void>;
+  onRetryMessage?: (message: ChatMessage) => Promise<void>;
+  onSendAttachment?: (file: File, caption: string) => Promise<void>;
+  onSendInteractive?: (interactive: InteractiveMessage) => Promise<void>;
+  templates?: MessageTemplate[];
+  onSendTemplate?: (template: MessageTemplate, parameters: string[]) => Promise<void>;
   onMarkAsRead: (messageId: string) => Promise<void>;
   onSetTyping: (isTyping: boolean) => Promise<void>;
   onLoadMoreMessages?: () => Promise<void>;
+  // Offered on customer messages that don't have an order yet
+  onCreateOrder?: (message: ChatMessage) => void;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -38,17 +65,37 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
   messages,
   presence,
   onSendMessage,
+  onRetryMessage,
+  onSendAttachment,
+  onSendInteractive,
+  templates = [],
+  onSendTemplate,
   onMarkAsRead,
   onSetTyping,
   onLoadMoreMessages,
+  onCreateOrder,
   isOpen,
   onClose,
 }) => {
-  const { currentUser } = useAuth();
+  const { currentUser, isBusinessOwner } = useAuth();
+  const { consent, isBlocked: isOptedOut, setOverride: setConsentOverride } = useCustomerConsent(conversation.customerPhone);
   const [newMessage, setNewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [retryingMessageId, setRetryingMessageId] = useState<string | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isInteractiveComposerOpen, setIsInteractiveComposerOpen] = useState(false);
+  // Open "send later" dialog: a new message from the composer, or an existing one being edited
+  const [scheduleTarget, setScheduleTarget] = useState<{ message?: ScheduledMessage } | null>(null);
+  const {
+    scheduledMessages,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  } = useScheduledMessages(conversation);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
 
   // Auto-scroll to bottom when new messages arrive
@@ -82,20 +129,74 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
   }, [isTyping, onSetTyping]);
 
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || isSending) return;
+    if ((!newMessage.trim() && !pendingFile) || isSending) return;
 
     try {
       setIsSending(true);
-      await onSendMessage(newMessage.trim());
+
+      // With a file attached, the typed text goes out as its caption
+      if (pendingFile && onSendAttachment) {
+        await onSendAttachment(pendingFile, newMessage.trim());
+        setPendingFile(null);
+      } else {
+        await onSendMessage(newMessage.trim());
+      }
+
       setNewMessage('');
       setIsTyping(false);
     } catch (error) {
       console.error('Failed to send message:', error);
+      if (pendingFile) {
+        setAttachmentError(error instanceof Error ? error.message : 'Failed to send attachment');
+      }
     } finally {
       setIsSending(false);
     }
   };
 
+  const handleSaveScheduled = async (content: string, scheduledFor: Date) => {
+    if (scheduleTarget?.message) {
+      await updateScheduledMessage(scheduleTarget.message.id, content, scheduledFor);
+      return;
+    }
+
+    await scheduleMessage(content, scheduledFor);
+    setNewMessage('');
+    setIsTyping(false);
+  };
+
+  const handleCancelScheduled = async (message: ScheduledMessage) => {
+    try {
+      await cancelScheduledMessage(message.id);
+    } catch (error) {
+      console.error('Failed to cancel scheduled message:', error);
+    }
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+
+    if (!file) return;
+
+    const validationError = validateMediaFile(file);
+    setAttachmentError(validationError);
+    setPendingFile(validationError ? null : file);
+  };
+
+  const handleRetryMessage = async (message: ChatMessage) => {
+    if (!onRetryMessage || retryingMessageId) return;
+
+    try {
+      setRetryingMessageId(message.id);
+      await onRetryMessage(message);
+    } catch (error) {
+      console.error('Failed to retry message:', error);
+    } finally {
+      setRetryingMessageId(null);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -126,6 +227,14 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
   };
 
   const getMessageStatusIcon = (message: ChatMessage) => {
+    if (message.deliveryState === 'queued') {
+      return <Clock className="h-3 w-3 text-muted-foreground" />;
+    }
+
+    if (message.deliveryState === 'failed') {
+      return <AlertCircle className="h-3 w-3 text-destructive" />;
+    }
+
     switch (message.status) {
       case 'sent':
         return <Check className="h-3 w-3 text-muted-foreground" />;
@@ -133,6 +242,12 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
         return <CheckCheck className="h-3 w-3 text-muted-foreground" />;
       case 'read':
         return <CheckCheck className="h-3 w-3 text-primary" />;
+      case 'failed':
+        return (
+          <span title={message.error ? `${message.error.message} (code ${message.error.code})` : 'Not delivered'}>
+            <AlertCircle className="h-3 w-3 text-destructive" />
+          </span>
+        );
       default:
         return null;
     }
@@ -158,6 +273,10 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
            customerPresence?.typingInConversation === conversation.id;
   };
 
+  // WhatsApp only accepts free-form replies within 24 hours of the customer's last message
+  const serviceWindowExpiresAt = resolveServiceWindowExpiry(conversation, messages);
+  const showTemplatePicker = !isServiceWindowOpen(serviceWindowExpiresAt) && !!onSendTemplate;
+
   if (!isOpen) return null;
 
   return (
@@ -186,7 +305,7 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
               </CardTitle>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Phone className="h-3 w-3" />
-                {conversation.customerPhone}
+                {formatPhoneNumber(conversation.customerPhone)}
                 <Separator orientation="vertical" className="h-3" />
                 <Clock className="h-3 w-3" />
                 Last seen {formatDistanceToNow(conversation.lastMessageAt, { addSuffix: true })}
@@ -195,6 +314,7 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
           </div>
           
           <div className="flex items-center gap-2">
+            <ServiceWindowBadge expiresAt={serviceWindowExpiresAt} />
             <Badge 
               variant={conversation.status === 'active' ? 'default' : 'secondary'}
             >
@@ -211,6 +331,15 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
         </div>
       </CardHeader>
 
+      <ConsentBanner
+        consent={consent}
+        canOverride={isBusinessOwner}
+        onSetOverride={setConsentOverride}
+        className="mx-4 mb-3 w-auto"
+      />
+
+      <OrderReplyBanner conversation={conversation} className="mx-4 mb-3 w-auto" />
+
       <Separator />
 
       {/* Messages */}
@@ -239,7 +368,11 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
                         : 'bg-muted text-muted-foreground'
                     }`}
                   >
-                    <p className="text-sm">{message.content}</p>
+                    <MessageAttachments attachments={message.attachments || []} />
+                    {message.content && !(message.attachments?.length && isMediaPlaceholder(message.content)) && (
+                      <p className="text-sm">{message.content}</p>
+                    )}
+                    <InteractiveContent message={message} />
                     <div className={`flex items-center justify-between mt-1 text-xs ${
                       message.senderType === 'operator' 
                         ? 'text-primary-foreground/70' 
@@ -251,7 +384,43 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
                           {getMessageStatusIcon(message)}
                         </div>
                       )}
+                      {message.senderType === 'customer' && message.orderNumber && (
+                        <span className="ml-2 flex items-center gap-1">
+                          <ShoppingCart className="h-3 w-3" />
+                          Order #{message.orderNumber}
+                        </span>
+                      )}
+                      {message.senderType === 'customer' && !message.orderId && onCreateOrder && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-2 h-5 px-1 text-xs"
+                          onClick={() => onCreateOrder(message)}
+                        >
+                          <ShoppingCart className="h-3 w-3 mr-1" />
+                          Create order
+                        </Button>
+                      )}
                     </div>
+                    {message.senderType === 'operator' && message.deliveryState === 'failed' && (
+                      <div className="flex items-center justify-between gap-2 mt-2 pt-2 border-t border-primary-foreground/20 text-xs">
+                        <span className="truncate" title={message.deliveryError}>
+                          Not sent{message.deliveryError ? `: ${message.deliveryError}` : ''}
+                        </span>
+                        {onRetryMessage && (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => handleRetryMessage(message)}
+                            disabled={retryingMessageId === message.id}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               ))
@@ -280,50 +449,147 @@ export const EnhancedChatPanel: React.FC<EnhancedChatPanelProps> = ({
 
         {/* Message Input */}
         <div className="p-4">
-          <div className="flex items-end gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="mb-1"
-            >
-              <Paperclip className="h-4 w-4" />
-            </Button>
-            
-            <div className="flex-1">
-              <Input
-                id="chat-message-input"
-                name="message"
-                placeholder="Type a message..."
-                value={newMessage}
-                onChange={(e) => handleInputChange(e.target.value)}
-                onKeyPress={handleKeyPress}
-                disabled={isSending}
-                className="resize-none"
-                aria-label="Type a message to send"
+          <ScheduledMessagesList
+            scheduledMessages={scheduledMessages}
+            onEdit={(message) => setScheduleTarget({ message })}
+            onCancel={handleCancelScheduled}
+          />
+          {isOptedOut ? (
+            <p className="text-xs text-muted-foreground">
+              Sending is paused because the customer opted out of WhatsApp messages.
+            </p>
+          ) : showTemplatePicker ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                The customer hasn't messaged in the last 24 hours, so WhatsApp only accepts an approved template.
+              </p>
+              <TemplatePicker
+                templates={templates}
+                onSendTemplate={onSendTemplate}
               />
             </div>
+          ) : (
+            <>
+              {(pendingFile || attachmentError) && (
+                <div className="flex items-center gap-2 mb-2 text-xs">
+                  {pendingFile && (
+                    <Badge variant="secondary" className="max-w-full gap-1">
+                      <Paperclip className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{pendingFile.name}</span>
+                      <span className="shrink-0 opacity-70">{formatFileSize(pendingFile.size)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setPendingFile(null)}
+                        disabled={isSending}
+                        aria-label="Remove attachment"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  )}
+                  {attachmentError && (
+                    <span className="text-destructive">{attachmentError}</span>
+                  )}
+                </div>
+              )}
+              <div className="flex items-end gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_MEDIA_TYPES}
+                  className="hidden"
+                  onChange={handleFileSelected}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mb-1"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!onSendAttachment || isSending}
+                  aria-label="Attach a file"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+
+                {onSendInteractive && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mb-1"
+                    onClick={() => setIsInteractiveComposerOpen(true)}
+                    disabled={isSending}
+                    aria-label="Send reply buttons or a list"
+                  >
+                    <ListChecks className="h-4 w-4" />
+                  </Button>
+                )}
             
-            <Button
-              variant="ghost"
-              size="sm"
-              className="mb-1"
-            >
-              <Smile className="h-4 w-4" />
-            </Button>
+                <div className="flex-1">
+                  <Input
+                    id="chat-message-input"
+                    name="message"
+                    placeholder={pendingFile ? 'Add a caption...' : 'Type a message...'}
+                    value={newMessage}
+                    onChange={(e) => handleInputChange(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    disabled={isSending}
+                    className="resize-none"
+                    aria-label="Type a message to send"
+                  />
+                </div>
             
-            <Button
-              onClick={handleSendMessage}
-              disabled={!newMessage.trim() || isSending}
-              size="sm"
-              className="mb-1"
-            >
-              {isSending ? (
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current" />
-              ) : (
-                <Send className="h-4 w-4" />
-              )}
-            </Button>
-          </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mb-1"
+                >
+                  <Smile className="h-4 w-4" />
+                </Button>
+            
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mb-1"
+                  onClick={() => setScheduleTarget({})}
+                  disabled={!newMessage.trim() || !!pendingFile || isSending}
+                  aria-label="Send later"
+                  title="Send later"
+                >
+                  <CalendarClock className="h-4 w-4" />
+                </Button>
+
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={(!newMessage.trim() && !pendingFile) || isSending}
+                  size="sm"
+                  className="mb-1"
+                >
+                  {isSending ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </>
+          )}
+          {onSendInteractive && (
+            <InteractiveComposer
+              open={isInteractiveComposerOpen}
+              onOpenChange={setIsInteractiveComposerOpen}
+              onSend={onSendInteractive}
+            />
+          )}
+          {scheduleTarget && (
+            <ScheduleMessageDialog
+              open
+              onOpenChange={(open) => !open && setScheduleTarget(null)}
+              initialContent={scheduleTarget.message?.content ?? newMessage.trim()}
+              initialScheduledFor={scheduleTarget.message?.scheduledFor}
+              serviceWindowExpiresAt={serviceWindowExpiresAt}
+              onSave={handleSaveScheduled}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { InteractiveMessage, InteractiveOption } from '@/types/chat';
+import {
+  ORDER_CONFIRMATION_OPTIONS,
+  getMaxOptions,
+  getMaxTitleLength,
+  INTERACTIVE_LIMITS,
+  validateInteractiveMessage,
+} from '@/lib/interactive';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Send, Trash2, ShoppingCart } from 'lucide-react';
+
+interface InteractiveComposerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSend: (interactive: InteractiveMessage) => Promise<void>;
+}
+
+const emptyOption = (): InteractiveOption => ({ id: '', title: '' });
+
+// Options from the order preset keep their IDs so the webhook can recognise
+// the reply; anything the operator typed gets a positional ID
+const withOptionIds = (options: InteractiveOption[]): InteractiveOption[] => {
+  return options.map((option, index) => ({
+    id: option.id || `option:${index + 1}`,
+    title: option.title.trim(),
+    ...(option.description?.trim() && { description: option.description.trim() }),
+  }));
+};
+
+export const InteractiveComposer: React.FC<InteractiveComposerProps> = ({
+  open,
+  onOpenChange,
+  onSend,
+}) => {
+  const [type, setType] = useState<InteractiveMessage['type']>('button');
+  const [body, setBody] = useState('');
+  const [buttonText, setButtonText] = useState('');
+  const [options, setOptions] = useState<InteractiveOption[]>([emptyOption()]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const interactive: InteractiveMessage = {
+    type,
+    body,
+    options,
+    ...(type === 'list' && { buttonText }),
+  };
+  const validationError = validateInteractiveMessage(interactive);
+  const maxOptions = getMaxOptions(type);
+
+  const reset = () => {
+    setType('button');
+    setBody('');
+    setButtonText('');
+    setOptions([emptyOption()]);
+    setError(null);
+  };
+
+  const handleTypeChange = (value: string) => {
+    const nextType = value as InteractiveMessage['type'];
+    setType(nextType);
+    setOptions(prev => prev.slice(0, getMaxOptions(nextType)));
+  };
+
+  const handleUseOrderPreset = () => {
+    setType('button');
+    setBody(body || 'Please confirm your order.');
+    setOptions(ORDER_CONFIRMATION_OPTIONS.map(option => ({ ...option })));
+  };
+
+  const handleOptionChange = (index: number, changes: Partial<InteractiveOption>) => {
+    setOptions(prev => prev.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const handleSend = async () => {
+    if (validationError || isSending) return;
+
+    try {
+      setIsSending(true);
+      setError(null);
+      await onSend({
+        ...interactive,
+        body: body.trim(),
+        options: withOptionIds(options),
+        ...(type === 'list' && { buttonText: buttonText.trim() }),
+      });
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to send interactive message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send interactive message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send options</DialogTitle>
+          <DialogDescription>
+            The customer taps a reply button or picks from a list, and their choice appears in the chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Select value={type} onValueChange={handleTypeChange}>
+              <SelectTrigger className="w-40" aria-label="Interactive message type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="button">Reply buttons</SelectItem>
+                <SelectItem value="list">List picker</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleUseOrderPreset} disabled={isSending}>
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Order confirmation
+            </Button>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="interactive-body" className="text-xs">Message</Label>
+            <Textarea
+              id="interactive-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={INTERACTIVE_LIMITS.bodyLength}
+              placeholder="e.g. Black hoodie, size M, $49. Shall we go ahead?"
+              disabled={isSending}
+            />
+          </div>
+
+          {type === 'list' && (
+            <div className="space-y-1">
+              <Label htmlFor="interactive-button-text" className="text-xs">List button label</Label>
+              <Input
+                id="interactive-button-text"
+                value={buttonText}
+                onChange={(e) => setButtonText(e.target.value)}
+                maxLength={INTERACTIVE_LIMITS.listButtonTextLength}
+                placeholder="e.g. Choose a size"
+                disabled={isSending}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs">Options ({options.length}/{maxOptions})</Label>
+            {options.map((option, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <div className="flex-1 space-y-1">
+                  <Input
+                    value={option.title}
+                    onChange={(e) => handleOptionChange(index, { title: e.target.value })}
+                    maxLength={getMaxTitleLength(type)}
+                    placeholder={`Option ${index + 1}`}
+                    aria-label={`Option ${index + 1} title`}
+                    disabled={isSending}
+                  />
+                  {type === 'list' && (
+                    <Input
+                      value={option.description || ''}
+                      onChange={(e) => handleOptionChange(index, { description: e.target.value })}
+                      maxLength={INTERACTIVE_LIMITS.rowDescriptionLength}
+                      placeholder="Description (optional)"
+                      aria-label={`Option ${index + 1} description`}
+                      disabled={isSending}
+                    />
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                  disabled={options.length === 1 || isSending}
+                  aria-label={`Remove option ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOptions(prev => [...prev, emptyOption()])}
+              disabled={options.length >= maxOptions || isSending}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add option
+            </Button>
+          </div>
+
+          {(error || validationError) && (
+            <p className={`text-xs ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {error || validationError}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSend} disabled={!!validationError || isSending} size="sm">
+            {isSending ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current" />
+            ) : (
+              <>
+                <Send className="h-4 w-4 mr-2" />
+                Send
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ChatMessage } from '@/types/chat';
+import { ORDER_ACTION_LABELS } from '@/lib/interactive';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, List } from 'lucide-react';
+
+interface InteractiveContentProps {
+  message: ChatMessage;
+}
+
+// The options an operator offered, or the one the customer picked, shown as chips
+export const InteractiveContent: React.FC<InteractiveContentProps> = ({ message }) => {
+  if (message.interactiveReply) {
+    const { title, description, orderAction } = message.interactiveReply;
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-1">
+        <Badge variant="outline" className="bg-background/60" title={description}>
+          <CheckCircle2 className="h-3 w-3 mr-1" />
+          {title}
+        </Badge>
+        {orderAction && (
+          <Badge variant={orderAction === 'cancel' ? 'destructive' : 'secondary'}>
+            {ORDER_ACTION_LABELS[orderAction]}
+          </Badge>
+        )}
+      </div>
+    );
+  }
+
+  if (!message.interactive) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {message.interactive.type === 'list' && (
+        <div className="flex items-center gap-1 text-xs opacity-80">
+          <List className="h-3 w-3" />
+          {message.interactive.buttonText}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-1">
+        {message.interactive.options.map((option) => (
+          <Badge
+            key={option.id}
+            variant="outline"
+            className="border-current/30 text-current"
+            title={option.description}
+          >
+            {option.title}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { MessageAttachment } from '@/types/chat';
+import { formatFileSize } from '@/lib/media';
+import { FileText, Download } from 'lucide-react';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+}
+
+// Inline rendering for media in a chat bubble: images preview, audio plays,
+// anything else is a downloadable file chip
+export const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-1">
+      {attachments.map((attachment) => {
+        if (attachment.type.startsWith('image/')) {
+          return (
+            <a key={attachment.id} href={attachment.url} target="_blank" rel="noopener noreferrer">
+              <img
+                src={attachment.url}
+                alt={attachment.name}
+                className="rounded-md max-h-64 w-full object-cover"
+                loading="lazy"
+              />
+            </a>
+          );
+        }
+
+        if (attachment.type.startsWith('audio/')) {
+          return (
+            <audio key={attachment.id} controls preload="none" className="w-full max-w-[16rem]">
+              <source src={attachment.url} type={attachment.type} />
+            </audio>
+          );
+        }
+
+        return (
+          <a
+            key={attachment.id}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 rounded-md border border-current/20 bg-background/10 px-3 py-2 text-xs hover:bg-background/20"
+          >
+            <FileText className="h-4 w-4 shrink-0" />
+            <span className="truncate flex-1" title={attachment.name}>{attachment.name}</span>
+            <span className="shrink-0 opacity-70">{formatFileSize(attachment.size)}</span>
+            <Download className="h-3 w-3 shrink-0" />
+          </a>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Conversation } from '@/types/chat';
+import { useOrderReply } from '@/hooks/useOrderReply';
+import { ORDER_ACTION_LABELS } from '@/lib/interactive';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { PackageCheck, PackageX } from 'lucide-react';
+
+interface OrderReplyBannerProps {
+  conversation: Conversation;
+  className?: string;
+}
+
+// Offers to apply the customer's "Confirm order" or "Cancel" reply to their open order
+export const OrderReplyBanner: React.FC<OrderReplyBannerProps> = ({ conversation, className }) => {
+  const { order, to, error, applyReply } = useOrderReply(conversation);
+  const [isApplying, setIsApplying] = useState(false);
+
+  if (!order || !to || !conversation.lastOrderAction) return null;
+
+  const handleApply = async () => {
+    try {
+      setIsApplying(true);
+      await applyReply();
+    } catch {
+      // Shown from the hook's error
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const cancelling = to === 'cancelled';
+
+  return (
+    <Alert variant={cancelling ? 'destructive' : 'default'} className={className}>
+      {cancelling ? <PackageX className="h-4 w-4" /> : <PackageCheck className="h-4 w-4" />}
+      <AlertTitle>{ORDER_ACTION_LABELS[conversation.lastOrderAction.action]} by the customer</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>
+          The customer replied to the order confirmation. Order #{order.number} is still {order.status}.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleApply} disabled={isApplying}>
+          {cancelling ? `Cancel order #${order.number}` : `Confirm order #${order.number}`}
+        </Button>
+        {error && <p className="text-destructive">{error}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { isServiceWindowOpen } from '@/lib/serviceWindow';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+
+interface ScheduleMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Read once on mount, so mount the dialog when opening it; editing passes the scheduled message's values
+  initialContent: string;
+  initialScheduledFor?: Date;
+  serviceWindowExpiresAt: Date | null;
+  onSave: (content: string, scheduledFor: Date) => Promise<void>;
+}
+
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+const DEFAULT_DELAY_MS = 60 * 60 * 1000;
+
+export const ScheduleMessageDialog: React.FC<ScheduleMessageDialogProps> = ({
+  open,
+  onOpenChange,
+  initialContent,
+  initialScheduledFor,
+  serviceWindowExpiresAt,
+  onSave,
+}) => {
+  const [content, setContent] = useState(initialContent);
+  const [scheduledFor, setScheduledFor] = useState(() =>
+    format(initialScheduledFor || new Date(Date.now() + DEFAULT_DELAY_MS), INPUT_FORMAT)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const sendAt = scheduledFor ? new Date(scheduledFor) : null;
+  // Unless the customer writes again first, WhatsApp won't accept free text at the send time
+  const windowClosesFirst = !!sendAt && !!serviceWindowExpiresAt && !isServiceWindowOpen(serviceWindowExpiresAt, sendAt);
+
+  const handleSave = async () => {
+    if (!content.trim() || !sendAt || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await onSave(content.trim(), sendAt);
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to schedule message');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{initialScheduledFor ? 'Edit scheduled message' : 'Send later'}</DialogTitle>
+          <DialogDescription>
+            The message is sent automatically at the chosen time, even if nobody has the chat open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scheduled-message-content">Message</Label>
+            <Textarea
+              id="scheduled-message-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              maxLength={4096}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scheduled-message-time">Send at</Label>
+            <Input
+              id="scheduled-message-time"
+              type="datetime-local"
+              value={scheduledFor}
+              min={format(new Date(), INPUT_FORMAT)}
+              onChange={(e) => setScheduledFor(e.target.value)}
+            />
+          </div>
+
+          {windowClosesFirst && serviceWindowExpiresAt && (
+            <div className="flex items-start gap-2 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+              <p>
+                The 24-hour window closes {format(serviceWindowExpiresAt, 'MMM dd, HH:mm')}. Unless the customer
+                writes again before then, this message will be held instead of sent, and you can reschedule it
+                or send a template.
+              </p>
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!content.trim() || !sendAt || isSaving} size="sm">
+            {initialScheduledFor ? 'Save changes' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ScheduledMessage } from '@/types/chat';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CalendarClock, Pencil, X } from 'lucide-react';
+
+interface ScheduledMessagesListProps {
+  scheduledMessages: ScheduledMessage[];
+  onEdit: (message: ScheduledMessage) => void;
+  onCancel: (message: ScheduledMessage) => void;
+}
+
+const describeHeldMessage = (message: ScheduledMessage): string => {
+  if (message.state === 'window_closed') {
+    return 'Not sent: the 24-hour window had closed. Reschedule it, or send a template instead.';
+  }
+
+  return `Not sent${message.error ? `: ${message.error}` : ''}`;
+};
+
+// Pending "send later" messages above the composer
+export const ScheduledMessagesList: React.FC<ScheduledMessagesListProps> = ({
+  scheduledMessages,
+  onEdit,
+  onCancel,
+}) => {
+  if (scheduledMessages.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-3">
+      {scheduledMessages.map((message) => {
+        const isHeld = message.state !== 'scheduled';
+
+        return (
+          <div key={message.id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+            {isHeld ? (
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            ) : (
+              <CalendarClock className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="truncate">{message.content}</p>
+              <p className={`text-xs ${isHeld ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {isHeld ? describeHeldMessage(message) : `Sends ${format(message.scheduledFor, 'MMM dd, HH:mm')}`}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => onEdit(message)}
+              aria-label="Edit scheduled message"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => onCancel(message)}
+              aria-label="Cancel scheduled message"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
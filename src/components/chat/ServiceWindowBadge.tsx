@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Timer } from 'lucide-react';
+
+interface ServiceWindowBadgeProps {
+  expiresAt: Date | null;
+  className?: string;
+}
+
+const WARNING_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+const formatRemaining = (ms: number) => {
+  const totalMinutes = Math.max(1, Math.floor(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+// Countdown to the end of the customer's 24-hour WhatsApp service window
+export const ServiceWindowBadge: React.FC<ServiceWindowBadgeProps> = ({ expiresAt, className }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000); // Update every minute
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!expiresAt) return null;
+
+  const remaining = expiresAt.getTime() - now;
+
+  if (remaining <= 0) {
+    return (
+      <Badge
+        variant="secondary"
+        className={className}
+        title="Only approved templates can be sent until the customer replies"
+      >
+        <Timer className="h-3 w-3 mr-1" />
+        Window closed
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant={remaining < WARNING_THRESHOLD_MS ? 'destructive' : 'outline'}
+      className={className}
+      title={`Free-form replies accepted until ${expiresAt.toLocaleString()}`}
+    >
+      <Timer className="h-3 w-3 mr-1" />
+      {formatRemaining(remaining)} left
+    </Badge>
+  );
+};
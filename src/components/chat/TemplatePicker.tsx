@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { MessageTemplate } from '@/types/chat';
+import { TemplateService } from '@/services/templateService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Send, FileText } from 'lucide-react';
+
+interface TemplatePickerProps {
+  templates: MessageTemplate[];
+  onSendTemplate: (template: MessageTemplate, parameters: string[]) => Promise<void>;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  onSendTemplate,
+}) => {
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+  const [parameters, setParameters] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+  const isComplete = !!selectedTemplate &&
+    selectedTemplate.parameters.every((_, index) => parameters[index]?.trim());
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    setSelectedTemplateId(templateId);
+    setParameters(template ? template.parameters.map(() => '') : []);
+  };
+
+  const handleParameterChange = (index: number, value: string) => {
+    setParameters(prev => prev.map((p, i) => (i === index ? value : p)));
+  };
+
+  const handleSend = async () => {
+    if (!selectedTemplate || !isComplete || isSending) return;
+
+    try {
+      setIsSending(true);
+      await onSendTemplate(selectedTemplate, parameters);
+      setSelectedTemplateId('');
+      setParameters([]);
+    } catch (error) {
+      console.error('Failed to send template:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No approved templates are available. Ask a business owner to register one.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Select value={selectedTemplateId} onValueChange={handleTemplateChange}>
+        <SelectTrigger aria-label="Choose a message template">
+          <SelectValue placeholder="Choose a template..." />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name} ({template.language})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selectedTemplate && (
+        <>
+          {selectedTemplate.parameters.map((label, index) => (
+            <div key={index} className="space-y-1">
+              <Label htmlFor={`template-param-${index}`} className="text-xs">
+                {label || `Parameter ${index + 1}`}
+              </Label>
+              <Input
+                id={`template-param-${index}`}
+                value={parameters[index] || ''}
+                onChange={(e) => handleParameterChange(index, e.target.value)}
+                disabled={isSending}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-start gap-2 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+            <FileText className="h-4 w-4 mt-0.5 shrink-0" />
+            <p>{TemplateService.renderTemplate(selectedTemplate, parameters)}</p>
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSend}
+          disabled={!isComplete || isSending}
+          size="sm"
+        >
+          {isSending ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current" />
+          ) : (
+            <>
+              <Send className="h-4 w-4 mr-2" />
+              Send template
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import {
+  describeVariant,
+  MAX_MOVEMENT_REASON_LENGTH,
+  STOCK_MOVEMENT_LABELS,
+  STOCK_MOVEMENT_TYPES,
+  stockDelta,
+  validateStockMovement,
+} from '@/lib/stock';
+import { InventoryService } from '@/services/inventoryService';
+import { ProductService } from '@/services/productService';
+import { InventoryItem, InventoryVariant, StockMovement, StockMovementType } from '@/types/inventory';
+import { Product } from '@/types/product';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface StockMovementDialogProps {
+  // The variant to adjust; without one the operator picks a catalog product and variant to stock
+  item?: InventoryItem;
+  onOpenChange: (open: boolean) => void;
+  onRecord: (variant: InventoryVariant, type: StockMovementType, quantity: number, reason?: string) => Promise<unknown>;
+}
+
+// Select needs a value for "no size/color"
+const NO_VARIANT = '-';
+
+// Mount when opening, like OrderFormDialog, so each movement starts blank
+export const StockMovementDialog: React.FC<StockMovementDialogProps> = ({ item, onOpenChange, onRecord }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [productId, setProductId] = useState('');
+  const [size, setSize] = useState(NO_VARIANT);
+  const [color, setColor] = useState(NO_VARIANT);
+  const [type, setType] = useState<StockMovementType>('restock');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = item
+      ? InventoryService.getMovements(item.id).then((result) => !cancelled && setMovements(result))
+      : ProductService.getActiveProducts().then((result) => !cancelled && setProducts(result));
+
+    load.catch((err) => console.error('Failed to load stock details:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item]);
+
+  const product = products.find(p => p.id === productId);
+  const variant: InventoryVariant | null = item ?? (product ? {
+    productId: product.id,
+    productName: product.name,
+    sku: product.sku,
+    size: size === NO_VARIANT ? undefined : size,
+    color: color === NO_VARIANT ? undefined : color,
+  } : null);
+
+  const amount = Number(quantity);
+  const rejection = quantity ? validateStockMovement(type, amount, item?.onHand ?? 0, reason) : null;
+  const canSave = !!variant && !!quantity && !rejection && !isSaving;
+
+  const handleSave = async () => {
+    if (!variant || !canSave) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await onRecord(variant, type, amount, reason.trim() || undefined);
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to update stock');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{item ? `${item.productName} · ${describeVariant(item)}` : 'Add stock'}</DialogTitle>
+          <DialogDescription>
+            {item ? `${item.onHand} on hand, ${item.reserved} reserved for orders. ` : ''}Every change is recorded in the stock ledger.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!item && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-3 space-y-1">
+                <Label className="text-xs">Product</Label>
+                <Select
+                  value={productId}
+                  onValueChange={(value) => {
+                    setProductId(value);
+                    setSize(NO_VARIANT);
+                    setColor(NO_VARIANT);
+                  }}
+                >
+                  <SelectTrigger aria-label="Product">
+                    <SelectValue placeholder={products.length ? 'Choose a product...' : 'No active products'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}{p.sku ? ` (${p.sku})` : ''}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {product && product.sizes.length > 0 && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Size</Label>
+                  <Select value={size} onValueChange={setSize}>
+                    <SelectTrigger aria-label="Size"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_VARIANT}>Any</SelectItem>
+                      {product.sizes.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {product && product.colors.length > 0 && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Color</Label>
+                  <Select value={color} onValueChange={setColor}>
+                    <SelectTrigger aria-label="Color"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_VARIANT}>Any</SelectItem>
+                      {product.colors.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Movement</Label>
+              <Select value={type} onValueChange={(value) => setType(value as StockMovementType)}>
+                <SelectTrigger aria-label="Movement type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {STOCK_MOVEMENT_TYPES.map(option => (
+                    <SelectItem key={option} value={option}>{STOCK_MOVEMENT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stock-movement-quantity" className="text-xs">
+                {type === 'adjustment' ? 'Change (+/-)' : 'Quantity'}
+              </Label>
+              <Input
+                id="stock-movement-quantity"
+                type="number"
+                step={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="stock-movement-reason" className="text-xs">Reason</Label>
+            <Textarea
+              id="stock-movement-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_MOVEMENT_REASON_LENGTH}
+              rows={2}
+              placeholder="Supplier delivery, stock count, damaged..."
+            />
+          </div>
+
+          {item && quantity && !rejection && (
+            <p className="text-xs text-muted-foreground">
+              On hand after: {item.onHand + stockDelta(type, amount)}
+            </p>
+          )}
+          {rejection && <p className="text-xs text-destructive">{rejection}</p>}
+
+          {movements.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium text-muted-foreground">Recent movements</h4>
+              <ul className="space-y-1 text-xs max-h-40 overflow-y-auto">
+                {movements.map(movement => (
+                  <li key={movement.id}>
+                    {movement.at.toLocaleString()}: {STOCK_MOVEMENT_LABELS[movement.type]}{' '}
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity} → {movement.onHandAfter}
+                    {movement.reason && <span className="text-muted-foreground"> ({movement.reason})</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button size="sm" onClick={handleSave} disabled={!canSave}>
+            {isSaving ? 'Saving...' : 'Record'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { isValidPhoneNumber, toPhoneDigits } from '@/lib/phone';
+import { calculateOrderTotals, DEFAULT_CURRENCY, formatMoney, fromMinorUnits, toMinorUnits } from '@/lib/orders';
+import { CreateOrderData, Order, OrderLineItem } from '@/types/order';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface OrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Read once on mount, so mount the dialog when opening it
+  initialValues?: Partial<CreateOrderData>;
+  // The customer message the order is being created from
+  sourceText?: string;
+  onCreate: (data: CreateOrderData) => Promise<Order>;
+}
+
+// Prices are typed in major units ("12.50") and stored in minor units
+interface ItemRow {
+  productId?: string;
+  name: string;
+  size: string;
+  color: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const emptyRow = (): ItemRow => ({ name: '', size: '', color: '', quantity: '1', unitPrice: '' });
+
+const toRow = (item: OrderLineItem, currency: string): ItemRow => ({
+  productId: item.productId,
+  name: item.name,
+  size: item.size || '',
+  color: item.color || '',
+  quantity: String(item.quantity),
+  unitPrice: item.unitPrice ? String(fromMinorUnits(item.unitPrice, currency)) : '',
+});
+
+const toItem = (row: ItemRow, currency: string): OrderLineItem => ({
+  ...(row.productId && { productId: row.productId }),
+  name: row.name.trim(),
+  ...(row.size.trim() && { size: row.size.trim() }),
+  ...(row.color.trim() && { color: row.color.trim() }),
+  quantity: Number(row.quantity),
+  unitPrice: toMinorUnits(Number(row.unitPrice || 0), currency),
+});
+
+const isValidCurrency = (currency: string) => {
+  try {
+    return /^[A-Z]{3}$/.test(currency) && !!new Intl.NumberFormat('en', { style: 'currency', currency });
+  } catch {
+    return false;
+  }
+};
+
+export const OrderFormDialog: React.FC<OrderFormDialogProps> = ({
+  open,
+  onOpenChange,
+  initialValues,
+  sourceText,
+  onCreate,
+}) => {
+  const initialCurrency = initialValues?.currency || DEFAULT_CURRENCY;
+  const [customerName, setCustomerName] = useState(initialValues?.customer?.name || '');
+  const [customerPhone, setCustomerPhone] = useState(initialValues?.customer?.phone || '');
+  const [currency, setCurrency] = useState(initialCurrency);
+  const [rows, setRows] = useState<ItemRow[]>(() =>
+    initialValues?.items?.length ? initialValues.items.map(item => toRow(item, initialCurrency)) : [emptyRow()]
+  );
+  const [shipping, setShipping] = useState(() =>
+    initialValues?.shipping ? String(fromMinorUnits(initialValues.shipping, initialCurrency)) : ''
+  );
+  const [notes, setNotes] = useState(initialValues?.notes || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const currencyValid = isValidCurrency(currency);
+  const rowsValid = rows.every(row =>
+    row.name.trim() && Number.isInteger(Number(row.quantity)) && Number(row.quantity) >= 1 && Number(row.unitPrice || 0) >= 0
+  );
+  const isComplete = !!customerName.trim() && isValidPhoneNumber(customerPhone) && currencyValid && rowsValid;
+
+  const totals = currencyValid
+    ? calculateOrderTotals(rows.map(row => toItem(row, currency)), toMinorUnits(Number(shipping || 0), currency))
+    : null;
+
+  const updateRow = (index: number, field: keyof ItemRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleCreate = async () => {
+    if (!isComplete || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      const phone = toPhoneDigits(customerPhone);
+      await onCreate({
+        ...initialValues,
+        customer: { id: phone, name: customerName.trim(), phone },
+        items: rows.map(row => toItem(row, currency)),
+        currency,
+        shipping: toMinorUnits(Number(shipping || 0), currency),
+        notes: notes.trim() || undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to create order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New order</DialogTitle>
+          <DialogDescription>The order gets the next order number when it is created.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {sourceText && (
+            <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground italic">{sourceText}</blockquote>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="order-customer-name" className="text-xs">Customer name</Label>
+              <Input
+                id="order-customer-name"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder="Ava"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="order-customer-phone" className="text-xs">WhatsApp number</Label>
+              <Input
+                id="order-customer-phone"
+                type="tel"
+                value={customerPhone}
+                onChange={(e) => setCustomerPhone(e.target.value)}
+                placeholder="+1 555 123 4567"
+              />
+              {customerPhone && !isValidPhoneNumber(customerPhone) && (
+                <p className="text-xs text-destructive">Enter a valid phone number</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Items</h4>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-4 space-y-1">
+                  <Label htmlFor={`order-item-name-${index}`} className="text-xs">Product</Label>
+                  <Input
+                    id={`order-item-name-${index}`}
+                    value={row.name}
+                    onChange={(e) => updateRow(index, 'name', e.target.value)}
+                    placeholder="Comfort Hoodie"
+                  />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor={`order-item-size-${index}`} className="text-xs">Size</Label>
+                  <Input
+                    id={`order-item-size-${index}`}
+                    value={row.size}
+                    onChange={(e) => updateRow(index, 'size', e.target.value)}
+                  />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor={`order-item-color-${index}`} className="text-xs">Color</Label>
+                  <Input
+                    id={`order-item-color-${index}`}
+                    value={row.color}
+                    onChange={(e) => updateRow(index, 'color', e.target.value)}
+                  />
+                </div>
+                <div className="col-span-1 space-y-1">
+                  <Label htmlFor={`order-item-quantity-${index}`} className="text-xs">Qty</Label>
+                  <Input
+                    id={`order-item-quantity-${index}`}
+                    type="number"
+                    min={1}
+                    value={row.quantity}
+                    onChange={(e) => updateRow(index, 'quantity', e.target.value)}
+                  />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor={`order-item-price-${index}`} className="text-xs">Unit price</Label>
+                  <Input
+                    id={`order-item-price-${index}`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={row.unitPrice}
+                    onChange={(e) => updateRow(index, 'unitPrice', e.target.value)}
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    disabled={rows.length === 1}
+                    aria-label="Remove item"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setRows(prev => [...prev, emptyRow()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add item
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="order-currency" className="text-xs">Currency</Label>
+              <Input
+                id="order-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                maxLength={3}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="order-shipping" className="text-xs">Shipping</Label>
+              <Input
+                id="order-shipping"
+                type="number"
+                min={0}
+                step="0.01"
+                value={shipping}
+                onChange={(e) => setShipping(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="order-notes" className="text-xs">Notes</Label>
+            <Textarea
+              id="order-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Delivery instructions, gift wrap..."
+            />
+          </div>
+
+          {totals && (
+            <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+              <div className="flex justify-between text-muted-foreground">
+                <span>Subtotal</span>
+                <span>{formatMoney(totals.subtotal, currency)}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Shipping</span>
+                <span>{formatMoney(totals.shipping, currency)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{formatMoney(totals.total, currency)}</span>
+              </div>
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={!isComplete || isSaving} size="sm">
+            {isSaving ? 'Creating...' : 'Create order'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
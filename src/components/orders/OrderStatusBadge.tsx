@@ -0,0 +1,21 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ORDER_STATUS_LABELS } from '@/lib/orderLifecycle';
+import { OrderStatus } from '@/types/order';
+
+const STATUS_VARIANTS: Record<OrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'default',
+  confirmed: 'secondary',
+  packed: 'secondary',
+  shipped: 'secondary',
+  delivered: 'outline',
+  cancelled: 'outline',
+  rejected: 'destructive',
+  returned: 'destructive',
+};
+
+export const OrderStatusBadge: React.FC<{ status: OrderStatus }> = ({ status }) => (
+  <Badge variant={STATUS_VARIANTS[status]}>
+    {ORDER_STATUS_LABELS[status]}
+  </Badge>
+);
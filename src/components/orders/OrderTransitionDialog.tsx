@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  MAX_TRANSITION_REASON_LENGTH,
+  ORDER_STATUS_LABELS,
+  OrderNotificationSkipReason,
+  orderStatusMessage,
+  requiresReason,
+  validateTransition,
+} from '@/lib/orderLifecycle';
+import { formatOrderNumber } from '@/lib/orders';
+import { Order, OrderStatus, TransitionOrderOptions, TransitionOrderResult } from '@/types/order';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface OrderTransitionDialogProps {
+  order: Order;
+  to: OrderStatus;
+  onOpenChange: (open: boolean) => void;
+  onTransition: (order: Order, to: OrderStatus, options: TransitionOrderOptions) => Promise<TransitionOrderResult>;
+  // Business owners may confirm an order that stock can't cover
+  canOverrideStock: boolean;
+}
+
+type FunctionsCallError = Error & { details?: { reason?: string } };
+
+const SKIP_REASONS: Record<OrderNotificationSkipReason, string> = {
+  no_conversation: 'there is no WhatsApp conversation with them yet',
+  opted_out: 'they opted out of WhatsApp messages',
+  window_closed: 'their 24-hour service window has closed',
+};
+
+// Mount when opening, like OrderFormDialog, so every transition starts blank
+export const OrderTransitionDialog: React.FC<OrderTransitionDialogProps> = ({
+  order,
+  to,
+  onOpenChange,
+  onTransition,
+  canOverrideStock,
+}) => {
+  const [reason, setReason] = useState('');
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<OrderNotificationSkipReason | null>(null);
+  const [insufficientStock, setInsufficientStock] = useState(false);
+  const [overrideStock, setOverrideStock] = useState(false);
+
+  const notification = orderStatusMessage(order, to);
+  const rejection = validateTransition(order.status, to, reason);
+  const label = ORDER_STATUS_LABELS[to].toLowerCase();
+
+  const handleConfirm = async () => {
+    if (rejection || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      const result = await onTransition(order, to, {
+        reason: reason.trim() || undefined,
+        notifyCustomer: notifyCustomer && !!notification,
+        overrideStock,
+      });
+
+      if (result.notificationSkipped) {
+        setSkipped(result.notificationSkipped);
+      } else {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      // The function lists the short variants in its message
+      setInsufficientStock((error as FunctionsCallError).details?.reason === 'insufficient-stock');
+      setSaveError(error instanceof Error ? error.message : 'Failed to update order status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Mark order {formatOrderNumber(order)} {label}</DialogTitle>
+          <DialogDescription>
+            {order.customer.name || 'Unknown Customer'} · currently {ORDER_STATUS_LABELS[order.status].toLowerCase()}
+          </DialogDescription>
+        </DialogHeader>
+
+        {skipped ? (
+          <p className="text-sm">
+            The order is now {label}, but the customer wasn't notified because {SKIP_REASONS[skipped]}.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="order-transition-reason" className="text-xs">
+                Reason{requiresReason(to) ? '' : ' (optional)'}
+              </Label>
+              <Textarea
+                id="order-transition-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={MAX_TRANSITION_REASON_LENGTH}
+                rows={2}
+                placeholder={requiresReason(to) ? 'Out of stock, customer request...' : ''}
+              />
+              <p className="text-xs text-muted-foreground">Kept in the order history; not sent to the customer.</p>
+            </div>
+
+            {notification && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="order-transition-notify" className="text-sm">Notify customer on WhatsApp</Label>
+                  <Switch id="order-transition-notify" checked={notifyCustomer} onCheckedChange={setNotifyCustomer} />
+                </div>
+                {notifyCustomer && (
+                  <p className="rounded-md bg-muted p-3 text-sm text-muted-foreground">{notification}</p>
+                )}
+              </div>
+            )}
+
+            {order.history.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">History</h4>
+                <ul className="space-y-1 text-xs">
+                  {order.history.map((entry, index) => (
+                    <li key={index}>
+                      {entry.at.toLocaleString()}: {ORDER_STATUS_LABELS[entry.from]} → {ORDER_STATUS_LABELS[entry.to]}
+                      {entry.reason && <span className="text-muted-foreground"> ({entry.reason})</span>}
+                      {entry.stockOverride && <span className="text-destructive"> · oversold</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+
+            {insufficientStock && to === 'confirmed' && (canOverrideStock ? (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="order-transition-override" className="text-sm">Confirm anyway and oversell</Label>
+                <Switch id="order-transition-override" checked={overrideStock} onCheckedChange={setOverrideStock} />
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Restock first, or ask a business owner to confirm it anyway.</p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {skipped ? (
+            <Button size="sm" onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <Button
+              size="sm"
+              variant={requiresReason(to) ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={!!rejection || isSaving}
+            >
+              {isSaving ? 'Saving...' : `Mark ${label}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
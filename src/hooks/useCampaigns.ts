@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CampaignService } from '@/services/campaignService';
+import {
+  Campaign,
+  CampaignRecipient,
+  CampaignRecipientCounts,
+  CampaignSegment,
+  CreateCampaignData,
+} from '@/types/campaign';
+
+// Counts are aggregation queries, so they are polled rather than subscribed to
+const REPORT_REFRESH_MS = 30000;
+
+export const useCampaigns = () => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return CampaignService.subscribeToCampaigns((result) => {
+      setCampaigns(result);
+      setLoading(false);
+    }, (err) => {
+      console.error('Failed to load campaigns:', err);
+      setError(err.message);
+      setLoading(false);
+    });
+  }, []);
+
+  const createCampaign = useCallback(async (data: CreateCampaignData) => {
+    try {
+      setError(null);
+      return await CampaignService.createCampaign(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+      throw err;
+    }
+  }, []);
+
+  const cancelCampaign = useCallback(async (campaignId: string) => {
+    try {
+      setError(null);
+      await CampaignService.cancelCampaign(campaignId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel campaign');
+      throw err;
+    }
+  }, []);
+
+  const previewAudience = useCallback((segment: CampaignSegment) => {
+    return CampaignService.previewAudience(segment);
+  }, []);
+
+  return { campaigns, loading, error, createCampaign, cancelCampaign, previewAudience };
+};
+
+export const useCampaignReport = (campaignId: string | undefined) => {
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [counts, setCounts] = useState<CampaignRecipientCounts | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!campaignId) return;
+
+    const handleError = (err: Error) => {
+      console.error('Failed to load campaign report:', err);
+      setError(err.message);
+      setLoading(false);
+    };
+
+    const unsubscribeCampaign = CampaignService.subscribeToCampaign(campaignId, (result) => {
+      setCampaign(result);
+      setLoading(false);
+    }, handleError);
+    const unsubscribeRecipients = CampaignService.subscribeToRecipients(campaignId, setRecipients, handleError);
+
+    return () => {
+      unsubscribeCampaign();
+      unsubscribeRecipients();
+    };
+  }, [campaignId]);
+
+  const refreshCounts = useCallback(async () => {
+    if (!campaignId) return;
+
+    try {
+      setCounts(await CampaignService.getRecipientCounts(campaignId));
+    } catch (err) {
+      console.error('Failed to count campaign recipients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to count recipients');
+    }
+  }, [campaignId]);
+
+  // Delivery and read receipts keep arriving after the last message is queued
+  const isActive = campaign?.status === 'sending' || campaign?.status === 'completed';
+
+  useEffect(() => {
+    refreshCounts();
+
+    if (!isActive) return;
+
+    const interval = setInterval(refreshCounts, REPORT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refreshCounts, isActive]);
+
+  return { campaign, recipients, counts, loading, error, refreshCounts };
+};
@@ -0,0 +1,293 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ChatRepository } from '@/services/chatRepository';
+import { FirebaseUsageStats } from '@/services/chatCachePolicy';
+import { MediaService } from '@/services/mediaService';
+import { Conversation, ChatMessage, UserPresence, MessageTemplate, InteractiveMessage } from '@/types/chat';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface UseChatRepositoryReturn {
+  conversations: Conversation[];
+  messages: Record<string, ChatMessage[]>;
+  presence: Record<string, UserPresence>;
+  loading: boolean;
+  error: string | null;
+  usageStats: FirebaseUsageStats;
+  sendMessage: (conversation: Conversation, content: string) => Promise<void>;
+  sendTemplate: (conversation: Conversation, template: MessageTemplate, parameters: string[]) => Promise<void>;
+  sendAttachment: (conversation: Conversation, file: File, caption: string) => Promise<void>;
+  sendInteractive: (conversation: Conversation, interactive: InteractiveMessage) => Promise<void>;
+  retryMessage: (conversation: Conversation, message: ChatMessage) => Promise<void>;
+  markAsRead: (messageId: string) => Promise<void>;
+  setTyping: (conversationId: string, isTyping: boolean) => Promise<void>;
+  assignConversation: (conversationId: string, operatorId: string) => Promise<void>;
+  loadMoreMessages: (conversationId: string) => Promise<void>;
+  refreshConversations: () => void;
+}
+
+const MISSING_PHONE_ERROR = 'Customer phone number not found for this conversation.';
+// Operators whose presence is shown, taken from the most recent conversations
+const PRESENCE_OPERATOR_CONVERSATIONS = 10;
+
+/**
+ * Chat state and actions for the signed-in user, backed by the given
+ * repository. useChatService and useOptimizedChatService pick the repository
+ * (and so the caching policy).
+ */
+export const useChatRepository = (
+  repository: ChatRepository,
+  activeConversationId?: string
+): UseChatRepositoryReturn => {
+  const { currentUser, userProfile, isOperator } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [liveMessages, setLiveMessages] = useState<Record<string, ChatMessage[]>>({});
+  const [olderMessages, setOlderMessages] = useState<Record<string, ChatMessage[]>>({});
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [usageStats, setUsageStats] = useState(() => repository.policy.getUsageStats());
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleSubscriptionError = useCallback((err: Error) => {
+    console.error('Chat subscription failed:', err);
+    setError(err.message);
+    setLoading(false);
+  }, []);
+
+  // Update usage stats periodically
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setUsageStats(repository.policy.getUsageStats());
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [repository]);
+
+  // Subscribe to conversations based on user role
+  useEffect(() => {
+    if (!currentUser || !userProfile) return;
+
+    if (!repository.policy.checkRateLimit()) {
+      setError('Rate limit exceeded. Some features temporarily disabled.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const operatorId = isOperator ? currentUser.uid : undefined;
+
+    return repository.subscribeToConversations(
+      (newConversations) => {
+        setConversations(newConversations);
+        setLoading(false);
+      },
+      operatorId,
+      handleSubscriptionError
+    );
+  }, [repository, currentUser, userProfile, isOperator, refreshKey, handleSubscriptionError]);
+
+  // Subscribe to messages for the active conversation only
+  useEffect(() => {
+    if (!activeConversationId || !repository.policy.checkRateLimit()) return;
+
+    return repository.subscribeToMessages(
+      activeConversationId,
+      (newMessages) => {
+        setLiveMessages(prev => ({
+          ...prev,
+          [activeConversationId]: newMessages
+        }));
+      },
+      handleSubscriptionError
+    );
+  }, [repository, activeConversationId, handleSubscriptionError]);
+
+  // Most important first, since the repository's policy may cap how many are watched
+  const presenceUserIds = useMemo(() => {
+    if (!currentUser || conversations.length === 0) return '';
+
+    const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+    return [...new Set([
+      currentUser.uid,
+      activeConversation?.customerId,
+      ...conversations.slice(0, PRESENCE_OPERATOR_CONVERSATIONS).map(c => c.assignedOperatorId),
+      ...conversations.map(c => c.customerId),
+    ].filter(Boolean))].join(',');
+  }, [currentUser, conversations, activeConversationId]);
+
+  // Subscribe to user presence; only resubscribes when the watched users change
+  useEffect(() => {
+    if (!presenceUserIds || !repository.policy.checkRateLimit()) return;
+
+    return repository.subscribeToPresence(presenceUserIds.split(','), setPresence, handleSubscriptionError);
+  }, [repository, presenceUserIds, handleSubscriptionError]);
+
+  // Update user presence on mount/unmount
+  useEffect(() => {
+    if (!currentUser) return;
+
+    repository.updateUserPresence(currentUser.uid, 'online');
+
+    return () => {
+      repository.updateUserPresence(currentUser.uid, 'offline');
+    };
+  }, [repository, currentUser]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => repository.cleanup();
+  }, [repository]);
+
+  // Pages loaded with loadMoreMessages stay in front of the live window
+  const messages = useMemo(() => {
+    const merged: Record<string, ChatMessage[]> = { ...liveMessages };
+
+    Object.entries(olderMessages).forEach(([conversationId, older]) => {
+      const live = liveMessages[conversationId] || [];
+      const liveIds = new Set(live.map(message => message.id));
+      merged[conversationId] = [...older.filter(message => !liveIds.has(message.id)), ...live];
+    });
+
+    return merged;
+  }, [liveMessages, olderMessages]);
+
+  // Runs an operator send for a conversation with a known customer phone
+  const runSend = useCallback(async (
+    conversation: Conversation,
+    failureMessage: string,
+    send: (senderId: string, to: string) => Promise<unknown>
+  ) => {
+    if (!currentUser || !conversation) return;
+
+    if (!conversation.customerPhone) {
+      setError(MISSING_PHONE_ERROR);
+      console.error(MISSING_PHONE_ERROR);
+      return;
+    }
+
+    try {
+      await send(currentUser.uid, conversation.customerPhone);
+      setUsageStats(repository.policy.getUsageStats());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failureMessage);
+      throw err;
+    }
+  }, [repository, currentUser]);
+
+  const sendMessage = useCallback(async (conversation: Conversation, content: string) => {
+    if (!content.trim()) return;
+
+    await runSend(conversation, 'Failed to send message', (senderId, to) =>
+      repository.sendMessage(conversation.id, senderId, content.trim(), to)
+    );
+  }, [repository, runSend]);
+
+  const sendTemplate = useCallback(async (
+    conversation: Conversation,
+    template: MessageTemplate,
+    parameters: string[]
+  ) => {
+    await runSend(conversation, 'Failed to send template', (senderId, to) =>
+      repository.sendTemplateMessage(conversation.id, senderId, template, parameters.map(p => p.trim()), to)
+    );
+  }, [repository, runSend]);
+
+  const sendAttachment = useCallback(async (
+    conversation: Conversation,
+    file: File,
+    caption: string
+  ) => {
+    await runSend(conversation, 'Failed to send attachment', async (senderId, to) => {
+      const attachment = await MediaService.uploadAttachment(conversation.id, file);
+      return repository.sendMediaMessage(conversation.id, senderId, attachment, caption.trim(), to);
+    });
+  }, [repository, runSend]);
+
+  const sendInteractive = useCallback(async (
+    conversation: Conversation,
+    interactive: InteractiveMessage
+  ) => {
+    await runSend(conversation, 'Failed to send interactive message', (senderId, to) =>
+      repository.sendInteractiveMessage(conversation.id, senderId, interactive, to)
+    );
+  }, [repository, runSend]);
+
+  const retryMessage = useCallback(async (conversation: Conversation, message: ChatMessage) => {
+    await runSend(conversation, 'Failed to retry message', (senderId, to) =>
+      repository.retryMessage(message, to, senderId)
+    );
+  }, [repository, runSend]);
+
+  const markAsRead = useCallback(async (messageId: string) => {
+    if (!currentUser) return;
+
+    try {
+      await repository.markMessageAsRead(messageId, currentUser.uid);
+    } catch (err) {
+      console.error('Failed to mark message as read:', err);
+    }
+  }, [repository, currentUser]);
+
+  const setTyping = useCallback(async (conversationId: string, isTyping: boolean) => {
+    if (!currentUser) return;
+
+    try {
+      await repository.setTypingStatus(currentUser.uid, conversationId, isTyping);
+    } catch (err) {
+      console.error('Failed to update typing status:', err);
+    }
+  }, [repository, currentUser]);
+
+  const assignConversation = useCallback(async (conversationId: string, operatorId: string) => {
+    try {
+      await repository.assignConversation(conversationId, operatorId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign conversation');
+      throw err;
+    }
+  }, [repository]);
+
+  const loadMoreMessages = useCallback(async (conversationId: string) => {
+    const oldest = messages[conversationId]?.[0];
+    if (!oldest) return;
+
+    try {
+      const older = await repository.loadMoreMessages(conversationId, oldest.timestamp);
+      if (older.length === 0) return;
+
+      setOlderMessages(prev => ({
+        ...prev,
+        [conversationId]: [...older, ...(prev[conversationId] || [])]
+      }));
+      setUsageStats(repository.policy.getUsageStats());
+    } catch (err) {
+      console.error('Failed to load more messages:', err);
+    }
+  }, [repository, messages]);
+
+  // Drops cached conversations and resubscribes
+  const refreshConversations = useCallback(() => {
+    repository.policy.invalidate('conversations_');
+    setRefreshKey(key => key + 1);
+  }, [repository]);
+
+  return {
+    conversations,
+    messages,
+    presence,
+    loading,
+    error,
+    usageStats,
+    sendMessage,
+    sendTemplate,
+    sendAttachment,
+    sendInteractive,
+    retryMessage,
+    markAsRead,
+    setTyping,
+    assignConversation,
+    loadMoreMessages,
+    refreshConversations,
+  };
+};
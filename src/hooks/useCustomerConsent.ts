@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ConsentService } from '@/services/consentService';
+import { CustomerConsent } from '@/types/chat';
+
+// Live opt-out state for a customer, so the chat reacts as soon as they reply STOP
+export const useCustomerConsent = (phone: string | undefined) => {
+  const [consent, setConsent] = useState<CustomerConsent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setConsent(null);
+
+    if (!phone) return;
+
+    return ConsentService.subscribeToConsent(phone, setConsent, (err) => {
+      console.error('Failed to load customer consent:', err);
+      setError(err.message);
+    });
+  }, [phone]);
+
+  const setOverride = useCallback(async (allow: boolean, reason?: string) => {
+    if (!phone) return;
+
+    try {
+      setError(null);
+      await ConsentService.setOverride(phone, allow, reason);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update consent override';
+      setError(message);
+      throw err;
+    }
+  }, [phone]);
+
+  const isBlocked = consent?.status === 'opted_out' && !consent.override;
+
+  return { consent, isBlocked, error, setOverride };
+};
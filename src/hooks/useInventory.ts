@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { InventoryService } from '@/services/inventoryService';
+import { InventoryItem, InventoryVariant, StockMovementType } from '@/types/inventory';
+
+// Live stock for every variant, with ledgered adjustments made as the current user
+export const useInventory = () => {
+  const { currentUser } = useAuth();
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return InventoryService.subscribeToInventory((result) => {
+      setItems(result);
+      setLoading(false);
+    }, (err) => {
+      console.error('Failed to load inventory:', err);
+      setError(err.message);
+      setLoading(false);
+    });
+  }, []);
+
+  const recordMovement = useCallback(async (
+    variant: InventoryVariant,
+    type: StockMovementType,
+    quantity: number,
+    reason?: string
+  ) => {
+    if (!currentUser) throw new Error('Authentication required');
+
+    try {
+      setError(null);
+      return await InventoryService.recordMovement(variant, type, quantity, currentUser.uid, reason);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update stock');
+      throw err;
+    }
+  }, [currentUser]);
+
+  return { items, loading, error, recordMovement };
+};
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { TemplateService } from '@/services/templateService';
+import { MessageTemplate } from '@/types/chat';
+
+// Templates change rarely, so they are fetched once per mount rather than subscribed to
+export const useMessageTemplates = () => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    TemplateService.getActiveTemplates()
+      .then((result) => {
+        if (!cancelled) setTemplates(result);
+      })
+      .catch((err) => {
+        console.error('Failed to load message templates:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load templates');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { templates, loading, error };
+};
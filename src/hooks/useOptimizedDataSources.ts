@@ -3,7 +3,8 @@ import { useFirestoreCollection } from './useFirestore';
 import { useGoogleSheets } from './useGoogleSheets';
 import { orderBy } from 'firebase/firestore';
 import { defaultDataSourceConfig, DataSource } from '@/config/dataSources';
-import { OptimizedChatService } from '@/services/optimizedChatService';
+import { quotaSavingCachePolicy } from '@/services/chatCachePolicy';
+import { normalizePhoneNumber } from '@/lib/phone';
 
 // Optimized Data Sources Hook with Circuit Breaker
 export interface UnifiedMessage {
@@ -19,6 +20,8 @@ export interface UnifiedMessage {
   sender: 'operator' | 'customer';
   direction: 'inbound' | 'outbound';
   type: string;
+  // Set on enquiries an order was created from
+  orderId?: string;
 }
 
 interface WebhookMessage {
@@ -47,7 +50,7 @@ export const useOptimizedDataSources = () => {
 
   // Check Firebase rate limit
   const checkRateLimit = useCallback(() => {
-    const canProceed = OptimizedChatService.checkRateLimit();
+    const canProceed = quotaSavingCachePolicy.checkRateLimit();
     setIsRateLimited(!canProceed);
     return canProceed;
   }, []);
@@ -116,7 +119,8 @@ export const useOptimizedDataSources = () => {
       }
       
       // Handle phone number - prioritize Firebase field names from screenshot
-      const phone_number = String(doc["Phone Number"] || doc.phone_number || doc.Phone_number || 'N/A');
+      const rawPhone = doc["Phone Number"] || doc.phone_number || doc.Phone_number;
+      const phone_number = normalizePhoneNumber(rawPhone) || (rawPhone ? String(rawPhone) : 'N/A');
       
       // Handle name - prioritize Firebase field names from screenshot
       const name = doc["Profile Name"] || doc.name || doc.Name || doc.customer_name || doc.Customer_name || 'Unknown Customer';
@@ -155,7 +159,8 @@ export const useOptimizedDataSources = () => {
         source: DataSource.FIREBASE,
         sender,
         direction,
-        type
+        type,
+        orderId: doc.orderId
       };
     });
   }, [firebaseData, config.enabled, isRateLimited]);
@@ -166,7 +171,7 @@ export const useOptimizedDataSources = () => {
     
     return sheetsData.slice(0, 15).map((row, index) => ({ // Limit to 15 for preview
       id: row.id || `sheets-${Date.now()}-${index}`,
-      phone_number: String(row.phone_number || ''),
+      phone_number: normalizePhoneNumber(row.phone_number) || String(row.phone_number || ''),
       name: row.name || '',
       product: row.product || row.Product || '',
       category: row.category || row.Category || '',
@@ -342,6 +347,6 @@ export const useOptimizedDataSources = () => {
     primarySource: config.primary,
     secondarySource: config.secondary,
     isRateLimited,
-    usageStats: OptimizedChatService.getUsageStats()
+    usageStats: quotaSavingCachePolicy.getUsageStats()
   };
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { extractOrderDraft, OrderDraftSource } from '@/lib/orderExtraction';
+import { DEFAULT_CURRENCY } from '@/lib/orders';
+import { OrderService } from '@/services/orderService';
+import { ProductService } from '@/services/productService';
+import { CreateOrderData } from '@/types/order';
+
+export interface OrderDraft {
+  // The customer's message, shown above the form
+  sourceText: string;
+  values: Partial<CreateOrderData>;
+}
+
+// Order form prefilled from a customer message; the catalog is fetched each time a draft opens
+export const useOrderDraft = () => {
+  const { currentUser } = useAuth();
+  const [draft, setDraft] = useState<OrderDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDraft = useCallback(async (source: OrderDraftSource) => {
+    setLoading(true);
+    setError(null);
+
+    // Without the catalog the form still opens, just without a product match
+    const products = await ProductService.getActiveProducts().catch((err) => {
+      console.error('Failed to load products:', err);
+      return [];
+    });
+
+    setDraft({ sourceText: source.text, values: extractOrderDraft(source, products, DEFAULT_CURRENCY) });
+    setLoading(false);
+  }, []);
+
+  const closeDraft = useCallback(() => setDraft(null), []);
+
+  const createOrder = useCallback(async (data: CreateOrderData) => {
+    if (!currentUser) throw new Error('Authentication required');
+
+    try {
+      setError(null);
+      return await OrderService.createOrder(data, currentUser.uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create order');
+      throw err;
+    }
+  }, [currentUser]);
+
+  return { draft, loading, error, openDraft, closeDraft, createOrder };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OrderService } from '@/services/orderService';
+import { orderStatusForReply, ORDER_REPLY_CANCEL_REASON } from '@/lib/orderLifecycle';
+import { Conversation } from '@/types/chat';
+import { Order, OrderStatus } from '@/types/order';
+
+// Orders a reply to the confirmation buttons can still confirm or cancel
+const OPEN_STATUSES: OrderStatus[] = ['new', 'confirmed', 'packed'];
+
+/**
+ * The conversation's latest open order and the transition the customer's last
+ * order reply asks for, so an operator can apply it in one click. Only replies
+ * that came after the order was created count.
+ */
+export const useOrderReply = (conversation: Conversation) => {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOrder(null);
+
+    return OrderService.subscribeToOrders((orders) => setOrder(orders[0] ?? null), (err) => {
+      console.error('Failed to load conversation order:', err);
+      setError(err.message);
+    }, { conversationId: conversation.id, statuses: OPEN_STATUSES, maxOrders: 1 });
+  }, [conversation.id]);
+
+  const reply = conversation.lastOrderAction;
+  const to = order && reply && reply.at >= order.createdAt ? orderStatusForReply(reply.action, order.status) : null;
+
+  const applyReply = useCallback(async () => {
+    if (!order || !to) return;
+
+    try {
+      setError(null);
+      await OrderService.transitionOrder(order, to, {
+        reason: to === 'cancelled' ? ORDER_REPLY_CANCEL_REASON : undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order status');
+      throw err;
+    }
+  }, [order, to]);
+
+  return { order, to, error, applyReply };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { OrderQueryOptions, OrderService } from '@/services/orderService';
+import { CreateOrderData, Order, OrderStatus, TransitionOrderOptions, UpdateOrderData } from '@/types/order';
+
+// Live orders, newest first, optionally limited to some statuses
+export const useOrders = (statuses?: OrderStatus[]) => {
+  const { currentUser } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Callers usually pass a fresh array literal; resubscribe only when its contents change
+  const statusKey = statuses?.join(',') ?? '';
+
+  useEffect(() => {
+    setLoading(true);
+
+    const options: OrderQueryOptions = statusKey ? { statuses: statusKey.split(',') as OrderStatus[] } : {};
+
+    return OrderService.subscribeToOrders((result) => {
+      setOrders(result);
+      setLoading(false);
+    }, (err) => {
+      console.error('Failed to load orders:', err);
+      setError(err.message);
+      setLoading(false);
+    }, options);
+  }, [statusKey]);
+
+  const createOrder = useCallback(async (data: CreateOrderData) => {
+    if (!currentUser) throw new Error('Authentication required');
+
+    try {
+      setError(null);
+      return await OrderService.createOrder(data, currentUser.uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create order');
+      throw err;
+    }
+  }, [currentUser]);
+
+  const updateOrder = useCallback(async (orderId: string, updates: UpdateOrderData) => {
+    try {
+      setError(null);
+      await OrderService.updateOrder(orderId, updates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order');
+      throw err;
+    }
+  }, []);
+
+  const transitionOrder = useCallback(async (order: Order, to: OrderStatus, options?: TransitionOrderOptions) => {
+    try {
+      setError(null);
+      return await OrderService.transitionOrder(order, to, options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order status');
+      throw err;
+    }
+  }, []);
+
+  return { orders, loading, error, createOrder, updateOrder, transitionOrder };
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ScheduledMessageService } from '@/services/scheduledMessageService';
+import { Conversation, ScheduledMessage } from '@/types/chat';
+
+// Pending "send later" messages for a conversation, with schedule/edit/cancel
+export const useScheduledMessages = (conversation: Conversation | undefined) => {
+  const { currentUser } = useAuth();
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const conversationId = conversation?.id;
+  const customerPhone = conversation?.customerPhone;
+
+  useEffect(() => {
+    setScheduledMessages([]);
+
+    if (!conversationId) return;
+
+    return ScheduledMessageService.subscribeToScheduledMessages(conversationId, setScheduledMessages, (err) => {
+      console.error('Failed to load scheduled messages:', err);
+      setError(err.message);
+    });
+  }, [conversationId]);
+
+  const scheduleMessage = useCallback(async (content: string, scheduledFor: Date) => {
+    if (!currentUser || !conversationId || !customerPhone) {
+      throw new Error('Authentication required');
+    }
+
+    try {
+      setError(null);
+      await ScheduledMessageService.scheduleMessage(conversationId, customerPhone, content, scheduledFor, currentUser.uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule message');
+      throw err;
+    }
+  }, [currentUser, conversationId, customerPhone]);
+
+  const updateScheduledMessage = useCallback(async (id: string, content: string, scheduledFor: Date) => {
+    try {
+      setError(null);
+      await ScheduledMessageService.updateScheduledMessage(id, content, scheduledFor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update scheduled message');
+      throw err;
+    }
+  }, []);
+
+  const cancelScheduledMessage = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      await ScheduledMessageService.cancelScheduledMessage(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel scheduled message');
+      throw err;
+    }
+  }, []);
+
+  return { scheduledMessages, error, scheduleMessage, updateScheduledMessage, cancelScheduledMessage };
+};
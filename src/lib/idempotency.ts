@@ -0,0 +1,7 @@
+// One key per composed message. The send functions accept 8-128 letters,
+// digits, "-" or "_", and answer a repeated key with the original result.
+export const createIdempotencyKey = (): string => crypto.randomUUID();
+
+// Optimistic IDs for operator replies; persisted copies are stored under the
+// same ID so the local bubble is replaced rather than duplicated
+export const toOperatorMessageId = (idempotencyKey: string): string => `operator-${idempotencyKey}`;
@@ -0,0 +1,84 @@
+import { InteractiveMessage, InteractiveOption, OrderReplyAction } from '@/types/chat';
+
+// WhatsApp Cloud API limits for interactive messages. Mirrors
+// functions/src/interactive.ts, which re-validates before sending.
+export const INTERACTIVE_LIMITS = {
+  bodyLength: 1024,
+  maxButtons: 3,
+  buttonTitleLength: 20,
+  maxListRows: 10,
+  listButtonTextLength: 20,
+  rowTitleLength: 24,
+  rowDescriptionLength: 72,
+};
+
+// Reply IDs the webhook recognises as order decisions (see getOrderReplyAction)
+export const ORDER_CONFIRMATION_OPTIONS: InteractiveOption[] = [
+  { id: 'order:confirm', title: 'Confirm order' },
+  { id: 'order:change_size', title: 'Change size' },
+  { id: 'order:cancel', title: 'Cancel' },
+];
+
+export const ORDER_ACTION_LABELS: Record<OrderReplyAction, string> = {
+  confirm: 'Order confirmed',
+  change: 'Change requested',
+  cancel: 'Order cancelled',
+};
+
+export const getMaxOptions = (type: InteractiveMessage['type']) => {
+  return type === 'button' ? INTERACTIVE_LIMITS.maxButtons : INTERACTIVE_LIMITS.maxListRows;
+};
+
+export const getMaxTitleLength = (type: InteractiveMessage['type']) => {
+  return type === 'button' ? INTERACTIVE_LIMITS.buttonTitleLength : INTERACTIVE_LIMITS.rowTitleLength;
+};
+
+/**
+ * Check an interactive message against the WhatsApp limits.
+ * Returns a human-readable reason when it can't be sent.
+ */
+export const validateInteractiveMessage = (message: InteractiveMessage): string | null => {
+  if (!message.body.trim()) {
+    return 'Add a message body';
+  }
+
+  if (message.body.length > INTERACTIVE_LIMITS.bodyLength) {
+    return `The message body must be ${INTERACTIVE_LIMITS.bodyLength} characters or fewer`;
+  }
+
+  const maxOptions = getMaxOptions(message.type);
+
+  if (message.options.length === 0 || message.options.length > maxOptions) {
+    return `Add between 1 and ${maxOptions} options`;
+  }
+
+  const maxTitleLength = getMaxTitleLength(message.type);
+
+  for (const [index, option] of message.options.entries()) {
+    if (!option.title.trim()) {
+      return `Option ${index + 1} needs a title`;
+    }
+
+    if (option.title.length > maxTitleLength) {
+      return `Option ${index + 1} must be ${maxTitleLength} characters or fewer`;
+    }
+
+    if ((option.description?.length || 0) > INTERACTIVE_LIMITS.rowDescriptionLength) {
+      return `Option ${index + 1} description must be ${INTERACTIVE_LIMITS.rowDescriptionLength} characters or fewer`;
+    }
+  }
+
+  if (new Set(message.options.map(option => option.title.trim().toLowerCase())).size !== message.options.length) {
+    return 'Option titles must be different';
+  }
+
+  if (message.type === 'list') {
+    const buttonText = message.buttonText?.trim() || '';
+
+    if (!buttonText || buttonText.length > INTERACTIVE_LIMITS.listButtonTextLength) {
+      return `The list button needs a label of up to ${INTERACTIVE_LIMITS.listButtonTextLength} characters`;
+    }
+  }
+
+  return null;
+};
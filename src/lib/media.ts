@@ -0,0 +1,80 @@
+import { ChatMessage } from '@/types/chat';
+
+type MediaKind = 'image' | 'audio' | 'document';
+
+// WhatsApp Cloud API media limits. Mirrors functions/src/media.ts, which
+// re-checks the uploaded file before sending it.
+export const MEDIA_LIMITS: Record<MediaKind, { maxBytes: number; mimeTypes: string[] }> = {
+  image: {
+    maxBytes: 5 * 1024 * 1024,
+    mimeTypes: ['image/jpeg', 'image/png'],
+  },
+  audio: {
+    maxBytes: 16 * 1024 * 1024,
+    mimeTypes: ['audio/aac', 'audio/mp4', 'audio/mpeg', 'audio/amr', 'audio/ogg'],
+  },
+  document: {
+    maxBytes: 100 * 1024 * 1024,
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+  },
+};
+
+// For the file input's `accept` attribute
+export const ACCEPTED_MEDIA_TYPES = Object.values(MEDIA_LIMITS)
+  .flatMap(limit => limit.mimeTypes)
+  .join(',');
+
+const MESSAGE_TYPES: Record<MediaKind, ChatMessage['messageType']> = {
+  image: 'image',
+  audio: 'voice',
+  document: 'file',
+};
+
+const getMediaKind = (mimeType: string): MediaKind | null => {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  const kinds = Object.keys(MEDIA_LIMITS) as MediaKind[];
+  return kinds.find(kind => MEDIA_LIMITS[kind].mimeTypes.includes(type)) || null;
+};
+
+export const getAttachmentMessageType = (mimeType: string): ChatMessage['messageType'] => {
+  const kind = getMediaKind(mimeType);
+  return kind ? MESSAGE_TYPES[kind] : 'file';
+};
+
+/**
+ * Check a file against the WhatsApp limits for its type.
+ * Returns a human-readable reason when the file can't be sent.
+ */
+export const validateMediaFile = (file: Pick<File, 'type' | 'size'>): string | null => {
+  const kind = getMediaKind(file.type);
+
+  if (!kind) {
+    return `Files of type ${file.type || 'unknown'} can't be sent over WhatsApp`;
+  }
+
+  const { maxBytes } = MEDIA_LIMITS[kind];
+
+  if (file.size > maxBytes) {
+    return `${kind[0].toUpperCase()}${kind.slice(1)} files must be ${formatFileSize(maxBytes)} or smaller`;
+  }
+
+  return null;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+};
+
+// Inbound media without a caption is stored with content like "[image]"
+export const isMediaPlaceholder = (content: string): boolean => /^\[\w+\]$/.test(content);
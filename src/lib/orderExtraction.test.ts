@@ -0,0 +1,80 @@
+import { expect, test } from 'vitest';
+import { Product } from '@/types/product';
+import { extractOrderDraft, matchProduct, parseQuantity, parseSize } from './orderExtraction';
+
+const product = (overrides: Partial<Product>): Product => ({
+  id: 'product',
+  name: 'Product',
+  unitPrice: 1000,
+  currency: 'USD',
+  sizes: [],
+  colors: [],
+  aliases: [],
+  isActive: true,
+  ...overrides,
+});
+
+const hoodie = product({
+  id: 'hoodie',
+  name: 'Comfort Hoodie',
+  unitPrice: 4500,
+  sizes: ['S', 'M', 'L', 'XL'],
+  colors: ['Black', 'Grey'],
+  aliases: ['hoodie'],
+});
+const tee = product({ id: 'tee', name: 'Sport Tee', unitPrice: 2000, sizes: ['M', 'L'], aliases: ['tee', 't-shirt'] });
+const catalog = [hoodie, tee];
+
+test('matchProduct prefers the enquiry product, then the longest name in the text', () => {
+  expect(matchProduct(catalog, 'I want a hoodie', 'Sport Tee')).toBe(tee);
+  expect(matchProduct(catalog, 'Two t-shirts please')).toBe(tee);
+  expect(matchProduct(catalog, 'Is the comfort hoodie back?')).toBe(hoodie);
+  expect(matchProduct(catalog, 'Do you ship internationally?')).toBeNull();
+});
+
+test('parseQuantity reads counts next to the product or a multiplier', () => {
+  expect(parseQuantity('Can I get 3 hoodies?', hoodie)).toBe(3);
+  expect(parseQuantity('two black hoodies please', hoodie)).toBe(2);
+  expect(parseQuantity('Sport Tee x2', tee)).toBe(2);
+  expect(parseQuantity('qty: 4')).toBe(4);
+  expect(parseQuantity('Any update on order #1002?', tee)).toBeNull();
+});
+
+test('parseSize accepts written sizes and only capital single letters', () => {
+  expect(parseSize('size M please')).toBe('M');
+  expect(parseSize('in extra large', hoodie.sizes)).toBe('XL');
+  expect(parseSize("I'm after a medium")).toBe('M');
+  expect(parseSize("I'm not sure")).toBeNull();
+  expect(parseSize('Hoodie in L')).toBe('L');
+  // Sizes the product doesn't come in are left for the operator
+  expect(parseSize('size XL', tee.sizes)).toBeNull();
+});
+
+test('extractOrderDraft prefills the customer, source and a priced line item', () => {
+  const draft = extractOrderDraft({
+    text: 'Hi, I would like 2 Comfort Hoodies in black, size L',
+    customerName: 'Ava',
+    customerPhone: '15551234567',
+    conversationId: '15551234567',
+    sourceMessage: { collection: 'messages', messageId: 'enquiry-1' },
+  }, catalog, 'EUR');
+
+  expect(draft).toEqual({
+    customer: { id: '15551234567', name: 'Ava', phone: '15551234567' },
+    conversationId: '15551234567',
+    sourceMessage: { collection: 'messages', messageId: 'enquiry-1' },
+    items: [{ productId: 'hoodie', name: 'Comfort Hoodie', quantity: 2, unitPrice: 4500, size: 'L', color: 'Black' }],
+    currency: 'USD',
+  });
+});
+
+test('extractOrderDraft keeps the enquiry product name when the catalog has no match', () => {
+  const draft = extractOrderDraft(
+    { text: 'Is this in stock?', productHint: 'Denim Jacket', customerPhone: '15551234567' },
+    catalog,
+    'EUR'
+  );
+
+  expect(draft.items).toEqual([{ name: 'Denim Jacket', quantity: 1, unitPrice: 0 }]);
+  expect(draft.currency).toBe('EUR');
+});
@@ -0,0 +1,189 @@
+import { CreateOrderData, OrderLineItem, OrderSourceMessage } from '@/types/order';
+import { Product } from '@/types/product';
+
+/**
+ * Best-effort reading of an order out of a customer's message, for
+ * prefilling the order form. Anything it can't find is left for the
+ * operator to fill in, so it prefers missing a detail to guessing one.
+ */
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, pair: 2, couple: 2,
+};
+
+const QUANTITY_TOKEN = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+// Spelled-out and abbreviated sizes, longest first so "extra large" beats "large"
+const SIZE_WORDS: [string, string][] = [
+  ['extra extra large', 'XXL'],
+  ['extra large', 'XL'],
+  ['extra small', 'XS'],
+  ['xxxl', '3XL'],
+  ['3xl', '3XL'],
+  ['xxl', 'XXL'],
+  ['2xl', 'XXL'],
+  ['xl', 'XL'],
+  ['xs', 'XS'],
+  ['small', 'S'],
+  ['medium', 'M'],
+  ['large', 'L'],
+];
+
+// Lowercase words separated by single spaces; apostrophes are dropped so "I'm" can't read as size M
+export const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/#\d+/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A normalized phrase, allowing a plural "s"; callers add the word boundaries
+const phrasePattern = (phrase: string) => `${escapeRegExp(normalizeText(phrase))}s?`;
+
+const containsPhrase = (text: string, phrase: string) => new RegExp(`\\b${phrasePattern(phrase)}\\b`).test(text);
+
+const productNames = (product: Product): string[] =>
+  [product.name, ...product.aliases, product.sku].filter((name): name is string => !!name?.trim());
+
+/**
+ * The catalog product a message is about. The enquiry's own product field
+ * (set by the n8n flow) wins when it names a product exactly; otherwise the
+ * longest product name or alias found in the text does.
+ */
+export const matchProduct = (products: Product[], text: string, productHint?: string): Product | null => {
+  const hint = productHint ? normalizeText(productHint) : '';
+
+  if (hint) {
+    const exact = products.find(product => productNames(product).some(name => normalizeText(name) === hint));
+    if (exact) return exact;
+  }
+
+  const haystack = `${normalizeText(text)} ${hint}`;
+  let best: { product: Product; length: number } | null = null;
+
+  for (const product of products) {
+    for (const name of productNames(product)) {
+      const length = normalizeText(name).length;
+      if ((!best || length > best.length) && containsPhrase(haystack, name)) {
+        best = { product, length };
+      }
+    }
+  }
+
+  return best?.product ?? null;
+};
+
+const toQuantity = (token: string): number => NUMBER_WORDS[token] ?? Number(token);
+
+/**
+ * Quantity written as "2 x", "x2", "qty 2", "3 pcs", or a number right
+ * before the product ("two hoodies"). Null when none is found.
+ */
+export const parseQuantity = (text: string, product?: Product | null): number | null => {
+  // "2x" and "x2" become "2 x" and "x 2" before the × is stripped
+  const normalized = normalizeText(
+    text.replace(/(\d)\s*[x×](?!\p{L})/giu, '$1 x ').replace(/(?<!\p{L})[x×]\s*(\d)/giu, ' x $1')
+  );
+  const patterns = [
+    `\\b(?:qty|quantity)\\s+${QUANTITY_TOKEN}\\b`,
+    `\\bx\\s+(\\d{1,3})\\b`,
+    `\\b(\\d{1,3})\\s+(?:x|pcs|pc|pieces|units)\\b`,
+    ...(product ? productNames(product).map(name =>
+      `\\b${QUANTITY_TOKEN}\\s+(?:of\\s+)?(?:the\\s+|your\\s+)?(?:\\w+\\s+)?${phrasePattern(name)}\\b`
+    ) : []),
+  ];
+
+  for (const pattern of patterns) {
+    const match = normalized.match(new RegExp(pattern));
+    const quantity = match && toQuantity(match[1]);
+    if (quantity && quantity >= 1) return quantity;
+  }
+
+  return null;
+};
+
+/**
+ * Size from "size M", "in XL", "medium", or a capital S/M/L on its own.
+ * When the product lists its sizes, only those are accepted, spelled the
+ * product's way.
+ */
+export const parseSize = (text: string, sizes: string[] = []): string | null => {
+  const normalized = normalizeText(text);
+  const fromList = (size: string) =>
+    sizes.length ? sizes.find(option => option.toLowerCase() === size.toLowerCase()) ?? null : size;
+
+  const labelled = normalized.match(/\bsize\s+([a-z0-9]+(?:\s+large|\s+small)?)\b/);
+  if (labelled) {
+    const word = SIZE_WORDS.find(([spelled]) => spelled === labelled[1]);
+    const size = fromList(word ? word[1] : labelled[1].toUpperCase());
+    if (size) return size;
+  }
+
+  for (const [spelled, size] of SIZE_WORDS) {
+    if (new RegExp(`\\b${spelled}\\b`).test(normalized)) {
+      const match = fromList(size);
+      if (match) return match;
+    }
+  }
+
+  // Single letters only count in capitals, so "a" or "s" in a sentence don't
+  const letter = text.replace(/['’]\w*/g, '').match(/(?:^|[^\p{L}])([SML])(?![\p{L}])/u);
+  return letter ? fromList(letter[1]) : null;
+};
+
+// One of the product's colors named in the text
+export const parseColor = (text: string, colors: string[]): string | null => {
+  const normalized = normalizeText(text);
+  return colors.find(color => containsPhrase(normalized, color)) ?? null;
+};
+
+export interface OrderDraftSource {
+  text: string;
+  // Product named by the enquiry flow, if any
+  productHint?: string;
+  customerName?: string;
+  customerPhone: string;
+  conversationId?: string;
+  sourceMessage?: OrderSourceMessage;
+}
+
+/**
+ * Prefill for the order form from a message: the customer, the source
+ * message and conversation, and one line item with whatever product,
+ * quantity, size and color could be read from it.
+ */
+export const extractOrderDraft = (
+  source: OrderDraftSource,
+  products: Product[],
+  defaultCurrency: string
+): Partial<CreateOrderData> => {
+  // The dashboard shows "No product specified" when the enquiry flow found none
+  const hint = source.productHint && normalizeText(source.productHint) !== 'no product specified'
+    ? source.productHint.trim()
+    : '';
+  const product = matchProduct(products, source.text, hint);
+
+  const item: OrderLineItem = {
+    ...(product && { productId: product.id }),
+    name: product?.name ?? hint,
+    quantity: parseQuantity(source.text, product) ?? 1,
+    unitPrice: product?.unitPrice ?? 0,
+  };
+
+  const size = parseSize(source.text, product?.sizes);
+  const color = product ? parseColor(source.text, product.colors) : null;
+  if (size) item.size = size;
+  if (color) item.color = color;
+
+  return {
+    customer: { id: source.customerPhone, name: source.customerName, phone: source.customerPhone },
+    ...(source.conversationId && { conversationId: source.conversationId }),
+    ...(source.sourceMessage && { sourceMessage: source.sourceMessage }),
+    items: [item],
+    currency: product?.currency || defaultCurrency,
+  };
+};
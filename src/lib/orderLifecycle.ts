@@ -0,0 +1,17 @@
+// The order state machine is shared with the functions, which enforce it
+export {
+  canTransition,
+  isFinalStatus,
+  nextForwardStatus,
+  orderStatusForReply,
+  orderStatusMessage,
+  requiresReason,
+  validateTransition,
+  MAX_TRANSITION_REASON_LENGTH,
+  ORDER_REPLY_CANCEL_REASON,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS,
+} from '../../functions/src/orderLifecycle';
+
+export type { OrderNotificationSkipReason } from '../../functions/src/orderLifecycle';
@@ -0,0 +1,61 @@
+import { Order, OrderLineItem, OrderTotals } from '@/types/order';
+
+export const DEFAULT_CURRENCY = import.meta.env.VITE_DEFAULT_CURRENCY || 'USD';
+
+// Digits after the decimal point in the currency's minor unit (2 for USD, 0 for JPY)
+const minorUnitDigits = (currency: string): number =>
+  new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+export const toMinorUnits = (amount: number, currency: string): number =>
+  Math.round(amount * 10 ** minorUnitDigits(currency));
+
+export const fromMinorUnits = (amount: number, currency: string): number =>
+  amount / 10 ** minorUnitDigits(currency);
+
+export const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(fromMinorUnits(amount, currency));
+
+export const formatOrderNumber = (order: Pick<Order, 'number'>): string => `#${order.number}`;
+
+export const calculateOrderTotals = (
+  items: OrderLineItem[],
+  shipping: number = 0,
+  discount: number = 0
+): OrderTotals => {
+  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+
+  return {
+    subtotal,
+    shipping,
+    discount,
+    total: Math.max(subtotal + shipping - discount, 0),
+  };
+};
+
+// Rejects line items the order form or an import could produce but an order can't hold
+export const validateOrderItems = (items: OrderLineItem[]): void => {
+  if (items.length === 0) {
+    throw new Error('An order needs at least one item');
+  }
+
+  items.forEach(item => {
+    if (!item.name.trim()) {
+      throw new Error('Every item needs a product name');
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new Error(`Quantity of ${item.name} must be a whole number of at least 1`);
+    }
+    if (!Number.isInteger(item.unitPrice) || item.unitPrice < 0) {
+      throw new Error(`Price of ${item.name} must not be negative`);
+    }
+  });
+};
+
+// "2 × Comfort Hoodie (M), Sport Tee" for tables
+export const summarizeOrderItems = (items: OrderLineItem[]): string =>
+  items
+    .map(item => {
+      const variant = [item.size, item.color].filter(Boolean).join(', ');
+      return `${item.quantity > 1 ? `${item.quantity} × ` : ''}${item.name}${variant ? ` (${variant})` : ''}`;
+    })
+    .join(', ');
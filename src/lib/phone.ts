@@ -0,0 +1,42 @@
+import {
+  CountryCode,
+  formatPhoneNumber as formatForCountry,
+  isValidPhoneNumber as isValidForCountry,
+  normalizePhoneNumber as normalizeForCountry,
+  resolveCountryCode,
+  toPhoneDigits as toDigitsForCountry,
+  whatsAppIdToE164,
+} from '../../functions/src/phone';
+
+export type { CountryCode, ParsedPhoneNumber } from '../../functions/src/phone';
+
+// Country assumed for numbers typed without an international prefix. Set
+// VITE_DEFAULT_PHONE_COUNTRY (e.g. IN, GB) to match DEFAULT_PHONE_COUNTRY in functions.
+export const DEFAULT_PHONE_COUNTRY: CountryCode = resolveCountryCode(import.meta.env.VITE_DEFAULT_PHONE_COUNTRY);
+
+type PhoneInput = string | number | null | undefined;
+
+// E.164 (+919876543210), or null when the input isn't a valid number
+export const normalizePhoneNumber = (input: PhoneInput): string | null => {
+  return normalizeForCountry(input, DEFAULT_PHONE_COUNTRY);
+};
+
+export const isValidPhoneNumber = (input: PhoneInput): boolean => {
+  return isValidForCountry(input, DEFAULT_PHONE_COUNTRY);
+};
+
+// Digits-only form used as the conversation document ID and WhatsApp recipient
+export const toPhoneDigits = (input: PhoneInput): string => {
+  return toDigitsForCountry(input, DEFAULT_PHONE_COUNTRY);
+};
+
+// Digits of a WhatsApp ID (wa_id), e.g. from n8n. Already international, so
+// unlike toPhoneDigits it is never read as a DEFAULT_PHONE_COUNTRY number.
+export const whatsAppIdToDigits = (waId: string | number): string => {
+  return whatsAppIdToE164(String(waId)).slice(1);
+};
+
+// "+44 7911 123456" for display; invalid input is returned as-is
+export const formatPhoneNumber = (input: PhoneInput): string => {
+  return formatForCountry(input, DEFAULT_PHONE_COUNTRY);
+};
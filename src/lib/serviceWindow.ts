@@ -0,0 +1,33 @@
+import { ChatMessage, Conversation } from '@/types/chat';
+
+// WhatsApp accepts free-form replies for 24 hours after the customer's last message;
+// after that only approved templates can be sent. Mirrors functions/src/serviceWindow.ts.
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const getServiceWindowExpiry = (lastInboundAt: Date): Date => {
+  return new Date(lastInboundAt.getTime() + SERVICE_WINDOW_MS);
+};
+
+/**
+ * When the conversation's service window closes. Falls back to the last loaded
+ * customer message for conversations created before `lastInboundAt` was tracked.
+ */
+export const resolveServiceWindowExpiry = (
+  conversation: Conversation,
+  messages: ChatMessage[] = []
+): Date | null => {
+  if (conversation.serviceWindowExpiresAt) {
+    return conversation.serviceWindowExpiresAt;
+  }
+
+  if (conversation.lastInboundAt) {
+    return getServiceWindowExpiry(conversation.lastInboundAt);
+  }
+
+  const lastInboundMessage = [...messages].reverse().find(m => m.senderType === 'customer');
+  return lastInboundMessage ? getServiceWindowExpiry(lastInboundMessage.timestamp) : null;
+};
+
+export const isServiceWindowOpen = (expiresAt: Date | null, now: Date = new Date()): boolean => {
+  return !!expiresAt && expiresAt.getTime() > now.getTime();
+};
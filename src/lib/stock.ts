@@ -0,0 +1,20 @@
+// Stock rules are shared with the functions, which apply them to order reservations
+export {
+  availableStock,
+  describeShortages,
+  inventoryItemId,
+  isStockMovementType,
+  stockDelta,
+  validateStockMovement,
+  INVENTORY_COLLECTION,
+  MAX_MOVEMENT_REASON_LENGTH,
+  STOCK_MOVEMENT_LABELS,
+  STOCK_MOVEMENT_TYPES,
+  STOCK_MOVEMENTS_COLLECTION,
+} from '../../functions/src/stock';
+
+export type { StockAllocation, StockMovementType, StockShortage, StockVariant } from '../../functions/src/stock';
+
+// "M / Black", for tables and dialogs
+export const describeVariant = (variant: { size?: string; color?: string }): string =>
+  [variant.size, variant.color].filter(Boolean).join(' / ') || 'One size';
@@ -1,13 +1,16 @@
+import { Link } from 'react-router-dom';
 import DashboardLayout from '@/components/shared/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { 
   DollarSign, 
   TrendingUp, 
   Users, 
   Package,
   BarChart3,
-  PieChart
+  PieChart,
+  Megaphone
 } from 'lucide-react';
 
 const BusinessOwnerDashboard = () => {
@@ -143,6 +146,24 @@ const BusinessOwnerDashboard = () => {
           </Card>
         </div>
 
+        {/* Campaigns */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="flex items-center">
+              <Megaphone className="h-5 w-5 mr-2" />
+              Broadcast Campaigns
+            </CardTitle>
+            <Button size="sm" variant="outline" asChild>
+              <Link to="/business-owner/campaigns">Manage campaigns</Link>
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Send approved templates to customer segments and follow delivery per recipient.
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Monthly Overview */}
         <Card>
           <CardHeader>
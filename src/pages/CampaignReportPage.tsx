@@ -0,0 +1,136 @@
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import DashboardLayout from '@/components/shared/DashboardLayout';
+import { CampaignStatusBadge } from '@/components/campaigns/CampaignStatusBadge';
+import { useCampaignReport } from '@/hooks/useCampaigns';
+import { CampaignRecipientState } from '@/types/campaign';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+
+const REPORT_STATES: { state: CampaignRecipientState; label: string }[] = [
+  { state: 'pending', label: 'Pending' },
+  { state: 'queued', label: 'Queued' },
+  { state: 'sent', label: 'Sent' },
+  { state: 'delivered', label: 'Delivered' },
+  { state: 'read', label: 'Read' },
+  { state: 'failed', label: 'Failed' },
+  { state: 'excluded', label: 'Opted out' },
+];
+
+const CampaignReportPage = () => {
+  const { campaignId } = useParams<{ campaignId: string }>();
+  const { campaign, recipients, counts, loading, error, refreshCounts } = useCampaignReport(campaignId);
+
+  const total = campaign?.recipientCount ?? 0;
+  const finished = counts
+    ? counts.sent + counts.delivered + counts.read + counts.failed + counts.excluded
+    : 0;
+
+  return (
+    <DashboardLayout
+      title={campaign?.name || 'Campaign report'}
+      subtitle={campaign ? `${campaign.template.name} · starts ${format(campaign.scheduledFor, 'MMM dd, HH:mm')}` : undefined}
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/business-owner/campaigns">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              All campaigns
+            </Link>
+          </Button>
+          {campaign && <CampaignStatusBadge status={campaign.status} />}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading campaign...</p>
+        ) : !campaign ? (
+          <p className="text-sm text-muted-foreground">This campaign does not exist.</p>
+        ) : (
+          <>
+            {campaign.error && <p className="text-sm text-destructive">{campaign.error}</p>}
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Delivery</CardTitle>
+                <Button variant="ghost" size="sm" onClick={refreshCounts} aria-label="Refresh counts">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Progress value={total > 0 ? (finished / total) * 100 : 0} />
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+                  {REPORT_STATES.map(({ state, label }) => (
+                    <div key={state} className="text-center p-3 bg-dashboard-accent rounded-lg">
+                      <div className="text-2xl font-bold text-primary">{counts?.[state] ?? '—'}</div>
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">{campaign.content}</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent recipient activity</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {recipients.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Recipients are listed once the campaign starts.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>State</TableHead>
+                        <TableHead>Updated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {recipients.map((recipient) => (
+                        <TableRow key={recipient.id}>
+                          <TableCell>{recipient.customerName || '—'}</TableCell>
+                          <TableCell>{recipient.phone}</TableCell>
+                          <TableCell>
+                            <Badge variant={recipient.state === 'failed' ? 'destructive' : 'outline'} className="capitalize">
+                              {recipient.state === 'excluded' ? 'opted out' : recipient.state}
+                            </Badge>
+                            {recipient.error && (
+                              <p className="text-xs text-destructive mt-1">{recipient.error}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {recipient.updatedAt ? format(recipient.updatedAt, 'MMM dd, HH:mm') : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CampaignReportPage;
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import DashboardLayout from '@/components/shared/DashboardLayout';
+import { CampaignBuilder } from '@/components/campaigns/CampaignBuilder';
+import { CampaignStatusBadge } from '@/components/campaigns/CampaignStatusBadge';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Megaphone, Plus } from 'lucide-react';
+
+const CampaignsPage = () => {
+  const { campaigns, loading, error, createCampaign, cancelCampaign, previewAudience } = useCampaigns();
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+
+  return (
+    <DashboardLayout
+      title="Broadcast Campaigns"
+      subtitle="Send approved templates to customer segments"
+    >
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center">
+            <Megaphone className="h-5 w-5 mr-2" />
+            Campaigns
+          </CardTitle>
+          <Button size="sm" onClick={() => setIsBuilderOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New campaign
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading campaigns...</p>
+          ) : campaigns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No campaigns yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((campaign) => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/business-owner/campaigns/${campaign.id}`} className="hover:underline">
+                        {campaign.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{campaign.template.name}</TableCell>
+                    <TableCell>{format(campaign.scheduledFor, 'MMM dd, HH:mm')}</TableCell>
+                    <TableCell>{campaign.recipientCount ?? '—'}</TableCell>
+                    <TableCell><CampaignStatusBadge status={campaign.status} /></TableCell>
+                    <TableCell className="text-right">
+                      {(campaign.status === 'scheduled' || campaign.status === 'sending') && (
+                        <Button variant="ghost" size="sm" onClick={() => cancelCampaign(campaign.id)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CampaignBuilder
+        open={isBuilderOpen}
+        onOpenChange={setIsBuilderOpen}
+        onCreate={createCampaign}
+        onPreviewAudience={previewAudience}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default CampaignsPage;
@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
 import { useOptimizedChatService } from '@/hooks/useOptimizedChatService';
+import { useMessageTemplates } from '@/hooks/useMessageTemplates';
+import { useOrderDraft } from '@/hooks/useOrderDraft';
 import { ConversationList } from '@/components/chat/ConversationList';
 import { EnhancedChatPanel } from '@/components/chat/EnhancedChatPanel';
 import { FirebaseUsageMonitor } from '@/components/FirebaseUsageMonitor';
-import { Conversation } from '@/types/chat';
+import { OrderFormDialog } from '@/components/orders/OrderFormDialog';
+import { MESSAGES_COLLECTION } from '@/services/chatRepository';
+import { toPhoneDigits } from '@/lib/phone';
+import { ChatMessage, Conversation, InteractiveMessage, MessageTemplate } from '@/types/chat';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -30,12 +35,18 @@ const ChatDashboard: React.FC = () => {
     error,
     usageStats,
     sendMessage,
+    sendTemplate,
+    sendAttachment,
+    sendInteractive,
+    retryMessage,
     markAsRead,
     setTyping,
     assignConversation,
     loadMoreMessages,
     refreshConversations,
   } = useOptimizedChatService(activeConversation?.id);
+  const { templates } = useMessageTemplates();
+  const { draft: orderDraft, openDraft: openOrderDraft, closeDraft: closeOrderDraft, createOrder } = useOrderDraft();
 
   const handleConversationSelect = (conversation: Conversation) => {
     setActiveConversation(conversation);
@@ -46,6 +57,26 @@ const ChatDashboard: React.FC = () => {
     await sendMessage(activeConversation, content);
   };
 
+  const handleSendTemplate = async (template: MessageTemplate, parameters: string[]) => {
+    if (!activeConversation) return;
+    await sendTemplate(activeConversation, template, parameters);
+  };
+
+  const handleSendAttachment = async (file: File, caption: string) => {
+    if (!activeConversation) return;
+    await sendAttachment(activeConversation, file, caption);
+  };
+
+  const handleSendInteractive = async (interactive: InteractiveMessage) => {
+    if (!activeConversation) return;
+    await sendInteractive(activeConversation, interactive);
+  };
+
+  const handleRetryMessage = async (message: ChatMessage) => {
+    if (!activeConversation) return;
+    await retryMessage(activeConversation, message);
+  };
+
   const handleMarkAsRead = async (messageId: string) => {
     await markAsRead(messageId);
   };
@@ -60,6 +91,17 @@ const ChatDashboard: React.FC = () => {
     await loadMoreMessages(activeConversation.id);
   };
 
+  const handleCreateOrder = async (message: ChatMessage) => {
+    if (!activeConversation) return;
+    await openOrderDraft({
+      text: message.content,
+      customerName: activeConversation.customerName,
+      customerPhone: toPhoneDigits(activeConversation.customerPhone),
+      conversationId: activeConversation.id,
+      sourceMessage: { collection: MESSAGES_COLLECTION, messageId: message.id },
+    });
+  };
+
   const handleCloseChatPanel = () => {
     setActiveConversation(null);
   };
@@ -190,13 +232,19 @@ const ChatDashboard: React.FC = () => {
           <div className="lg:col-span-2">
             {activeConversation ? (
               <EnhancedChatPanel
-                conversation={activeConversation}
+                conversation={conversations.find(c => c.id === activeConversation.id) || activeConversation}
                 messages={messages[activeConversation.id] || []}
                 presence={presence}
                 onSendMessage={handleSendMessage}
+                onRetryMessage={handleRetryMessage}
+                onSendAttachment={handleSendAttachment}
+                onSendInteractive={handleSendInteractive}
+                templates={templates}
+                onSendTemplate={handleSendTemplate}
                 onMarkAsRead={handleMarkAsRead}
                 onSetTyping={handleSetTyping}
                 onLoadMoreMessages={handleLoadMoreMessages}
+                onCreateOrder={handleCreateOrder}
                 isOpen={true}
                 onClose={handleCloseChatPanel}
               />
@@ -279,6 +327,16 @@ const ChatDashboard: React.FC = () => {
           </div>
         )}
       </div>
+
+      {orderDraft && (
+        <OrderFormDialog
+          open
+          onOpenChange={(open) => !open && closeOrderDraft()}
+          initialValues={orderDraft.values}
+          sourceText={orderDraft.sourceText}
+          onCreate={createOrder}
+        />
+      )}
     </DashboardLayout>
   );
 };
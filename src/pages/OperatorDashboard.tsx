@@ -17,7 +17,6 @@ import {
   Package, 
   MessageSquare, 
   History,
-  Search,
   Plus,
   Minus,
   Send,
@@ -26,7 +25,8 @@ import {
   Users,
   Database,
   Globe,
-  FileSpreadsheet
+  FileSpreadsheet,
+  ArrowUpDown
 } from 'lucide-react';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
@@ -34,8 +34,42 @@ import { ChatPanel } from "@/components/ChatPanel";
 import { DataSourceTester } from "@/components/DataSourceTester";
 import { useOptimizedDataSources } from '@/hooks/useOptimizedDataSources';
 import { defaultDataSourceConfig, DataSource } from '@/config/dataSources';
+import { formatPhoneNumber, toPhoneDigits } from '@/lib/phone';
+import { formatMoney, formatOrderNumber, summarizeOrderItems } from '@/lib/orders';
+import { useOrders } from '@/hooks/useOrders';
+import { useOrderDraft } from '@/hooks/useOrderDraft';
+import { useInventory } from '@/hooks/useInventory';
+import { useAuth } from '@/contexts/AuthContext';
+import { StockMovementDialog } from '@/components/inventory/StockMovementDialog';
+import { availableStock, describeVariant } from '@/lib/stock';
+import { InventoryItem } from '@/types/inventory';
+import { OrderFormDialog } from '@/components/orders/OrderFormDialog';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusBadge';
+import { OrderTransitionDialog } from '@/components/orders/OrderTransitionDialog';
+import { canTransition, nextForwardStatus } from '@/lib/orderLifecycle';
+import { Order, OrderStatus } from '@/types/order';
+
+// Orders still waiting to be shipped
+const OPEN_ORDER_STATUSES: OrderStatus[] = ['new', 'confirmed', 'packed'];
+
+// Button labels for moving an open order along
+const PROCESS_LABELS: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'Confirm',
+  packed: 'Pack',
+  shipped: 'Ship',
+};
+
+type InventorySortKey = 'sku' | 'productName' | 'onHand' | 'reserved' | 'available';
+
+const inventoryCount = (item: InventoryItem, key: 'onHand' | 'reserved' | 'available'): number =>
+  key === 'available' ? availableStock(item) : item[key];
+
+// New orders are rejected; accepted ones can only be cancelled
+const rejectStatusFor = (order: Order): OrderStatus =>
+  canTransition(order.status, 'rejected') ? 'rejected' : 'cancelled';
 
 const OperatorDashboard = () => {
+  const { isBusinessOwner } = useAuth();
   const [activeTab, setActiveTab] = useState('new-orders');
   const [activeMessageCategory, setActiveMessageCategory] = useState('follow-ups');
   
@@ -44,6 +78,40 @@ const OperatorDashboard = () => {
   const [selectedCustomer, setSelectedCustomer] = useState<{phone: string, name: string} | null>(null);
   const [chatMessages, setChatMessages] = useState<any[]>([]);
 
+  // Orders
+  const [orderFilter, setOrderFilter] = useState('');
+  const [isOrderFormOpen, setIsOrderFormOpen] = useState(false);
+  const [orderTransition, setOrderTransition] = useState<{ order: Order; to: OrderStatus } | null>(null);
+  const {
+    orders: openOrders,
+    loading: ordersLoading,
+    error: ordersError,
+    createOrder,
+    transitionOrder,
+  } = useOrders(OPEN_ORDER_STATUSES);
+  const {
+    draft: orderDraft,
+    loading: orderDraftLoading,
+    openDraft: openOrderDraft,
+    closeDraft: closeOrderDraft,
+    createOrder: createOrderFromMessage,
+  } = useOrderDraft();
+
+  // Inventory
+  const [inventorySearch, setInventorySearch] = useState('');
+  const [inventorySort, setInventorySort] = useState<{ key: InventorySortKey; descending: boolean }>({
+    key: 'productName',
+    descending: false,
+  });
+  // Open stock dialog: an existing variant, or {} to stock a new one
+  const [stockTarget, setStockTarget] = useState<{ item?: InventoryItem } | null>(null);
+  const {
+    items: inventoryItems,
+    loading: inventoryLoading,
+    error: inventoryError,
+    recordMovement,
+  } = useInventory();
+
   // Ultra-optimized data integration with minimal Firebase reads
   const {
     messages: allSourceMessages,
@@ -111,16 +179,12 @@ const OperatorDashboard = () => {
   const openChatForCustomer = (customerPhone: string, customerName: string) => {
     setSelectedCustomer({ phone: customerPhone, name: customerName });
     
-    // Normalize phone numbers for comparison (remove spaces, dashes, etc.)
-    const normalizePhone = (phone: string) => phone.replace(/[\s\-\(\)]/g, '');
-    const normalizedCustomerPhone = normalizePhone(customerPhone);
+    // Compare by digits so "+91 98765 43210", "919876543210" and "098765 43210" all match
+    const normalizedCustomerPhone = toPhoneDigits(customerPhone);
     
     // Filter messages for this customer from all sources and convert to chat format
     const customerChatMessages = allSourceMessages
-      .filter(msg => {
-        const normalizedMsgPhone = normalizePhone(String(msg.phone_number || ''));
-        return normalizedMsgPhone === normalizedCustomerPhone;
-      })
+      .filter(msg => toPhoneDigits(msg.phone_number) === normalizedCustomerPhone)
       .map(msg => ({
         id: msg.id,
         message: msg.message,
@@ -180,12 +244,13 @@ const OperatorDashboard = () => {
     }
   };
 
-  // Convert unified messages to dashboard format with null handling
+  // Convert unified messages to dashboard format with null handling.
+  // Enquiries that became orders leave the message queues.
   const convertToDisplayMessage = (msg: any) => {
     const timestamp = new Date(msg.timestamp || Date.now());
     return {
       id: msg.id || `msg-${Date.now()}`,
-      category: mapWebhookCategory(msg.category),
+      category: msg.orderId ? 'new-orders' : mapWebhookCategory(msg.category),
       message: msg.message || 'No message content',
       customer: msg.name || 'Unknown Customer',
       phone: msg.phone_number || 'N/A',
@@ -197,29 +262,64 @@ const OperatorDashboard = () => {
     };
   };
 
+  // Only Firebase enquiries are stored where the order can mark them as handled
+  const openOrderFromMessage = (message: ReturnType<typeof convertToDisplayMessage>) => {
+    const phone = toPhoneDigits(message.phone);
+
+    openOrderDraft({
+      text: message.message,
+      productHint: message.product,
+      customerName: message.customer === 'Unknown Customer' ? undefined : message.customer,
+      customerPhone: phone,
+      conversationId: phone || undefined,
+      ...(message.source === DataSource.FIREBASE && {
+        sourceMessage: { collection: defaultDataSourceConfig.settings.firebase.collectionName, messageId: message.id },
+      }),
+    });
+  };
+
   // Get all messages from Firebase-only sources (no sample data mixing)
   const allMessages = allSourceMessages.map(convertToDisplayMessage);
 
-  // Get new orders from Firebase sources with improved filtering
-  const newOrders = allSourceMessages
-    .filter(msg => {
-      const category = (msg.category || '').toLowerCase();
-      return category === 'new order' || 
-             category === 'purchase request' || 
-             category === 'order' ||
-             category === 'neworder' ||
-             category === 'purchaserequest';
-    })
-    .map((msg, index) => ({
-      id: `#${1007 + index}`, // Generate order ID
-      customer: msg.name || 'Unknown Customer',
-      phone: msg.phone_number || 'N/A',
-      product: msg.product || 'No product specified',
-      intent: msg.intent || 'General',
-      message: msg.message || 'No message content',
-      total: '$99.00', // Default total - can be dynamic
-      source: msg.source,
-    }));
+  // Open orders, newest first; filtered locally by number or customer name
+  const matchesOrderFilter = (order: Order) => {
+    const filter = orderFilter.trim().toLowerCase().replace(/^#/, '');
+    return !filter ||
+      String(order.number).includes(filter) ||
+      (order.customer.name || '').toLowerCase().includes(filter);
+  };
+  const visibleOrders = openOrders.filter(matchesOrderFilter);
+
+  // Stock filtered and sorted locally; the collection holds one document per variant
+  const inventorySearchTerm = inventorySearch.trim().toLowerCase();
+  const visibleInventory = inventoryItems
+    .filter(item => !inventorySearchTerm ||
+      [item.sku, item.productName, item.size, item.color].some(value => value?.toLowerCase().includes(inventorySearchTerm)))
+    .sort((a, b) => {
+      const { key, descending } = inventorySort;
+      const order = key === 'sku' || key === 'productName'
+        ? (a[key] || '').localeCompare(b[key] || '')
+        : inventoryCount(a, key) - inventoryCount(b, key);
+      return descending ? -order : order;
+    });
+
+  const toggleInventorySort = (key: InventorySortKey) => {
+    setInventorySort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const renderInventorySortHead = (key: InventorySortKey, label: string) => (
+    <TableHead className="font-bold text-foreground">
+      <button type="button" className="inline-flex items-center gap-1" onClick={() => toggleInventorySort(key)}>
+        {label}
+        <ArrowUpDown className={`h-3 w-3 ${inventorySort.key === key ? '' : 'opacity-40'}`} />
+      </button>
+    </TableHead>
+  );
+
+  // The +/- buttons record one-unit adjustments in the ledger
+  const adjustStock = (item: InventoryItem, quantity: number) => {
+    recordMovement(item, 'adjustment', quantity).catch(err => console.error('Failed to adjust stock:', err));
+  };
 
   const getMessagesCount = (category: string) => {
     return allMessages.filter(msg => msg.category === category).length;
@@ -316,9 +416,12 @@ const OperatorDashboard = () => {
               placeholder="Filter by ID or name" 
               className="w-64"
               aria-label="Filter orders by ID or name"
+              value={orderFilter}
+              onChange={(e) => setOrderFilter(e.target.value)}
             />
-            <Button variant="outline" size="icon">
-              <Search className="h-4 w-4" />
+            <Button size="sm" onClick={() => setIsOrderFormOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Order
             </Button>
             <Button 
               variant="outline" 
@@ -373,78 +476,69 @@ const OperatorDashboard = () => {
                 <TableHead className="font-bold text-foreground">Order #</TableHead>
                 <TableHead className="font-bold text-foreground">Customer</TableHead>
                 <TableHead className="font-bold text-foreground">Phone</TableHead>
-                <TableHead className="font-bold text-foreground">Product</TableHead>
-                <TableHead className="font-bold text-foreground">Intent</TableHead>
+                <TableHead className="font-bold text-foreground">Items</TableHead>
+                <TableHead className="font-bold text-foreground">Status</TableHead>
                 <TableHead className="font-bold text-foreground">Total</TableHead>
-                <TableHead className="font-bold text-foreground">Source</TableHead>
+                <TableHead className="font-bold text-foreground">Placed</TableHead>
                 <TableHead className="font-bold text-foreground">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {/* Static sample orders */}
-              <TableRow className="hover:bg-muted/30 transition-colors">
-                <TableCell className="font-semibold">#1001</TableCell>
-                <TableCell>Ava</TableCell>
-                <TableCell>+1234567890</TableCell>
-                <TableCell>Comfort Hoodie</TableCell>
-                <TableCell>Purchase Request</TableCell>
-                <TableCell className="font-medium">$89.00</TableCell>
-                <TableCell>
-                  <Badge variant="secondary" className="text-xs">Sample</Badge>
-                </TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button size="sm" variant="secondary" className="hover:bg-secondary/80">Process</Button>
-                    <Button size="sm" variant="outline" className="text-destructive hover:bg-destructive/10 hover:text-destructive">Reject</Button>
-                    <Button size="sm" className="bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-primary-foreground shadow-md">Send WhatsApp</Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-              <TableRow className="hover:bg-accent/30 transition-colors bg-accent/5">
-                <TableCell className="font-semibold">#1002</TableCell>
-                <TableCell>Liam</TableCell>
-                <TableCell>+1234567891</TableCell>
-                <TableCell>Sport Tee</TableCell>
-                <TableCell>Purchase Request</TableCell>
-                <TableCell className="font-medium">$129.00</TableCell>
-                <TableCell>
-                  <Badge variant="secondary" className="text-xs">Sample</Badge>
-                </TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button size="sm" variant="secondary" className="hover:bg-secondary/80">Process</Button>
-                    <Button size="sm" variant="outline" className="text-destructive hover:bg-destructive/10 hover:text-destructive">Reject</Button>
-                    <Button size="sm" className="bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-primary-foreground shadow-md">Send WhatsApp</Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-              
-              {/* Dynamic orders from all sources */}
-              {newOrders.map((order, index) => (
+              {ordersLoading && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading orders...
+                  </TableCell>
+                </TableRow>
+              )}
+              {!ordersLoading && visibleOrders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    {ordersError || (orderFilter ? 'No orders match this filter' : 'No open orders')}
+                  </TableCell>
+                </TableRow>
+              )}
+              {visibleOrders.map((order, index) => (
                 <TableRow 
                   key={order.id}
                   className={`hover:bg-muted/30 transition-colors ${index % 2 === 0 ? 'bg-accent/5' : ''}`}
                 >
-                  <TableCell className="font-semibold">{order.id}</TableCell>
-                  <TableCell>{order.customer}</TableCell>
-                  <TableCell>{order.phone}</TableCell>
-                  <TableCell>{order.product}</TableCell>
-                  <TableCell>{order.intent}</TableCell>
-                  <TableCell className="font-medium">{order.total}</TableCell>
+                  <TableCell className="font-semibold">{formatOrderNumber(order)}</TableCell>
+                  <TableCell>{order.customer.name || 'Unknown Customer'}</TableCell>
+                  <TableCell>{formatPhoneNumber(order.customer.phone)}</TableCell>
+                  <TableCell className="max-w-xs truncate">{summarizeOrderItems(order.items)}</TableCell>
                   <TableCell>
-                    <Badge variant="outline" className="text-xs">
-                      {getSourceIcon(order.source)}
-                      <span className="ml-1">{getSourceLabel(order.source)}</span>
-                    </Badge>
+                    <OrderStatusBadge status={order.status} />
                   </TableCell>
+                  <TableCell className="font-medium">{formatMoney(order.total, order.currency)}</TableCell>
+                  <TableCell className="text-muted-foreground">{order.createdAt.toLocaleString()}</TableCell>
                   <TableCell>
                     <div className="flex space-x-2">
-                      <Button size="sm" variant="secondary" className="hover:bg-secondary/80">Process</Button>
-                      <Button size="sm" variant="outline" className="text-destructive hover:bg-destructive/10 hover:text-destructive">Reject</Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="hover:bg-secondary/80"
+                        disabled={!nextForwardStatus(order.status)}
+                        onClick={() => {
+                          const to = nextForwardStatus(order.status);
+                          if (to) setOrderTransition({ order, to });
+                        }}
+                      >
+                        {PROCESS_LABELS[nextForwardStatus(order.status) ?? order.status] || 'Process'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                        onClick={() => setOrderTransition({ order, to: rejectStatusFor(order) })}
+                      >
+                        {rejectStatusFor(order) === 'rejected' ? 'Reject' : 'Cancel'}
+                      </Button>
                       <Button 
                         size="sm" 
                         className="bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-primary-foreground shadow-md"
-                        onClick={() => openChatForCustomer(order.phone, order.customer)}
+                        onClick={() => openChatForCustomer(order.customer.phone, order.customer.name || 'Unknown Customer')}
                       >
                         Chat
                       </Button>
@@ -461,71 +555,93 @@ const OperatorDashboard = () => {
 
   const renderInventory = () => (
     <div className="space-y-6">
-      <h2 className="text-2xl font-bold">Inventory</h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Inventory</h2>
+        <div className="flex items-center space-x-2">
+          <Input
+            placeholder="Search SKU, product, size or color..."
+            value={inventorySearch}
+            onChange={(e) => setInventorySearch(e.target.value)}
+            className="w-72"
+          />
+          <Button onClick={() => setStockTarget({})}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stock
+          </Button>
+        </div>
+      </div>
       
       <Card className="shadow-sm border-0 bg-gradient-to-r from-card to-card/95">
         <CardContent className="p-6">
           <Table>
             <TableHeader>
               <TableRow className="hover:bg-transparent border-b-2">
-                <TableHead className="font-bold text-foreground">SKU</TableHead>
-                <TableHead className="font-bold text-foreground">Product</TableHead>
-                <TableHead className="font-bold text-foreground">Stock</TableHead>
+                {renderInventorySortHead('sku', 'SKU')}
+                {renderInventorySortHead('productName', 'Product')}
+                <TableHead className="font-bold text-foreground">Variant</TableHead>
+                {renderInventorySortHead('onHand', 'On Hand')}
+                {renderInventorySortHead('reserved', 'Reserved')}
+                {renderInventorySortHead('available', 'Available')}
                 <TableHead className="font-bold text-foreground">Adjust</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              <TableRow className="hover:bg-muted/30 transition-colors">
-                <TableCell className="font-semibold">HD-100</TableCell>
-                <TableCell>Comfort Hoodie</TableCell>
-                <TableCell className="font-medium">24</TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-2">
-                    <Button size="sm" variant="outline" className="hover:bg-destructive/10 hover:text-destructive">
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium text-muted-foreground">-1</span>
-                    <Button size="sm" variant="outline" className="hover:bg-primary/10 hover:text-primary">
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium text-muted-foreground">+1</span>
-                  </div>
-                </TableCell>
-              </TableRow>
-              <TableRow className="hover:bg-accent/30 transition-colors bg-accent/5">
-                <TableCell className="font-semibold">TS-220</TableCell>
-                <TableCell>Sport Tee</TableCell>
-                <TableCell className="font-medium">52</TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-2">
-                    <Button size="sm" variant="outline" className="hover:bg-destructive/10 hover:text-destructive">
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium text-muted-foreground">-1</span>
-                    <Button size="sm" variant="outline" className="hover:bg-primary/10 hover:text-primary">
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium text-muted-foreground">+1</span>
-                  </div>
-                </TableCell>
-              </TableRow>
-              <TableRow className="hover:bg-muted/30 transition-colors">
-                <TableCell className="font-semibold">JK-330</TableCell>
-                <TableCell>Denim Jacket</TableCell>
-                <TableCell className="font-medium">8</TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-2">
-                    <Button size="sm" variant="outline" className="hover:bg-destructive/10 hover:text-destructive">
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium text-muted-foreground">-1</span>
-                    <Button size="sm" variant="outline" className="hover:bg-primary/10 hover:text-primary">
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                    <span className="text-sm font-medium text-muted-foreground">+1</span>
-                  </div>
-                </TableCell>
-              </TableRow>
+              {inventoryLoading && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                    Loading inventory...
+                  </TableCell>
+                </TableRow>
+              )}
+              {!inventoryLoading && visibleInventory.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {inventoryError || (inventorySearch ? 'No stock matches this search' : 'No stock recorded yet')}
+                  </TableCell>
+                </TableRow>
+              )}
+              {visibleInventory.map((item, index) => (
+                <TableRow
+                  key={item.id}
+                  className={`hover:bg-muted/30 transition-colors ${index % 2 === 1 ? 'bg-accent/5' : ''}`}
+                >
+                  <TableCell className="font-semibold">{item.sku || '—'}</TableCell>
+                  <TableCell>{item.productName}</TableCell>
+                  <TableCell>{describeVariant(item)}</TableCell>
+                  <TableCell className="font-medium">{item.onHand}</TableCell>
+                  <TableCell className="text-muted-foreground">{item.reserved}</TableCell>
+                  <TableCell className={`font-medium ${availableStock(item) <= 0 ? 'text-destructive' : ''}`}>
+                    {availableStock(item)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="hover:bg-destructive/10 hover:text-destructive"
+                        onClick={() => adjustStock(item, -1)}
+                        disabled={item.onHand === 0}
+                        aria-label="Remove one"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="hover:bg-primary/10 hover:text-primary"
+                        onClick={() => adjustStock(item, 1)}
+                        aria-label="Add one"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setStockTarget({ item })}>
+                        More...
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
             </TableBody>
           </Table>
         </CardContent>
@@ -641,21 +757,33 @@ const OperatorDashboard = () => {
                     {message.message}
                   </TableCell>
                   <TableCell>{message.customer}</TableCell>
-                  <TableCell>{message.phone || 'N/A'}</TableCell>
+                  <TableCell>{message.phone ? formatPhoneNumber(message.phone) : 'N/A'}</TableCell>
                   <TableCell>{message.product || 'N/A'}</TableCell>
                   <TableCell>{message.intent || 'N/A'}</TableCell>
                   <TableCell>{message.date}</TableCell>
                   <TableCell>{message.time}</TableCell>
                   <TableCell>
-                    <Button 
-                      size="sm" 
-                      variant="outline" 
-                      className="text-xs"
-                      onClick={() => openChatForCustomer(message.phone || '', message.customer)}
-                    >
-                      <Send className="h-3 w-3 mr-1" />
-                      Reply
-                    </Button>
+                    <div className="flex space-x-2">
+                      <Button 
+                        size="sm" 
+                        variant="outline" 
+                        className="text-xs"
+                        onClick={() => openChatForCustomer(message.phone || '', message.customer)}
+                      >
+                        <Send className="h-3 w-3 mr-1" />
+                        Reply
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="text-xs"
+                        onClick={() => openOrderFromMessage(message)}
+                        disabled={orderDraftLoading}
+                      >
+                        <ShoppingCart className="h-3 w-3 mr-1" />
+                        Create order
+                      </Button>
+                    </div>
                   </TableCell>
                 </TableRow>
               ))}
@@ -758,7 +886,7 @@ const OperatorDashboard = () => {
                       {message.message}
                     </TableCell>
                     <TableCell>{message.customer}</TableCell>
-                    <TableCell>{message.phone || 'N/A'}</TableCell>
+                    <TableCell>{message.phone ? formatPhoneNumber(message.phone) : 'N/A'}</TableCell>
                     <TableCell>{message.product || 'N/A'}</TableCell>
                     <TableCell>{message.date}</TableCell>
                     <TableCell>
@@ -878,6 +1006,42 @@ const OperatorDashboard = () => {
           )}
         </ResizablePanelGroup>
       </div>
+
+      {isOrderFormOpen && (
+        <OrderFormDialog
+          open={isOrderFormOpen}
+          onOpenChange={setIsOrderFormOpen}
+          onCreate={createOrder}
+        />
+      )}
+
+      {orderDraft && (
+        <OrderFormDialog
+          open
+          onOpenChange={(open) => !open && closeOrderDraft()}
+          initialValues={orderDraft.values}
+          sourceText={orderDraft.sourceText}
+          onCreate={createOrderFromMessage}
+        />
+      )}
+
+      {stockTarget && (
+        <StockMovementDialog
+          item={stockTarget.item}
+          onOpenChange={(open) => !open && setStockTarget(null)}
+          onRecord={recordMovement}
+        />
+      )}
+
+      {orderTransition && (
+        <OrderTransitionDialog
+          order={orderTransition.order}
+          to={orderTransition.to}
+          onOpenChange={(open) => !open && setOrderTransition(null)}
+          onTransition={transitionOrder}
+          canOverrideStock={isBusinessOwner}
+        />
+      )}
     </DashboardLayout>
   );
 };
@@ -0,0 +1,175 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  getCountFromServer,
+  Unsubscribe,
+  DocumentData,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from '@/lib/firebase';
+import {
+  Campaign,
+  CampaignAudiencePreview,
+  CampaignRecipient,
+  CampaignRecipientCounts,
+  CampaignRecipientState,
+  CampaignSegment,
+  CreateCampaignData,
+} from '@/types/campaign';
+
+const CAMPAIGNS_COLLECTION = 'campaigns';
+const RECIPIENTS_SUBCOLLECTION = 'recipients';
+
+export const MAX_SEND_RATE_PER_MINUTE = 120;
+
+const RECIPIENT_STATES: CampaignRecipientState[] = [
+  'pending', 'queued', 'sent', 'delivered', 'read', 'failed', 'excluded',
+];
+
+export class CampaignService {
+  /**
+   * Created by the createCampaign function, which records the signed-in
+   * business owner as its creator. Scheduled campaigns are picked up by the
+   * dispatchCampaigns function within a minute of scheduledFor.
+   */
+  static async createCampaign(data: CreateCampaignData): Promise<string> {
+    if (data.sendRatePerMinute < 1 || data.sendRatePerMinute > MAX_SEND_RATE_PER_MINUTE) {
+      throw new Error(`Send rate must be between 1 and ${MAX_SEND_RATE_PER_MINUTE} messages per minute`);
+    }
+
+    const createCampaign = httpsCallable(getFunctions(undefined, 'us-central1'), 'createCampaign');
+    const result = await createCampaign({
+      ...data,
+      segment: this.toCallableSegment(data.segment),
+      scheduledFor: data.scheduledFor.toISOString(),
+    });
+    return (result.data as { campaignId: string }).campaignId;
+  }
+
+  /**
+   * Cancelled by the cancelCampaign function, which also stops a dispatcher
+   * run in progress. Recipients already queued still go out; the rest stay
+   * pending.
+   */
+  static async cancelCampaign(campaignId: string): Promise<void> {
+    const cancelCampaign = httpsCallable(getFunctions(undefined, 'us-central1'), 'cancelCampaign');
+    await cancelCampaign({ campaignId });
+  }
+
+  static subscribeToCampaigns(
+    callback: (campaigns: Campaign[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const q = query(collection(db, CAMPAIGNS_COLLECTION), orderBy('scheduledFor', 'desc'), limit(50));
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(doc => this.toCampaign(doc.id, doc.data())));
+    }, onError);
+  }
+
+  static subscribeToCampaign(
+    campaignId: string,
+    callback: (campaign: Campaign | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(doc(db, CAMPAIGNS_COLLECTION, campaignId), (snapshot) => {
+      const data = snapshot.data();
+      callback(data ? this.toCampaign(snapshot.id, data) : null);
+    }, onError);
+  }
+
+  // Most recently updated recipients, for the report's activity table
+  static subscribeToRecipients(
+    campaignId: string,
+    callback: (recipients: CampaignRecipient[]) => void,
+    onError?: (error: Error) => void,
+    maxRecipients: number = 100
+  ): Unsubscribe {
+    const q = query(
+      collection(db, CAMPAIGNS_COLLECTION, campaignId, RECIPIENTS_SUBCOLLECTION),
+      orderBy('updatedAt', 'desc'),
+      limit(maxRecipients)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          phone: data.phone,
+          conversationId: data.conversationId,
+          customerName: data.customerName || undefined,
+          state: data.state,
+          excludedReason: data.excludedReason,
+          messageId: data.messageId,
+          error: data.error,
+          updatedAt: data.updatedAt?.toDate(),
+        };
+      }));
+    }, onError);
+  }
+
+  /**
+   * Recipients per delivery state, counted server-side so large campaigns
+   * don't read every recipient document.
+   */
+  static async getRecipientCounts(campaignId: string): Promise<CampaignRecipientCounts> {
+    const recipients = collection(db, CAMPAIGNS_COLLECTION, campaignId, RECIPIENTS_SUBCOLLECTION);
+
+    const counts = await Promise.all(RECIPIENT_STATES.map(async (state) => {
+      const snapshot = await getCountFromServer(query(recipients, where('state', '==', state)));
+      return [state, snapshot.data().count] as const;
+    }));
+
+    return Object.fromEntries(counts) as CampaignRecipientCounts;
+  }
+
+  static async previewAudience(segment: CampaignSegment): Promise<CampaignAudiencePreview> {
+    const previewCampaignAudience = httpsCallable(getFunctions(undefined, 'us-central1'), 'previewCampaignAudience');
+    const result = await previewCampaignAudience({ segment: this.toCallableSegment(segment) });
+    return result.data as CampaignAudiencePreview;
+  }
+
+  // Callable data has no Timestamps, so dates travel as ISO strings
+  private static toCallableSegment(segment: CampaignSegment) {
+    return {
+      ...segment,
+      lastContactAfter: segment.lastContactAfter?.toISOString(),
+      lastContactBefore: segment.lastContactBefore?.toISOString(),
+    };
+  }
+
+  private static toCampaign(id: string, data: DocumentData): Campaign {
+    const segment = data.segment || {};
+
+    return {
+      id,
+      name: data.name,
+      status: data.status,
+      template: data.template,
+      content: data.content || '',
+      segment: {
+        tags: segment.tags,
+        products: segment.products,
+        categories: segment.categories,
+        lastContactAfter: segment.lastContactAfter?.toDate(),
+        lastContactBefore: segment.lastContactBefore?.toDate(),
+      },
+      scheduledFor: data.scheduledFor?.toDate() || new Date(),
+      sendRatePerMinute: data.sendRatePerMinute,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      startedAt: data.startedAt?.toDate(),
+      completedAt: data.completedAt?.toDate(),
+      recipientCount: data.recipientCount,
+      excludedCount: data.excludedCount,
+      error: data.error,
+    };
+  }
+}
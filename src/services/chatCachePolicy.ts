@@ -0,0 +1,152 @@
+export interface FirebaseUsageStats {
+  reads: number;
+  writes: number;
+  lastReset: number;
+}
+
+// Query bounds applied by ChatRepository; an unset bound means unbounded
+export interface ChatQueryLimits {
+  conversations?: number;
+  conversationMaxAgeDays?: number;
+  messages?: number;
+  messageWindowHours?: number;
+  presenceUsers?: number;
+}
+
+/**
+ * How ChatRepository trades freshness for Firestore reads and writes:
+ * caching of subscription results, how long listeners and typing updates
+ * are debounced, query bounds and the daily read budget.
+ */
+export interface ChatCachePolicy {
+  readonly debounceMs: number;
+  readonly typingDebounceMs: number;
+  readonly limits: ChatQueryLimits;
+  get<T>(key: string): T | null;
+  set<T>(key: string, data: T): void;
+  invalidate(keyPrefix: string): void;
+  clear(): void;
+  recordReads(count: number): void;
+  recordWrites(count: number): void;
+  getUsageStats(): FirebaseUsageStats;
+  checkRateLimit(): boolean;
+}
+
+interface CachedData<T> {
+  data: T;
+  expiresAt: number;
+}
+
+interface MemoryChatCachePolicyOptions {
+  cacheDurationMs: number;
+  debounceMs: number;
+  typingDebounceMs: number;
+  limits: ChatQueryLimits;
+  maxReadsPerDay?: number;
+}
+
+const USAGE_RESET_MS = 24 * 60 * 60 * 1000;
+
+export class MemoryChatCachePolicy implements ChatCachePolicy {
+  readonly debounceMs: number;
+  readonly typingDebounceMs: number;
+  readonly limits: ChatQueryLimits;
+
+  private cache = new Map<string, CachedData<unknown>>();
+  private usageStats: FirebaseUsageStats = { reads: 0, writes: 0, lastReset: Date.now() };
+
+  constructor(private options: MemoryChatCachePolicyOptions) {
+    this.debounceMs = options.debounceMs;
+    this.typingDebounceMs = options.typingDebounceMs;
+    this.limits = options.limits;
+  }
+
+  get<T>(key: string): T | null {
+    const cached = this.cache.get(key);
+    if (!cached) return null;
+
+    if (Date.now() > cached.expiresAt) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    return cached.data as T;
+  }
+
+  set<T>(key: string, data: T): void {
+    if (this.options.cacheDurationMs <= 0) return;
+
+    this.cache.set(key, { data, expiresAt: Date.now() + this.options.cacheDurationMs });
+  }
+
+  invalidate(keyPrefix: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(keyPrefix)) this.cache.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  recordReads(count: number): void {
+    this.getUsageStats();
+    this.usageStats.reads += count;
+  }
+
+  recordWrites(count: number): void {
+    this.getUsageStats();
+    this.usageStats.writes += count;
+  }
+
+  getUsageStats(): FirebaseUsageStats {
+    const now = Date.now();
+    if (now - this.usageStats.lastReset >= USAGE_RESET_MS) {
+      this.usageStats = { reads: 0, writes: 0, lastReset: now };
+    }
+
+    return { ...this.usageStats };
+  }
+
+  // Circuit breaker for excessive reads; policies without a budget never trip
+  checkRateLimit(): boolean {
+    const { maxReadsPerDay } = this.options;
+    if (maxReadsPerDay === undefined) return true;
+
+    const { reads } = this.getUsageStats();
+
+    if (reads > maxReadsPerDay) {
+      console.warn('🚨 EMERGENCY: Firebase read limit exceeded, ALL Firebase features disabled');
+      return false;
+    }
+
+    if (reads > maxReadsPerDay * 0.8) {
+      console.warn('🚨 WARNING: Approaching Firebase read limit');
+    }
+
+    return true;
+  }
+}
+
+// Live, unbounded queries with every write going straight through
+export const directCachePolicy = new MemoryChatCachePolicy({
+  cacheDurationMs: 0,
+  debounceMs: 0,
+  typingDebounceMs: 0,
+  limits: {},
+});
+
+// Bounded, cached and debounced to stay inside the free Firestore quota
+export const quotaSavingCachePolicy = new MemoryChatCachePolicy({
+  cacheDurationMs: 30000,
+  debounceMs: 1000,
+  typingDebounceMs: 500,
+  limits: {
+    conversations: 50,
+    conversationMaxAgeDays: 30,
+    messages: 100,
+    messageWindowHours: 12,
+    presenceUsers: 20,
+  },
+  maxReadsPerDay: 500,
+});
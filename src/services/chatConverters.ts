@@ -0,0 +1,92 @@
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  WithFieldValue,
+} from 'firebase/firestore';
+import { ChatMessage, Conversation, UserPresence } from '@/types/chat';
+
+// The document ID is the model's `id`; it is never stored as a field
+const withoutId = <T extends { id: string }>({ id: _id, ...data }: WithFieldValue<T>): DocumentData => data;
+
+export const conversationConverter: FirestoreDataConverter<Conversation> = {
+  toFirestore(conversation: WithFieldValue<Conversation>): DocumentData {
+    // lastMessage is joined in by the UI, not stored on the conversation
+    const { lastMessage: _lastMessage, ...data } = withoutId(conversation);
+    return data;
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Conversation {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      customerId: data.customerId,
+      customerName: data.customerName,
+      customerPhone: data.customerPhone,
+      assignedOperatorId: data.assignedOperatorId,
+      status: data.status,
+      lastMessageAt: data.lastMessageAt?.toDate() || new Date(),
+      lastInboundAt: data.lastInboundAt?.toDate(),
+      serviceWindowExpiresAt: data.serviceWindowExpiresAt?.toDate(),
+      lastOrderAction: data.lastOrderAction && {
+        ...data.lastOrderAction,
+        at: data.lastOrderAction.at?.toDate() || new Date(),
+      },
+      unreadCount: data.unreadCount || 0,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      tags: data.tags || [],
+      priority: data.priority || 'medium',
+    };
+  },
+};
+
+export const chatMessageConverter: FirestoreDataConverter<ChatMessage> = {
+  toFirestore(message: WithFieldValue<ChatMessage>): DocumentData {
+    return withoutId(message);
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): ChatMessage {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      conversationId: data.conversationId,
+      senderId: data.senderId,
+      senderType: data.senderType,
+      content: data.content,
+      messageType: data.messageType,
+      timestamp: data.timestamp?.toDate() || new Date(),
+      status: data.status,
+      error: data.error,
+      whatsappMessageId: data.whatsappMessageId,
+      deliveryState: data.deliveryState,
+      deliveryError: data.deliveryError,
+      template: data.template,
+      interactive: data.interactive,
+      interactiveReply: data.interactiveReply,
+      reactions: data.reactions || [],
+      attachments: data.attachments || [],
+      orderId: data.orderId,
+      orderNumber: data.orderNumber,
+    };
+  },
+};
+
+// Presence documents are keyed by user ID and also carry it as a field for `in` queries
+export const userPresenceConverter: FirestoreDataConverter<UserPresence> = {
+  toFirestore(presence: WithFieldValue<UserPresence>): DocumentData {
+    return presence as DocumentData;
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): UserPresence {
+    const data = snapshot.data(options);
+    return {
+      userId: data.userId,
+      status: data.status,
+      lastSeen: data.lastSeen?.toDate() || new Date(),
+      isTyping: data.isTyping || false,
+      typingInConversation: data.typingInConversation,
+    };
+  },
+};
@@ -0,0 +1,120 @@
+import { expect, test } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { flushSnapshots, listDocuments, readDocument, seedDocument } from '@/test/fakeFirestore';
+import { SERVICE_WINDOW_MS } from '@/lib/serviceWindow';
+import { Conversation } from '@/types/chat';
+import { directCachePolicy, MemoryChatCachePolicy } from './chatCachePolicy';
+import { ChatRepository } from './chatRepository';
+
+const repository = new ChatRepository(directCachePolicy);
+
+const seedConversation = (id: string, data: Record<string, unknown> = {}) =>
+  seedDocument(`conversations/${id}`, {
+    customerId: id,
+    customerPhone: id,
+    status: 'active',
+    unreadCount: 0,
+    priority: 'medium',
+    lastMessageAt: new Date('2024-03-01T10:00:00Z'),
+    ...data,
+  });
+
+test('createConversation stores a pending conversation under the given ID', async () => {
+  const conversation = await repository.createConversation('15551234567', 'Ana', '15551234567', '15551234567');
+
+  expect(conversation).toMatchObject({ id: '15551234567', status: 'pending', unreadCount: 0 });
+  expect(readDocument('conversations/15551234567')).toMatchObject({
+    customerName: 'Ana',
+    customerPhone: '15551234567',
+    status: 'pending',
+    unreadCount: 0,
+  });
+  // The ID is the document ID, not a stored field
+  expect(readDocument('conversations/15551234567')).not.toHaveProperty('id');
+
+  const stored = await repository.getConversation('15551234567');
+  expect(stored?.customerName).toBe('Ana');
+  expect(stored?.createdAt).toBeInstanceOf(Date);
+  expect(await repository.getConversation('missing')).toBeNull();
+});
+
+test('sendMessage stores the message, queues it in the outbox and clears unread', async () => {
+  seedConversation('15551234567', { unreadCount: 3 });
+
+  const message = await repository.sendMessage('15551234567', 'operator-1', 'Your order has shipped', '15551234567');
+
+  expect(readDocument(`chat_messages/${message.id}`)).toMatchObject({
+    conversationId: '15551234567',
+    senderType: 'operator',
+    content: 'Your order has shipped',
+    deliveryState: 'queued',
+  });
+  expect(readDocument(`message_status/${message.id}`)).toMatchObject({ deliveredTo: [], readBy: [] });
+  expect(readDocument(`message_outbox/${message.id}`)).toMatchObject({
+    to: '15551234567',
+    requestedBy: 'operator-1',
+    state: 'pending',
+    attempts: 0,
+  });
+  expect(readDocument('conversations/15551234567')?.unreadCount).toBe(0);
+});
+
+test('recorded customer messages count as unread and open the service window', async () => {
+  seedConversation('15551234567');
+
+  await repository.recordMessage('15551234567', '15551234567', 'customer', 'Hi');
+  await repository.recordMessage('15551234567', '15551234567', 'customer', 'Is the hoodie in stock?');
+
+  const conversation = readDocument('conversations/15551234567');
+  const lastInboundAt = (conversation?.lastInboundAt as Timestamp).toMillis();
+  expect(conversation?.unreadCount).toBe(2);
+  expect((conversation?.serviceWindowExpiresAt as Timestamp).toMillis()).toBeGreaterThanOrEqual(lastInboundAt + SERVICE_WINDOW_MS);
+  expect(listDocuments('message_outbox')).toEqual([]);
+});
+
+test('subscribeToConversations delivers assigned conversations, most recent first, as they change', async () => {
+  seedConversation('111', { assignedOperatorId: 'operator-1', lastMessageAt: new Date('2024-03-01T10:00:00Z') });
+  seedConversation('222', { assignedOperatorId: 'operator-1', lastMessageAt: new Date('2024-03-02T10:00:00Z') });
+  seedConversation('333', { assignedOperatorId: 'operator-2', lastMessageAt: new Date('2024-03-03T10:00:00Z') });
+
+  const deliveries: Conversation[][] = [];
+  const unsubscribe = repository.subscribeToConversations(conversations => deliveries.push(conversations), 'operator-1');
+  await flushSnapshots();
+
+  await repository.recordMessage('111', '111', 'customer', 'Hello again');
+  await flushSnapshots();
+  unsubscribe();
+
+  expect(deliveries.map(conversations => conversations.map(c => c.id))).toEqual([['222', '111'], ['111', '222']]);
+  expect(deliveries[1][0].unreadCount).toBe(1);
+});
+
+test('subscribeToMessages keeps the newest messages within the policy limit and pages back from them', async () => {
+  const bounded = new ChatRepository(new MemoryChatCachePolicy({
+    cacheDurationMs: 0,
+    debounceMs: 0,
+    typingDebounceMs: 0,
+    limits: { messages: 2 },
+  }));
+  ['09:00', '10:00', '11:00'].forEach((time, i) => seedDocument(`chat_messages/m${i}`, {
+    conversationId: '111',
+    senderId: '111',
+    senderType: 'customer',
+    content: `Message ${i}`,
+    messageType: 'text',
+    status: 'sent',
+    timestamp: new Date(`2024-03-01T${time}:00Z`),
+  }));
+
+  let messages: string[] = [];
+  const unsubscribe = bounded.subscribeToMessages('111', delivered => {
+    messages = delivered.map(message => message.content);
+  });
+  await flushSnapshots();
+  unsubscribe();
+
+  expect(messages).toEqual(['Message 1', 'Message 2']);
+
+  const older = await bounded.loadMoreMessages('111', new Date('2024-03-01T10:00:00Z'));
+  expect(older.map(message => message.content)).toEqual(['Message 0']);
+});
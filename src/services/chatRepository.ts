@@ -0,0 +1,553 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp,
+  Unsubscribe,
+  WriteBatch,
+  writeBatch,
+  arrayUnion,
+  increment,
+  deleteField,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getServiceWindowExpiry } from '@/lib/serviceWindow';
+import { getAttachmentMessageType } from '@/lib/media';
+import {
+  ChatMessage,
+  Conversation,
+  UserPresence,
+  MessageTemplate,
+  MessageAttachment,
+  InteractiveMessage,
+  TemplateMessageRef,
+} from '@/types/chat';
+import { ChatCachePolicy, directCachePolicy, quotaSavingCachePolicy } from './chatCachePolicy';
+import { chatMessageConverter, conversationConverter, userPresenceConverter } from './chatConverters';
+import { TemplateService } from './templateService';
+
+const CONVERSATIONS_COLLECTION = 'conversations';
+export const MESSAGES_COLLECTION = 'chat_messages';
+const PRESENCE_COLLECTION = 'user_presence';
+const MESSAGE_STATUS_COLLECTION = 'message_status';
+const OUTBOX_COLLECTION = 'message_outbox';
+
+const DEFAULT_PAGE_SIZE = 50;
+// Firestore caps the values of an `in` filter
+const MAX_IN_QUERY_VALUES = 30;
+
+// What an operator message carries besides its text; the outbox sends whichever is set
+interface OutboundContent {
+  template?: TemplateMessageRef;
+  attachments?: MessageAttachment[];
+  interactive?: InteractiveMessage;
+}
+
+type MessageType = ChatMessage['messageType'];
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+/**
+ * Reads and writes conversations, messages and presence through typed
+ * converters. How much it caches, debounces and bounds its queries is
+ * decided by the injected ChatCachePolicy.
+ */
+export class ChatRepository {
+  private typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private activeListeners = new Set<Unsubscribe>();
+
+  constructor(readonly policy: ChatCachePolicy) {}
+
+  private conversations() {
+    return collection(db, CONVERSATIONS_COLLECTION).withConverter(conversationConverter);
+  }
+
+  private messages() {
+    return collection(db, MESSAGES_COLLECTION).withConverter(chatMessageConverter);
+  }
+
+  // Conversation Management
+  async createConversation(
+    customerId: string,
+    customerName: string,
+    customerPhone: string,
+    conversationId?: string
+  ): Promise<Conversation> {
+    // Callers pass the customer's phone digits as the ID so the WhatsApp webhook finds the same conversation
+    const conversationRef = conversationId
+      ? doc(this.conversations(), conversationId)
+      : doc(this.conversations());
+
+    const conversation: Conversation = {
+      id: conversationRef.id,
+      customerId,
+      customerName,
+      customerPhone,
+      status: 'pending',
+      lastMessageAt: new Date(),
+      unreadCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      priority: 'medium',
+    };
+
+    await setDoc(conversationRef, {
+      ...conversation,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      lastMessageAt: serverTimestamp(),
+    });
+    this.policy.recordWrites(1);
+    this.policy.invalidate('conversations_');
+
+    return conversation;
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    const conversationSnap = await getDoc(doc(this.conversations(), conversationId));
+    this.policy.recordReads(1);
+
+    return conversationSnap.data() ?? null;
+  }
+
+  async updateConversation(conversationId: string, updates: Partial<Conversation>): Promise<void> {
+    await updateDoc(doc(db, CONVERSATIONS_COLLECTION, conversationId), {
+      ...updates,
+      updatedAt: serverTimestamp(),
+    });
+    this.policy.recordWrites(1);
+  }
+
+  async assignConversation(conversationId: string, operatorId: string): Promise<void> {
+    await this.updateConversation(conversationId, {
+      assignedOperatorId: operatorId,
+      status: 'active',
+    });
+  }
+
+  // Message Management
+
+  /**
+   * Queue an operator message for WhatsApp delivery. The outbox entry is
+   * written in the same batch; the processMessageOutbox function sends it
+   * even if this tab closes.
+   */
+  async sendMessage(
+    conversationId: string,
+    senderId: string,
+    content: string,
+    to: string,
+    messageType: MessageType = 'text',
+    { template, attachments = [], interactive }: OutboundContent = {}
+  ): Promise<ChatMessage> {
+    const batch = writeBatch(db);
+
+    const message = this.writeMessage(batch, {
+      conversationId,
+      senderId,
+      senderType: 'operator',
+      content,
+      messageType,
+      timestamp: new Date(),
+      status: 'sent',
+      deliveryState: 'queued',
+      ...(template && { template }),
+      ...(interactive && { interactive }),
+      reactions: [],
+      attachments,
+    });
+
+    batch.set(doc(db, OUTBOX_COLLECTION, message.id), this.toOutboxEntry(message, senderId, to));
+
+    await batch.commit();
+    // Message + status record + conversation update + outbox entry
+    this.policy.recordWrites(4);
+
+    return message;
+  }
+
+  /**
+   * Store a message that was already exchanged elsewhere (e.g. imported from
+   * the n8n webhook). Nothing is queued for WhatsApp delivery.
+   */
+  async recordMessage(
+    conversationId: string,
+    senderId: string,
+    senderType: ChatMessage['senderType'],
+    content: string,
+    messageType: MessageType = 'text'
+  ): Promise<ChatMessage> {
+    const batch = writeBatch(db);
+
+    const message = this.writeMessage(batch, {
+      conversationId,
+      senderId,
+      senderType,
+      content,
+      messageType,
+      timestamp: new Date(),
+      status: 'sent',
+      reactions: [],
+      attachments: [],
+    });
+
+    await batch.commit();
+    this.policy.recordWrites(3);
+
+    return message;
+  }
+
+  // Send a registered template (required once the 24-hour service window has closed).
+  // The chat shows the rendered body; the outbox sends the template itself.
+  async sendTemplateMessage(
+    conversationId: string,
+    senderId: string,
+    template: MessageTemplate,
+    parameters: string[],
+    to: string
+  ): Promise<ChatMessage> {
+    return this.sendMessage(
+      conversationId,
+      senderId,
+      TemplateService.renderTemplate(template, parameters),
+      to,
+      'text',
+      { template: { name: template.name, language: template.language, parameters } }
+    );
+  }
+
+  // Send an uploaded file (see MediaService) as a WhatsApp media message,
+  // with the optional caption as the message content
+  async sendMediaMessage(
+    conversationId: string,
+    senderId: string,
+    attachment: MessageAttachment,
+    caption: string,
+    to: string
+  ): Promise<ChatMessage> {
+    return this.sendMessage(
+      conversationId,
+      senderId,
+      caption,
+      to,
+      getAttachmentMessageType(attachment.type),
+      { attachments: [attachment] }
+    );
+  }
+
+  // Send reply buttons or a list picker; the chat shows the body as the message content
+  async sendInteractiveMessage(
+    conversationId: string,
+    senderId: string,
+    interactive: InteractiveMessage,
+    to: string
+  ): Promise<ChatMessage> {
+    return this.sendMessage(conversationId, senderId, interactive.body, to, 'text', { interactive });
+  }
+
+  // Re-queue an operator message whose WhatsApp delivery failed; the
+  // retrying operator must be allowed to message the customer too
+  async retryMessage(message: ChatMessage, to: string, requestedBy: string): Promise<ChatMessage> {
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, MESSAGES_COLLECTION, message.id), {
+      deliveryState: 'queued',
+      deliveryError: deleteField(),
+    });
+
+    // Overwrite rather than update so messages sent before the outbox existed can be retried too
+    batch.set(doc(db, OUTBOX_COLLECTION, message.id), this.toOutboxEntry(message, requestedBy, to));
+
+    await batch.commit();
+    this.policy.recordWrites(2);
+
+    return { ...message, deliveryState: 'queued', deliveryError: undefined };
+  }
+
+  async markMessageAsRead(messageId: string, userId: string): Promise<void> {
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, MESSAGES_COLLECTION, messageId), { status: 'read' });
+
+    // Merge so older messages without a status record still work
+    batch.set(doc(db, MESSAGE_STATUS_COLLECTION, messageId), {
+      messageId,
+      readBy: arrayUnion(userId),
+      readAt: serverTimestamp(),
+    }, { merge: true });
+
+    await batch.commit();
+    this.policy.recordWrites(2);
+  }
+
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await updateDoc(doc(db, MESSAGES_COLLECTION, messageId), {
+      reactions: arrayUnion({ userId, emoji, timestamp: serverTimestamp() }),
+    });
+    this.policy.recordWrites(1);
+  }
+
+  // Older messages than `before`, oldest first, for paging back through history
+  async loadMoreMessages(
+    conversationId: string,
+    before: Date,
+    limitCount: number = DEFAULT_PAGE_SIZE
+  ): Promise<ChatMessage[]> {
+    const snapshot = await getDocs(query(
+      this.messages(),
+      where('conversationId', '==', conversationId),
+      where('timestamp', '<', Timestamp.fromDate(before)),
+      orderBy('timestamp', 'desc'),
+      limit(limitCount)
+    ));
+    this.policy.recordReads(snapshot.size);
+
+    return snapshot.docs.map(doc => doc.data()).reverse();
+  }
+
+  // Presence Management
+  async updateUserPresence(userId: string, status: UserPresence['status']): Promise<void> {
+    await setDoc(doc(db, PRESENCE_COLLECTION, userId), {
+      userId,
+      status,
+      lastSeen: serverTimestamp(),
+      isTyping: false,
+    }, { merge: true });
+    this.policy.recordWrites(1);
+  }
+
+  // Debounced per user and conversation when the policy asks for it, so only the last state is written
+  async setTypingStatus(userId: string, conversationId: string, isTyping: boolean): Promise<void> {
+    const write = async () => {
+      await updateDoc(doc(db, PRESENCE_COLLECTION, userId), {
+        isTyping,
+        typingInConversation: isTyping ? conversationId : null,
+      });
+      this.policy.recordWrites(1);
+    };
+
+    if (this.policy.typingDebounceMs <= 0) {
+      await write();
+      return;
+    }
+
+    const key = `${userId}_${conversationId}`;
+    clearTimeout(this.typingTimers.get(key));
+
+    this.typingTimers.set(key, setTimeout(() => {
+      this.typingTimers.delete(key);
+      write().catch(error => console.error('Failed to update typing status:', error));
+    }, this.policy.typingDebounceMs));
+  }
+
+  // Real-time Subscriptions
+  subscribeToConversations(
+    callback: (conversations: Conversation[]) => void,
+    operatorId?: string,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const { conversations: maxConversations, conversationMaxAgeDays } = this.policy.limits;
+    const constraints: QueryConstraint[] = [];
+
+    // If operatorId provided, filter for assigned conversations
+    if (operatorId) {
+      constraints.push(where('assignedOperatorId', '==', operatorId));
+    }
+    if (conversationMaxAgeDays) {
+      constraints.push(where('lastMessageAt', '>=', hoursAgo(conversationMaxAgeDays * 24)));
+    }
+    constraints.push(orderBy('lastMessageAt', 'desc'));
+    if (maxConversations) {
+      constraints.push(limit(maxConversations));
+    }
+
+    return this.listen(`conversations_${operatorId || 'all'}`, callback, emit =>
+      onSnapshot(query(this.conversations(), ...constraints), (snapshot) => {
+        this.policy.recordReads(snapshot.size);
+        emit(snapshot.docs.map(doc => doc.data()));
+      }, onError)
+    );
+  }
+
+  // Newest messages of one conversation, oldest first
+  subscribeToMessages(
+    conversationId: string,
+    callback: (messages: ChatMessage[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const { messages: maxMessages, messageWindowHours } = this.policy.limits;
+    const constraints: QueryConstraint[] = [where('conversationId', '==', conversationId)];
+
+    if (messageWindowHours) {
+      constraints.push(where('timestamp', '>=', hoursAgo(messageWindowHours)));
+    }
+    constraints.push(orderBy('timestamp', 'desc'));
+    if (maxMessages) {
+      constraints.push(limit(maxMessages));
+    }
+
+    return this.listen(`messages_${conversationId}`, callback, emit =>
+      onSnapshot(query(this.messages(), ...constraints), (snapshot) => {
+        this.policy.recordReads(snapshot.size);
+        emit(snapshot.docs.map(doc => doc.data()).reverse());
+      }, onError)
+    );
+  }
+
+  // Callers list the most important users first; the policy may drop the rest
+  subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Record<string, UserPresence>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const limitedUserIds = userIds.slice(0, Math.min(this.policy.limits.presenceUsers ?? MAX_IN_QUERY_VALUES, MAX_IN_QUERY_VALUES));
+
+    if (limitedUserIds.length === 0) {
+      callback({});
+      return () => {};
+    }
+
+    const q = query(
+      collection(db, PRESENCE_COLLECTION).withConverter(userPresenceConverter),
+      where('userId', 'in', limitedUserIds)
+    );
+
+    return this.listen(`presence_${[...limitedUserIds].sort().join('_')}`, callback, emit =>
+      onSnapshot(q, (snapshot) => {
+        this.policy.recordReads(snapshot.size);
+
+        const presenceMap: Record<string, UserPresence> = {};
+        snapshot.docs.forEach(doc => {
+          const presence = doc.data();
+          presenceMap[presence.userId] = presence;
+        });
+
+        emit(presenceMap);
+      }, onError)
+    );
+  }
+
+  // Stop all listeners and pending typing updates, e.g. when the chat unmounts
+  cleanup(): void {
+    this.typingTimers.forEach(timer => clearTimeout(timer));
+    this.typingTimers.clear();
+
+    this.activeListeners.forEach(unsubscribe => unsubscribe());
+    this.activeListeners.clear();
+
+    this.policy.clear();
+  }
+
+  /**
+   * Serve a cached result first, attach the listener after the policy's
+   * debounce delay and cache every snapshot it delivers.
+   */
+  private listen<T>(
+    cacheKey: string,
+    callback: (data: T) => void,
+    attach: (emit: (data: T) => void) => Unsubscribe
+  ): Unsubscribe {
+    const cached = this.policy.get<T>(cacheKey);
+    if (cached) {
+      callback(cached);
+    }
+
+    const emit = (data: T) => {
+      this.policy.set(cacheKey, data);
+      callback(data);
+    };
+
+    let unsubscribe: Unsubscribe | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    if (this.policy.debounceMs <= 0) {
+      unsubscribe = attach(emit);
+    } else {
+      timer = setTimeout(() => {
+        unsubscribe = attach(emit);
+      }, this.policy.debounceMs);
+    }
+
+    const stop = () => {
+      clearTimeout(timer);
+      unsubscribe?.();
+      this.activeListeners.delete(stop);
+    };
+    this.activeListeners.add(stop);
+
+    return stop;
+  }
+
+  // Writes the message, its delivery/read status record and the conversation update
+  private writeMessage(batch: WriteBatch, message: Omit<ChatMessage, 'id'>): ChatMessage {
+    const messageRef = doc(this.messages());
+
+    batch.set(messageRef, {
+      ...message,
+      id: messageRef.id,
+      timestamp: serverTimestamp(),
+    });
+
+    // Updated by the WhatsApp status webhook
+    batch.set(doc(db, MESSAGE_STATUS_COLLECTION, messageRef.id), {
+      messageId: messageRef.id,
+      conversationId: message.conversationId,
+      deliveredTo: [],
+      readBy: [],
+    });
+
+    const isInbound = message.senderType === 'customer';
+    batch.update(doc(db, CONVERSATIONS_COLLECTION, message.conversationId), {
+      lastMessageAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      unreadCount: isInbound ? increment(1) : 0,
+      ...(isInbound && {
+        lastInboundAt: serverTimestamp(),
+        serviceWindowExpiresAt: getServiceWindowExpiry(new Date()),
+      }),
+    });
+
+    this.policy.invalidate(`messages_${message.conversationId}`);
+
+    return { id: messageRef.id, ...message };
+  }
+
+  private toOutboxEntry(message: ChatMessage, requestedBy: string, to: string) {
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      requestedBy,
+      to,
+      content: message.content,
+      ...(message.template && { template: message.template }),
+      ...(message.attachments?.[0]?.storagePath && { media: this.toOutboxMedia(message.attachments[0]) }),
+      ...(message.interactive && { interactive: message.interactive }),
+      state: 'pending',
+      attempts: 0,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+  }
+
+  // Only the Storage path is trusted by the outbox; it re-reads type and size from Storage
+  private toOutboxMedia(attachment: MessageAttachment) {
+    return {
+      storagePath: attachment.storagePath,
+      mimeType: attachment.type,
+      fileName: attachment.name,
+    };
+  }
+}
+
+export const chatRepository = new ChatRepository(directCachePolicy);
+export const optimizedChatRepository = new ChatRepository(quotaSavingCachePolicy);
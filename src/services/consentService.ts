@@ -0,0 +1,48 @@
+import { doc, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from '@/lib/firebase';
+import { toPhoneDigits } from '@/lib/phone';
+import { CustomerConsent } from '@/types/chat';
+
+// Written only by Cloud Functions: the WhatsApp webhook and the owner override
+const CONSENT_COLLECTION = 'customer_consent';
+
+export class ConsentService {
+  static subscribeToConsent(
+    phone: string,
+    callback: (consent: CustomerConsent | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(doc(db, CONSENT_COLLECTION, toPhoneDigits(phone)), (snapshot) => {
+      const data = snapshot.data();
+
+      if (!data) {
+        callback(null);
+        return;
+      }
+
+      callback({
+        phone: data.phone || snapshot.id,
+        status: data.status,
+        keyword: data.keyword,
+        language: data.language,
+        updatedAt: data.updatedAt?.toDate(),
+        override: data.override && {
+          by: data.override.by,
+          byName: data.override.byName || undefined,
+          reason: data.override.reason,
+          at: data.override.at?.toDate(),
+        },
+      });
+    }, onError);
+  }
+
+  // Business owners only; the function records who changed it and why
+  static async setOverride(phone: string, allow: boolean, reason?: string): Promise<void> {
+    const setCustomerConsentOverride = httpsCallable(
+      getFunctions(undefined, 'us-central1'),
+      'setCustomerConsentOverride'
+    );
+    await setCustomerConsentOverride({ phone, allow, reason });
+  }
+}
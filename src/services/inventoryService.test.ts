@@ -0,0 +1,66 @@
+import { afterEach, expect, test, vi } from 'vitest';
+import { listDocuments, readDocument } from '@/test/fakeFirestore';
+import { InventoryVariant } from '@/types/inventory';
+import { InventoryService } from './inventoryService';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const hoodieM: InventoryVariant = { productId: 'hoodie', productName: 'Comfort Hoodie', sku: 'HD-100', size: 'M', color: 'Black' };
+
+test('recordMovement creates the variant and appends to the ledger', async () => {
+  const movement = await InventoryService.recordMovement(hoodieM, 'restock', 24, 'operator-1', ' Supplier delivery ');
+
+  expect(movement).toMatchObject({ itemId: 'hoodie__m__black', type: 'restock', quantity: 24, onHandAfter: 24 });
+  expect(readDocument('inventory/hoodie__m__black')).toMatchObject({
+    productId: 'hoodie',
+    productName: 'Comfort Hoodie',
+    sku: 'HD-100',
+    size: 'M',
+    color: 'Black',
+    onHand: 24,
+    updatedBy: 'operator-1',
+  });
+  expect(readDocument(`stock_movements/${movement.id}`)).toMatchObject({
+    itemId: 'hoodie__m__black',
+    type: 'restock',
+    quantity: 24,
+    onHandAfter: 24,
+    reason: 'Supplier delivery',
+    by: 'operator-1',
+  });
+});
+
+test('concurrent movements each apply to the latest count', async () => {
+  await InventoryService.recordMovement(hoodieM, 'restock', 10, 'operator-1');
+
+  await Promise.all([
+    InventoryService.recordMovement(hoodieM, 'sale', 3, 'operator-1'),
+    InventoryService.recordMovement(hoodieM, 'adjustment', -1, 'operator-2'),
+    InventoryService.recordMovement(hoodieM, 'return', 1, 'operator-2'),
+  ]);
+
+  expect(readDocument('inventory/hoodie__m__black')?.onHand).toBe(7);
+  expect(listDocuments('stock_movements')).toHaveLength(4);
+});
+
+test('recordMovement refuses to take stock below zero', async () => {
+  await InventoryService.recordMovement(hoodieM, 'restock', 2, 'operator-1');
+
+  await expect(InventoryService.recordMovement(hoodieM, 'sale', 3, 'operator-1')).rejects.toThrow('Only 2 in stock');
+  expect(readDocument('inventory/hoodie__m__black')?.onHand).toBe(2);
+  expect(listDocuments('stock_movements')).toHaveLength(1);
+});
+
+test('getMovements lists a variant\'s ledger newest first', async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-03-10T09:00:00Z'));
+  await InventoryService.recordMovement(hoodieM, 'restock', 5, 'operator-1');
+  vi.setSystemTime(new Date('2024-03-10T10:00:00Z'));
+  await InventoryService.recordMovement(hoodieM, 'sale', 2, 'operator-1');
+  await InventoryService.recordMovement({ ...hoodieM, size: 'L' }, 'restock', 4, 'operator-1');
+
+  const movements = await InventoryService.getMovements('hoodie__m__black');
+  expect(movements.map(movement => [movement.type, movement.onHandAfter])).toEqual([['sale', 3], ['restock', 5]]);
+});
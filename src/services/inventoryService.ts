@@ -0,0 +1,147 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Unsubscribe,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  inventoryItemId,
+  stockDelta,
+  validateStockMovement,
+  INVENTORY_COLLECTION,
+  STOCK_MOVEMENTS_COLLECTION,
+} from '@/lib/stock';
+import { InventoryItem, InventoryVariant, StockMovement, StockMovementType } from '@/types/inventory';
+
+const DEFAULT_MOVEMENT_LIMIT = 20;
+
+export class InventoryService {
+  // Every variant with a stock record; the table sorts and filters locally
+  static subscribeToInventory(
+    callback: (items: InventoryItem[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(query(collection(db, INVENTORY_COLLECTION), orderBy('productName')), (snapshot) => {
+      callback(snapshot.docs.map(doc => this.toInventoryItem(doc.id, doc.data())));
+    }, onError);
+  }
+
+  /**
+   * Change a variant's on-hand stock and append the movement to the ledger
+   * in one transaction, so concurrent adjustments each apply to the latest
+   * count. The first movement for a variant creates its inventory item.
+   */
+  static async recordMovement(
+    variant: InventoryVariant,
+    type: StockMovementType,
+    quantity: number,
+    by: string,
+    reason?: string
+  ): Promise<StockMovement> {
+    const itemId = inventoryItemId(variant);
+    const itemRef = doc(db, INVENTORY_COLLECTION, itemId);
+    const movementRef = doc(collection(db, STOCK_MOVEMENTS_COLLECTION));
+    const delta = stockDelta(type, quantity);
+    const trimmedReason = reason?.trim() || undefined;
+
+    const onHandAfter = await runTransaction(db, async (transaction) => {
+      const item = await transaction.get(itemRef);
+      const onHand: number = item.data()?.onHand ?? 0;
+      const rejection = validateStockMovement(type, quantity, onHand, trimmedReason);
+
+      if (rejection) throw new Error(rejection);
+
+      transaction.set(itemRef, {
+        ...this.toFirestoreVariant(variant),
+        onHand: onHand + delta,
+        updatedAt: serverTimestamp(),
+        updatedBy: by,
+      }, { merge: true });
+      transaction.set(movementRef, {
+        itemId,
+        productId: variant.productId,
+        type,
+        quantity: delta,
+        onHandAfter: onHand + delta,
+        ...(trimmedReason && { reason: trimmedReason }),
+        by,
+        at: serverTimestamp(),
+      });
+
+      return onHand + delta;
+    });
+
+    return {
+      id: movementRef.id,
+      itemId,
+      productId: variant.productId,
+      type,
+      quantity: delta,
+      onHandAfter,
+      reason: trimmedReason,
+      by,
+      at: new Date(),
+    };
+  }
+
+  // Newest first; needs a composite index on itemId and at
+  static async getMovements(itemId: string, maxMovements: number = DEFAULT_MOVEMENT_LIMIT): Promise<StockMovement[]> {
+    const snapshot = await getDocs(query(
+      collection(db, STOCK_MOVEMENTS_COLLECTION),
+      where('itemId', '==', itemId),
+      orderBy('at', 'desc'),
+      limit(maxMovements)
+    ));
+
+    return snapshot.docs.map(doc => this.toStockMovement(doc.id, doc.data()));
+  }
+
+  private static toFirestoreVariant(variant: InventoryVariant): DocumentData {
+    return {
+      productId: variant.productId,
+      productName: variant.productName,
+      ...(variant.sku && { sku: variant.sku }),
+      ...(variant.size && { size: variant.size }),
+      ...(variant.color && { color: variant.color }),
+    };
+  }
+
+  private static toInventoryItem(id: string, data: DocumentData): InventoryItem {
+    return {
+      id,
+      productId: data.productId,
+      productName: data.productName,
+      sku: data.sku,
+      size: data.size,
+      color: data.color,
+      onHand: data.onHand || 0,
+      reserved: data.reserved || 0,
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      updatedBy: data.updatedBy,
+    };
+  }
+
+  private static toStockMovement(id: string, data: DocumentData): StockMovement {
+    return {
+      id,
+      itemId: data.itemId,
+      productId: data.productId,
+      type: data.type,
+      quantity: data.quantity,
+      onHandAfter: data.onHandAfter,
+      reason: data.reason,
+      orderId: data.orderId,
+      by: data.by,
+      at: data.at?.toDate() || new Date(),
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from '@/lib/firebase';
+import { validateMediaFile } from '@/lib/media';
+import { MessageAttachment } from '@/types/chat';
+
+const MEDIA_STORAGE_PREFIX = 'chat_media';
+
+export class MediaService {
+  /**
+   * Upload an operator's file to Storage so the outbox can send it as a
+   * WhatsApp media message. Rejects files WhatsApp wouldn't accept.
+   */
+  static async uploadAttachment(conversationId: string, file: File): Promise<MessageAttachment> {
+    const validationError = validateMediaFile(file);
+
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const id = `${Date.now()}`;
+    const safeName = file.name.replace(/[/\\]/g, '_');
+    const storagePath = `${MEDIA_STORAGE_PREFIX}/${conversationId}/${id}/${safeName}`;
+    const storageRef = ref(storage, storagePath);
+
+    await uploadBytes(storageRef, file, { contentType: file.type });
+
+    return {
+      id,
+      name: file.name,
+      url: await getDownloadURL(storageRef),
+      type: file.type,
+      size: file.size,
+      storagePath,
+    };
+  }
+}
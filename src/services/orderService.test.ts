@@ -0,0 +1,131 @@
+import { expect, test } from 'vitest';
+import { readDocument, seedDocument, Timestamp } from '@/test/fakeFirestore';
+import { CreateOrderData } from '@/types/order';
+import { OrderService } from './orderService';
+
+const orderData = (overrides: Partial<CreateOrderData> = {}): CreateOrderData => ({
+  customer: { id: '15551234567', name: 'Ava', phone: '15551234567' },
+  conversationId: '15551234567',
+  items: [
+    { name: 'Comfort Hoodie', size: 'M', quantity: 2, unitPrice: 4500 },
+    { name: 'Sport Tee', quantity: 1, unitPrice: 2000 },
+  ],
+  currency: 'USD',
+  shipping: 500,
+  ...overrides,
+});
+
+test('createOrder numbers orders sequentially from the counter', async () => {
+  const first = await OrderService.createOrder(orderData(), 'operator-1');
+  const second = await OrderService.createOrder(orderData(), 'operator-1');
+
+  expect([first.number, second.number]).toEqual([1001, 1002]);
+  expect(readDocument('counters/orders')).toEqual({ lastNumber: 1002 });
+
+  // Numbers continue from the counter, not from how many orders exist
+  seedDocument('counters/orders', { lastNumber: 2040 });
+  expect((await OrderService.createOrder(orderData(), 'operator-1')).number).toBe(2041);
+});
+
+test('createOrder stores line items, totals and the customer and conversation refs', async () => {
+  const order = await OrderService.createOrder(orderData(), 'operator-1');
+
+  expect(order).toMatchObject({ status: 'new', subtotal: 11000, shipping: 500, discount: 0, total: 11500 });
+  expect(readDocument(`orders/${order.id}`)).toMatchObject({
+    number: 1001,
+    customer: { id: '15551234567', name: 'Ava', phone: '15551234567' },
+    conversationId: '15551234567',
+    items: [
+      { name: 'Comfort Hoodie', size: 'M', quantity: 2, unitPrice: 4500 },
+      { name: 'Sport Tee', quantity: 1, unitPrice: 2000 },
+    ],
+    currency: 'USD',
+    total: 11500,
+    status: 'new',
+    createdBy: 'operator-1',
+  });
+});
+
+test('createOrder rejects orders without valid items', async () => {
+  await expect(OrderService.createOrder(orderData({ items: [] }), 'operator-1')).rejects.toThrow(/at least one item/);
+  await expect(OrderService.createOrder(orderData({
+    items: [{ name: 'Sport Tee', quantity: 0, unitPrice: 2000 }],
+  }), 'operator-1')).rejects.toThrow(/Quantity/);
+  expect(readDocument('counters/orders')).toBeUndefined();
+});
+
+test('updateOrder recalculates totals when items change', async () => {
+  const order = await OrderService.createOrder(orderData(), 'operator-1');
+
+  await OrderService.updateOrder(order.id, { items: [{ name: 'Sport Tee', quantity: 3, unitPrice: 2000 }], discount: 1000 });
+
+  expect(await OrderService.getOrder(order.id)).toMatchObject({
+    number: 1001,
+    subtotal: 6000,
+    shipping: 500,
+    discount: 1000,
+    total: 5500,
+  });
+});
+
+test('updateOrder rejects item changes once the order is confirmed', async () => {
+  const order = await OrderService.createOrder(orderData(), 'operator-1');
+  seedDocument(`orders/${order.id}`, {
+    ...readDocument(`orders/${order.id}`),
+    status: 'confirmed',
+    stockReserved: [{ itemId: 'hoodie_m', productId: 'hoodie', name: 'Comfort Hoodie', size: 'M', quantity: 2 }],
+  });
+
+  await expect(OrderService.updateOrder(order.id, {
+    items: [{ name: 'Comfort Hoodie', size: 'M', quantity: 5, unitPrice: 4500 }],
+  })).rejects.toThrow(/once an order is confirmed/);
+  expect(readDocument(`orders/${order.id}`)?.items).toHaveLength(2);
+
+  // Shipping and discount still recalculate the totals
+  await OrderService.updateOrder(order.id, { discount: 500 });
+  expect(readDocument(`orders/${order.id}`)).toMatchObject({ discount: 500, total: 11000 });
+});
+
+test('listOrders filters by status, newest first', async () => {
+  const first = await OrderService.createOrder(orderData(), 'operator-1');
+  const second = await OrderService.createOrder(orderData(), 'operator-1');
+  await OrderService.createOrder(orderData(), 'operator-1');
+  seedDocument(`orders/${second.id}`, { ...readDocument(`orders/${second.id}`), status: 'shipped' });
+
+  const open = await OrderService.listOrders({ statuses: ['new'] });
+  expect(open.map(order => order.number)).toEqual([1003, first.number]);
+});
+
+test('transitionOrder rejects transitions the lifecycle does not allow before calling the function', async () => {
+  const order = await OrderService.createOrder(orderData(), 'operator-1');
+
+  await expect(OrderService.transitionOrder(order, 'shipped')).rejects.toThrow(/can't be marked shipped/);
+  await expect(OrderService.transitionOrder(order, 'rejected')).rejects.toThrow(/reason/);
+});
+
+test('getOrder maps the transition history', async () => {
+  const order = await OrderService.createOrder(orderData(), 'operator-1');
+  const at = new Date('2024-03-10T09:00:00Z');
+  seedDocument(`orders/${order.id}`, {
+    ...readDocument(`orders/${order.id}`),
+    status: 'rejected',
+    history: [{ from: 'new', to: 'rejected', by: 'operator-2', at: Timestamp.fromDate(at), reason: 'Out of stock' }],
+  });
+
+  expect((await OrderService.getOrder(order.id))?.history).toEqual([
+    { from: 'new', to: 'rejected', by: 'operator-2', at, reason: 'Out of stock' },
+  ]);
+});
+
+test('createOrder links the source message and refuses a second order from it', async () => {
+  seedDocument('chat_messages/message-1', { conversationId: '15551234567', senderType: 'customer', content: '2 hoodies' });
+  const sourceMessage = { collection: 'chat_messages', messageId: 'message-1' };
+
+  const order = await OrderService.createOrder(orderData({ sourceMessage }), 'operator-1');
+
+  expect(readDocument(`orders/${order.id}`)).toMatchObject({ sourceMessage });
+  expect(readDocument('chat_messages/message-1')).toMatchObject({ orderId: order.id, orderNumber: 1001 });
+  await expect(OrderService.createOrder(orderData({ sourceMessage }), 'operator-1'))
+    .rejects.toThrow('Order #1001 was already created from this message');
+  expect(readDocument('counters/orders')).toEqual({ lastNumber: 1001 });
+});
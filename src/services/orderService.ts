@@ -0,0 +1,268 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  QueryConstraint,
+  Unsubscribe,
+  DocumentData,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from '@/lib/firebase';
+import { validateTransition } from '@/lib/orderLifecycle';
+import { calculateOrderTotals, validateOrderItems } from '@/lib/orders';
+import {
+  CreateOrderData,
+  Order,
+  OrderStatus,
+  OrderTransition,
+  TransitionOrderOptions,
+  TransitionOrderResult,
+  UpdateOrderData,
+} from '@/types/order';
+
+const ORDERS_COLLECTION = 'orders';
+const COUNTERS_COLLECTION = 'counters';
+const ORDER_COUNTER_ID = 'orders';
+
+// The first order is #1001
+const ORDER_NUMBER_START = 1000;
+const DEFAULT_ORDER_LIMIT = 100;
+
+export interface OrderQueryOptions {
+  statuses?: OrderStatus[];
+  customerId?: string;
+  conversationId?: string;
+  maxOrders?: number;
+}
+
+export class OrderService {
+  /**
+   * Numbers come from a counter document incremented in the same
+   * transaction as the order write, so they are sequential and never reused
+   * even when operators create orders at the same time. An order created
+   * from a message marks that message with its ID in the same transaction,
+   * which takes it out of the enquiry queue and stops a second order from it.
+   */
+  static async createOrder(data: CreateOrderData, createdBy: string): Promise<Order> {
+    validateOrderItems(data.items);
+
+    const orderRef = doc(collection(db, ORDERS_COLLECTION));
+    const counterRef = doc(db, COUNTERS_COLLECTION, ORDER_COUNTER_ID);
+    const sourceRef = data.sourceMessage && doc(db, data.sourceMessage.collection, data.sourceMessage.messageId);
+    const totals = calculateOrderTotals(data.items, data.shipping, data.discount);
+
+    const number = await runTransaction(db, async (transaction) => {
+      const counter = await transaction.get(counterRef);
+      const source = sourceRef && await transaction.get(sourceRef);
+      const next = (counter.data()?.lastNumber ?? ORDER_NUMBER_START) + 1;
+
+      const linkedOrder = source?.data();
+
+      if (linkedOrder?.orderId) {
+        throw new Error(`Order #${linkedOrder.orderNumber} was already created from this message`);
+      }
+
+      transaction.set(counterRef, { lastNumber: next }, { merge: true });
+      if (source?.exists()) {
+        transaction.update(source.ref, { orderId: orderRef.id, orderNumber: next });
+      }
+      transaction.set(orderRef, {
+        number: next,
+        customer: this.toFirestoreCustomer(data.customer),
+        ...(data.conversationId && { conversationId: data.conversationId }),
+        ...(data.sourceMessage && { sourceMessage: data.sourceMessage }),
+        items: data.items.map(item => this.toFirestoreItem(item)),
+        currency: data.currency,
+        ...totals,
+        status: 'new',
+        ...(data.notes && { notes: data.notes }),
+        createdBy,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      return next;
+    });
+
+    return {
+      id: orderRef.id,
+      number,
+      customer: data.customer,
+      conversationId: data.conversationId,
+      sourceMessage: data.sourceMessage,
+      items: data.items,
+      currency: data.currency,
+      ...totals,
+      status: 'new',
+      history: [],
+      notes: data.notes,
+      createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Totals are recalculated from the stored order whenever items, shipping or
+   * discount change. Items can only change while the order is new: confirming
+   * reserves stock for them, so later edits would leave the reservation behind.
+   */
+  static async updateOrder(orderId: string, updates: UpdateOrderData): Promise<void> {
+    const orderRef = doc(db, ORDERS_COLLECTION, orderId);
+    const data: DocumentData = { updatedAt: serverTimestamp() };
+
+    if (updates.customer) data.customer = this.toFirestoreCustomer(updates.customer);
+    if (updates.currency) data.currency = updates.currency;
+    if (updates.notes !== undefined) data.notes = updates.notes;
+
+    if (!updates.items && updates.shipping === undefined && updates.discount === undefined) {
+      await updateDoc(orderRef, data);
+      return;
+    }
+
+    if (updates.items) validateOrderItems(updates.items);
+
+    // Read in the transaction so a confirmation in between can't slip past the status check
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(orderRef);
+      if (!snapshot.exists()) throw new Error('Order not found');
+
+      const current = this.toOrder(snapshot.id, snapshot.data());
+
+      if (updates.items && current.status !== 'new') {
+        throw new Error(`Items can't be changed once an order is ${current.status}`);
+      }
+
+      const items = updates.items ?? current.items;
+
+      data.items = items.map(item => this.toFirestoreItem(item));
+      Object.assign(data, calculateOrderTotals(
+        items,
+        updates.shipping ?? current.shipping,
+        updates.discount ?? current.discount
+      ));
+
+      transaction.update(orderRef, data);
+    });
+  }
+
+  /**
+   * Status changes go through the transitionOrder function, which enforces
+   * the lifecycle, records the change in the order's history and queues the
+   * customer's WhatsApp notification. Checked here first for a quick error.
+   */
+  static async transitionOrder(
+    order: Pick<Order, 'id' | 'status'>,
+    to: OrderStatus,
+    { reason, notifyCustomer = false, overrideStock = false }: TransitionOrderOptions = {}
+  ): Promise<TransitionOrderResult> {
+    const rejection = validateTransition(order.status, to, reason);
+    if (rejection) throw new Error(rejection);
+
+    const transitionOrder = httpsCallable(getFunctions(undefined, 'us-central1'), 'transitionOrder');
+    const result = await transitionOrder({ orderId: order.id, to, reason, notifyCustomer, overrideStock });
+    return result.data as TransitionOrderResult;
+  }
+
+  static async getOrder(orderId: string): Promise<Order | null> {
+    const snapshot = await getDoc(doc(db, ORDERS_COLLECTION, orderId));
+    const data = snapshot.data();
+    return data ? this.toOrder(snapshot.id, data) : null;
+  }
+
+  static async listOrders(options: OrderQueryOptions = {}): Promise<Order[]> {
+    const snapshot = await getDocs(this.ordersQuery(options));
+    return snapshot.docs.map(doc => this.toOrder(doc.id, doc.data()));
+  }
+
+  // Newest orders first
+  static subscribeToOrders(
+    callback: (orders: Order[]) => void,
+    onError?: (error: Error) => void,
+    options: OrderQueryOptions = {}
+  ): Unsubscribe {
+    return onSnapshot(this.ordersQuery(options), (snapshot) => {
+      callback(snapshot.docs.map(doc => this.toOrder(doc.id, doc.data())));
+    }, onError);
+  }
+
+  private static ordersQuery({ statuses, customerId, conversationId, maxOrders = DEFAULT_ORDER_LIMIT }: OrderQueryOptions) {
+    const constraints: QueryConstraint[] = [];
+
+    if (statuses?.length) constraints.push(where('status', 'in', statuses));
+    if (customerId) constraints.push(where('customer.id', '==', customerId));
+    if (conversationId) constraints.push(where('conversationId', '==', conversationId));
+
+    return query(
+      collection(db, ORDERS_COLLECTION),
+      ...constraints,
+      orderBy('number', 'desc'),
+      limit(maxOrders)
+    );
+  }
+
+  private static toFirestoreCustomer(customer: Order['customer']): DocumentData {
+    return {
+      id: customer.id,
+      phone: customer.phone,
+      ...(customer.name && { name: customer.name }),
+    };
+  }
+
+  private static toFirestoreItem(item: Order['items'][number]): DocumentData {
+    return {
+      name: item.name.trim(),
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      ...(item.productId && { productId: item.productId }),
+      ...(item.size && { size: item.size }),
+      ...(item.color && { color: item.color }),
+    };
+  }
+
+  private static toOrder(id: string, data: DocumentData): Order {
+    return {
+      id,
+      number: data.number,
+      customer: {
+        id: data.customer?.id,
+        name: data.customer?.name,
+        phone: data.customer?.phone,
+      },
+      conversationId: data.conversationId,
+      sourceMessage: data.sourceMessage,
+      items: data.items || [],
+      currency: data.currency,
+      subtotal: data.subtotal || 0,
+      shipping: data.shipping || 0,
+      discount: data.discount || 0,
+      total: data.total || 0,
+      status: data.status,
+      history: (data.history || []).map((entry: DocumentData): OrderTransition => ({
+        from: entry.from,
+        to: entry.to,
+        by: entry.by,
+        at: entry.at?.toDate() || new Date(),
+        reason: entry.reason,
+        notificationMessageId: entry.notificationMessageId,
+        notificationSkipped: entry.notificationSkipped,
+        stockOverride: entry.stockOverride,
+      })),
+      stockReserved: data.stockReserved,
+      stockShipped: data.stockShipped,
+      notes: data.notes,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { DEFAULT_CURRENCY } from '@/lib/orders';
+import { Product } from '@/types/product';
+
+const PRODUCTS_COLLECTION = 'products';
+
+export class ProductService {
+  // Sorted by name locally, so the query needs no composite index
+  static async getActiveProducts(): Promise<Product[]> {
+    const q = query(
+      collection(db, PRODUCTS_COLLECTION),
+      where('isActive', '==', true)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => this.toProduct(doc.id, doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private static toProduct(id: string, data: DocumentData): Product {
+    return {
+      id,
+      name: data.name,
+      sku: data.sku,
+      unitPrice: data.unitPrice || 0,
+      currency: data.currency || DEFAULT_CURRENCY,
+      sizes: data.sizes || [],
+      colors: data.colors || [],
+      aliases: data.aliases || [],
+      isActive: data.isActive ?? true,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  runTransaction,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ScheduledMessage, ScheduledMessageState } from '@/types/chat';
+
+const SCHEDULED_MESSAGES_COLLECTION = 'scheduled_messages';
+
+// Messages the operator can still edit or cancel
+const OPEN_STATES: ScheduledMessageState[] = ['scheduled', 'window_closed', 'failed'];
+
+export class ScheduledMessageService {
+  static async scheduleMessage(
+    conversationId: string,
+    to: string,
+    content: string,
+    scheduledFor: Date,
+    createdBy: string
+  ): Promise<string> {
+    this.assertInFuture(scheduledFor);
+
+    const scheduledRef = await addDoc(collection(db, SCHEDULED_MESSAGES_COLLECTION), {
+      conversationId,
+      to,
+      content,
+      scheduledFor: Timestamp.fromDate(scheduledFor),
+      state: 'scheduled',
+      createdBy,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    return scheduledRef.id;
+  }
+
+  /**
+   * Change the text or time of a message that hasn't been sent. Held
+   * (`window_closed` or `failed`) messages are scheduled again. Runs in a
+   * transaction so an edit can't race the dispatcher sending the old text.
+   */
+  static async updateScheduledMessage(id: string, content: string, scheduledFor: Date): Promise<void> {
+    this.assertInFuture(scheduledFor);
+
+    await this.updateOpenMessage(id, {
+      content,
+      scheduledFor: Timestamp.fromDate(scheduledFor),
+      state: 'scheduled',
+      serviceWindowExpiresAt: deleteField(),
+      error: deleteField(),
+    });
+  }
+
+  static async cancelScheduledMessage(id: string): Promise<void> {
+    await this.updateOpenMessage(id, { state: 'cancelled' });
+  }
+
+  static subscribeToScheduledMessages(
+    conversationId: string,
+    callback: (messages: ScheduledMessage[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const q = query(
+      collection(db, SCHEDULED_MESSAGES_COLLECTION),
+      where('conversationId', '==', conversationId),
+      where('state', 'in', OPEN_STATES),
+      orderBy('scheduledFor', 'asc')
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          conversationId: data.conversationId,
+          to: data.to,
+          content: data.content,
+          scheduledFor: data.scheduledFor?.toDate() || new Date(),
+          state: data.state,
+          createdBy: data.createdBy,
+          messageId: data.messageId,
+          serviceWindowExpiresAt: data.serviceWindowExpiresAt?.toDate(),
+          error: data.error || undefined,
+        };
+      }));
+    }, onError);
+  }
+
+  private static async updateOpenMessage(id: string, changes: Record<string, unknown>): Promise<void> {
+    const scheduledRef = doc(db, SCHEDULED_MESSAGES_COLLECTION, id);
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(scheduledRef);
+      const state = snapshot.data()?.state as ScheduledMessageState | undefined;
+
+      if (!state || !OPEN_STATES.includes(state)) {
+        throw new Error(state === 'sent'
+          ? 'This message has already been sent'
+          : 'This scheduled message no longer exists');
+      }
+
+      transaction.update(scheduledRef, { ...changes, updatedAt: serverTimestamp() });
+    });
+  }
+
+  private static assertInFuture(scheduledFor: Date): void {
+    if (Number.isNaN(scheduledFor.getTime()) || scheduledFor.getTime() <= Date.now()) {
+      throw new Error('Choose a time in the future');
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { MessageTemplate } from '@/types/chat';
+
+const TEMPLATES_COLLECTION = 'message_templates';
+
+export class TemplateService {
+  static async getActiveTemplates(): Promise<MessageTemplate[]> {
+    const q = query(
+      collection(db, TEMPLATES_COLLECTION),
+      where('isActive', '==', true)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        name: data.name,
+        language: data.language,
+        category: data.category,
+        body: data.body || '',
+        parameters: data.parameters || [],
+        isActive: data.isActive ?? true,
+      };
+    });
+  }
+
+  /**
+   * Substitute {{1}}, {{2}}... in the template body, leaving unfilled placeholders visible.
+   */
+  static renderTemplate(template: MessageTemplate, parameters: string[]): string {
+    return template.body.replace(/\{\{(\d+)\}\}/g, (placeholder, index) => {
+      return parameters[Number(index) - 1] || placeholder;
+    });
+  }
+}
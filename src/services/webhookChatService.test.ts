@@ -0,0 +1,67 @@
+import { expect, test } from 'vitest';
+import { listDocuments, readDocument } from '@/test/fakeFirestore';
+import { WebhookChatService, WebhookMessage } from './webhookChatService';
+
+const webhookMessage = (overrides: Partial<WebhookMessage> = {}): WebhookMessage => ({
+  conversationId: '',
+  phone_number: '+1 (555) 123-4567',
+  name: 'Ana',
+  message: 'Hi',
+  sender: 'customer',
+  timestamp: '2024-03-01T10:00:00Z',
+  type: 'message',
+  ...overrides,
+});
+
+test('processWebhookMessage creates the conversation once and counts unread customer messages', async () => {
+  await WebhookChatService.processWebhookMessage(webhookMessage());
+  await WebhookChatService.processWebhookMessage(webhookMessage({ message: 'Are you open today?' }));
+
+  expect(listDocuments('conversations')).toEqual(['conversations/15551234567']);
+  expect(readDocument('conversations/15551234567')).toMatchObject({ customerName: 'Ana', unreadCount: 2 });
+  expect(listDocuments('chat_messages')).toHaveLength(2);
+});
+
+const conversationKeys: Array<[WebhookMessage['phone_number'], string]> = [
+  ['+1 (555) 123-4567', '15551234567'],
+  ['15551234567', '15551234567'],
+  // A Singapore wa_id, not a US national number
+  ['6591234567', '6591234567'],
+  [6591234567, '6591234567'],
+];
+
+for (const [phoneNumber, conversationId] of conversationKeys) {
+  test(`processWebhookMessage keys ${phoneNumber} by its wa_id digits`, async () => {
+    await WebhookChatService.processWebhookMessage(webhookMessage({ phone_number: phoneNumber }));
+
+    expect(listDocuments('conversations')).toEqual([`conversations/${conversationId}`]);
+    expect(readDocument(`conversations/${conversationId}`)?.customerPhone).toBe(conversationId);
+  });
+}
+
+test('processWebhookMessage records n8n replies without queueing them for WhatsApp', async () => {
+  await WebhookChatService.processWebhookMessage(webhookMessage());
+  const reply = await WebhookChatService.processWebhookMessage(webhookMessage({ sender: 'operator', message: 'Yes, until 6pm' }));
+
+  expect(reply.senderId).toBe('operator');
+  expect(readDocument('conversations/15551234567')?.unreadCount).toBe(0);
+  expect(listDocuments('message_outbox')).toEqual([]);
+});
+
+test('getOrCreateConversationByPhone reuses the conversation keyed by phone digits', async () => {
+  const first = await WebhookChatService.getOrCreateConversationByPhone('+1 555 123 4567', 'Ana');
+  const second = await WebhookChatService.getOrCreateConversationByPhone('15551234567', 'Ana B.');
+
+  expect(first).toBe('15551234567');
+  expect(second).toBe(first);
+  expect(readDocument('conversations/15551234567')?.customerName).toBe('Ana');
+});
+
+test('findConversationByPhone does not create a conversation', async () => {
+  expect(await WebhookChatService.findConversationByPhone('+1 555 123 4567')).toBeNull();
+  expect(listDocuments('conversations')).toEqual([]);
+
+  await WebhookChatService.getOrCreateConversationByPhone('15551234567', 'Ana');
+
+  expect(await WebhookChatService.findConversationByPhone('+1 (555) 123-4567')).toBe('15551234567');
+});
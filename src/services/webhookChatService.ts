@@ -1,5 +1,6 @@
-import { ChatService } from './chatService';
+import { chatRepository } from './chatRepository';
 import { ChatMessage } from '@/types/chat';
+import { whatsAppIdToDigits } from '@/lib/phone';
 
 export interface WebhookMessage {
   conversationId: string;
@@ -16,23 +17,25 @@ export class WebhookChatService {
    * Convert webhook message data to ChatMessage format and store in Firebase
    */
   static async processWebhookMessage(webhookData: WebhookMessage): Promise<ChatMessage> {
-    const conversationId = String(webhookData.conversationId || webhookData.phone_number);
-    const phoneNumber = String(webhookData.phone_number);
+    // n8n passes on the customer's wa_id, the same key the WhatsApp webhook uses
+    const phoneNumber = whatsAppIdToDigits(webhookData.phone_number);
+    const conversationId = webhookData.conversationId ? String(webhookData.conversationId) : phoneNumber;
     
     // Create or get conversation
-    let conversation = await ChatService.getConversation(conversationId);
+    let conversation = await chatRepository.getConversation(conversationId);
     
     if (!conversation) {
       // Create new conversation using phone number as ID
-      conversation = await ChatService.createConversation(
+      conversation = await chatRepository.createConversation(
         phoneNumber, // customerId = phone number for simplicity
         webhookData.name,
-        phoneNumber
+        phoneNumber,
+        conversationId
       );
     }
 
-    // Send message through ChatService
-    const message = await ChatService.sendMessage(
+    // Already exchanged through n8n, so it is only recorded, not queued for WhatsApp
+    const message = await chatRepository.recordMessage(
       conversationId,
       webhookData.sender === 'operator' ? 'operator' : phoneNumber,
       webhookData.sender,
@@ -44,22 +47,34 @@ export class WebhookChatService {
   }
 
   /**
-   * Create conversation if it doesn't exist based on phone number
+   * Find the conversation for a customer's wa_id, or null when there is none
+   * yet. Sends are only authorized for existing conversations, so the send
+   * path uses this rather than creating one.
+   */
+  static async findConversationByPhone(phoneNumber: string): Promise<string | null> {
+    const conversation = await chatRepository.getConversation(whatsAppIdToDigits(phoneNumber));
+    return conversation?.id ?? null;
+  }
+
+  /**
+   * Create conversation if it doesn't exist based on phone number.
+   * Only for an explicit "new conversation" action by a business owner.
    */
   static async getOrCreateConversationByPhone(
     phoneNumber: string,
     customerName: string
   ): Promise<string> {
-    // Use phone number as conversation ID
-    const conversationId = phoneNumber;
+    // Customers come from the WhatsApp data sources, so the number is a wa_id and its digits the conversation ID
+    const conversationId = whatsAppIdToDigits(phoneNumber);
     
-    let conversation = await ChatService.getConversation(conversationId);
+    let conversation = await chatRepository.getConversation(conversationId);
     
     if (!conversation) {
-      conversation = await ChatService.createConversation(
-        phoneNumber,
+      conversation = await chatRepository.createConversation(
+        conversationId,
         customerName,
-        phoneNumber
+        conversationId,
+        conversationId
       );
     }
 
@@ -1,3 +1,5 @@
+import { toPhoneDigits } from '@/lib/phone';
+
 interface WhatsAppMessage {
   messaging_product: 'whatsapp';
   to: string;
@@ -18,8 +20,12 @@ interface WhatsAppResponse {
   }>;
 }
 
+// VITE_WHATSAPP_API_BASE_URL points the dashboard at another Graph host, such
+// as the local mock from `npm run mock:whatsapp` in functions/
+const API_BASE_URL = (import.meta.env.VITE_WHATSAPP_API_BASE_URL || 'https://graph.facebook.com/v21.0').replace(/\/+$/, '');
+
 export class WhatsAppService {
-  private readonly baseUrl = 'https://graph.facebook.com/v21.0';
+  private readonly baseUrl = API_BASE_URL;
   private phoneNumberId: string;
   private accessToken: string;
 
@@ -29,8 +35,8 @@ export class WhatsAppService {
   }
 
   async sendMessage(to: string, message: string): Promise<WhatsAppResponse> {
-    // Format phone number (remove any non-digits and ensure it starts with country code)
-    const formattedPhone = to.replace(/\D/g, '');
+    // Format phone number (international digits, using the default country for national numbers)
+    const formattedPhone = WhatsAppService.formatPhoneNumber(to);
     
     const messageData: WhatsAppMessage = {
       messaging_product: 'whatsapp',
@@ -58,16 +64,8 @@ export class WhatsAppService {
     return response.json();
   }
 
+  // International digits, using DEFAULT_PHONE_COUNTRY for national numbers
   static formatPhoneNumber(phone: string): string {
-    // Remove all non-digits
-    let cleaned = phone.replace(/\D/g, '');
-    
-    // If it doesn't start with country code, assume it's a local number
-    // You may need to adjust this based on your region
-    if (!cleaned.startsWith('1') && cleaned.length === 10) {
-      cleaned = '1' + cleaned; // Add US country code as default
-    }
-    
-    return cleaned;
+    return toPhoneDigits(phone);
   }
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { expect, test } from 'vitest';
+import {
+  arrayUnion,
+  collection,
+  doc,
+  fakeDb,
+  flushSnapshots,
+  getDocs,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  runTransaction,
+  readDocument,
+  seedDocument,
+  startAfter,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from './fakeFirestore';
+
+const seedOrders = () => {
+  seedDocument('orders/a', { customer: 'ana', total: 30, placedAt: new Date('2024-03-01') });
+  seedDocument('orders/b', { customer: 'ben', total: 10, placedAt: new Date('2024-03-02') });
+  seedDocument('orders/c', { customer: 'ana', total: 20, placedAt: new Date('2024-03-03') });
+  seedDocument('orders/d', { customer: 'cat', total: 40 });
+};
+
+const ids = (snapshot: QuerySnapshot) => snapshot.docs.map(document => document.id);
+
+test('queries filter, order, limit and page with startAfter', async () => {
+  seedOrders();
+  const orders = collection(fakeDb, 'orders');
+
+  expect(ids(await getDocs(query(orders, where('customer', '==', 'ana'))))).toEqual(['a', 'c']);
+  expect(ids(await getDocs(query(orders, where('customer', 'in', ['ben', 'cat']))))).toEqual(['b', 'd']);
+  expect(ids(await getDocs(query(orders, orderBy('total', 'desc'), limit(2))))).toEqual(['d', 'a']);
+
+  // Dates compare as Timestamps, and documents missing the ordered field are left out
+  const firstPage = await getDocs(query(orders, orderBy('placedAt'), limit(2)));
+  expect(ids(firstPage)).toEqual(['a', 'b']);
+  expect(ids(await getDocs(query(orders, orderBy('placedAt'), startAfter(firstPage.docs[1]))))).toEqual(['c']);
+  expect(ids(await getDocs(query(orders, where('placedAt', '>=', new Date('2024-03-02')))))).toEqual(['b', 'c']);
+});
+
+test('onSnapshot delivers the current result and every change to it', async () => {
+  seedOrders();
+  const deliveries: string[][] = [];
+
+  const unsubscribe = onSnapshot(
+    query(collection(fakeDb, 'orders'), where('customer', '==', 'ana')),
+    snapshot => deliveries.push(ids(snapshot))
+  );
+  await flushSnapshots();
+
+  seedDocument('orders/e', { customer: 'ana', total: 5 });
+  seedDocument('orders/f', { customer: 'ben', total: 5 });
+  await flushSnapshots();
+
+  unsubscribe();
+  seedDocument('orders/g', { customer: 'ana', total: 5 });
+  await flushSnapshots();
+
+  expect(deliveries).toEqual([['a', 'c'], ['a', 'c', 'e']]);
+});
+
+test('batches apply all their writes or none of them', async () => {
+  seedOrders();
+
+  const failing = writeBatch(fakeDb);
+  failing.update(doc(fakeDb, 'orders/a'), { total: 35 });
+  failing.update(doc(fakeDb, 'orders/missing'), { total: 1 });
+  await expect(failing.commit()).rejects.toMatchObject({ code: 'not-found' });
+  expect(readDocument('orders/a')?.total).toBe(30);
+
+  const batch = writeBatch(fakeDb);
+  batch.set(doc(fakeDb, 'orders/e'), { customer: 'dan', total: 15 });
+  batch.update(doc(fakeDb, 'orders/a'), { total: 35 });
+  await batch.commit();
+  expect(readDocument('orders/a')?.total).toBe(35);
+  expect(readDocument('orders/e')).toEqual({ customer: 'dan', total: 15 });
+});
+
+test('transactions rerun when a document they read changes before they commit', async () => {
+  seedDocument('counters/stock', { onHand: 10 });
+  const ref = doc(fakeDb, 'counters', 'stock');
+  let attempts = 0;
+
+  const take = (quantity: number) => runTransaction(fakeDb, async (transaction) => {
+    attempts++;
+    const { onHand } = (await transaction.get(ref)).data() as { onHand: number };
+    transaction.update(ref, { onHand: onHand - quantity });
+  });
+
+  await Promise.all([take(3), take(4)]);
+
+  expect(readDocument('counters/stock')?.onHand).toBe(3);
+  expect(attempts).toBe(3);
+});
+
+test('increment and arrayUnion resolve against the stored value', async () => {
+  seedDocument('counters/visits', { count: 2, tags: ['vip'] });
+  const ref = doc(fakeDb, 'counters', 'visits');
+
+  await updateDoc(ref, { count: increment(3), tags: arrayUnion('vip', 'wholesale'), 'meta.updatedAt': new Date(0) });
+
+  expect(readDocument('counters/visits')).toEqual({
+    count: 5,
+    tags: ['vip', 'wholesale'],
+    meta: { updatedAt: Timestamp.fromMillis(0) },
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * In-memory stand-in for the parts of the `firebase/firestore` modular API
+ * the app uses. The vitest setup file swaps it in for the real module (and
+ * `fakeDb` in for `db`), so services and hooks run unchanged without network.
+ *
+ * Snapshot listeners fire asynchronously like the real SDK; await
+ * `flushSnapshots()` before asserting on what they delivered.
+ */
+
+type Data = Record<string, unknown>;
+type WhereFilterOp = '<' | '<=' | '==' | '!=' | '>=' | '>' | 'in' | 'not-in' | 'array-contains' | 'array-contains-any';
+type OrderByDirection = 'asc' | 'desc';
+
+interface Converter<T = unknown> {
+  toFirestore(model: T, options?: SetOptions): Data;
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: unknown): T;
+}
+
+interface SetOptions {
+  merge?: boolean;
+}
+
+type QueryConstraint =
+  | { type: 'where'; field: string; op: WhereFilterOp; value: unknown }
+  | { type: 'orderBy'; field: string; direction: OrderByDirection }
+  | { type: 'limit' | 'limitToLast'; count: number }
+  | { type: 'startAt' | 'startAfter'; values: unknown[] };
+
+export class FirestoreError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+    this.name = 'FirestoreError';
+  }
+}
+
+export class Timestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(millis: number): Timestamp {
+    const seconds = Math.floor(millis / 1000);
+    return new Timestamp(seconds, (millis - seconds * 1000) * 1e6);
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + this.nanoseconds / 1e6;
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return this.seconds === other.seconds && this.nanoseconds === other.nanoseconds;
+  }
+}
+
+// Sentinels resolve against the field's current value when the write is applied
+const DELETE = Symbol('deleteField');
+
+export class FieldValue {
+  constructor(readonly resolve: (current: unknown) => unknown) {}
+}
+
+export const serverTimestamp = () => new FieldValue(() => Timestamp.now());
+
+export const deleteField = () => new FieldValue(() => DELETE);
+
+export const increment = (n: number) =>
+  new FieldValue(current => (typeof current === 'number' ? current : 0) + n);
+
+export const arrayUnion = (...elements: unknown[]) => new FieldValue(current => {
+  const array = Array.isArray(current) ? [...current] : [];
+  elements.map(toStored).forEach(element => {
+    if (!array.some(existing => isEqualValue(existing, element))) array.push(element);
+  });
+  return array;
+});
+
+export const arrayRemove = (...elements: unknown[]) => new FieldValue(current => {
+  const removed = elements.map(toStored);
+  return (Array.isArray(current) ? current : [])
+    .filter(existing => !removed.some(element => isEqualValue(existing, element)));
+});
+
+// Value handling
+
+const isPlainObject = (value: unknown): value is Data =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  !(value instanceof Timestamp) && !(value instanceof FieldValue) && !(value instanceof Date);
+
+// Converts a written value to how Firestore stores it: Dates become Timestamps, sentinels resolve
+const toStored = (value: unknown): unknown => {
+  if (value === undefined) {
+    throw new FirestoreError('invalid-argument', 'Function called with invalid data. Unsupported field value: undefined');
+  }
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (value instanceof FieldValue) return value.resolve(undefined);
+  if (Array.isArray(value)) return value.map(toStored);
+  if (isPlainObject(value)) {
+    const stored: Data = {};
+    Object.entries(value).forEach(([key, field]) => {
+      const resolved = toStored(field);
+      if (resolved !== DELETE) stored[key] = resolved;
+    });
+    return stored;
+  }
+  return value;
+};
+
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, clone(field)])) as T;
+  }
+  return value;
+};
+
+// Firestore sorts values of different types by type first
+const typeRank = (value: unknown): number => {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (value instanceof Timestamp) return 3;
+  if (typeof value === 'string') return 4;
+  if (Array.isArray(value)) return 5;
+  return 6;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const rankDifference = typeRank(a) - typeRank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (a instanceof Timestamp && b instanceof Timestamp) return a.toMillis() - b.toMillis();
+  if (typeof a === 'number' || typeof a === 'string' || typeof a === 'boolean') {
+    return a < (b as typeof a) ? -1 : a > (b as typeof a) ? 1 : 0;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const difference = compareValues(a[i], b[i]);
+      if (difference !== 0) return difference;
+    }
+    return a.length - b.length;
+  }
+  return 0;
+};
+
+const isEqualValue = (a: unknown, b: unknown): boolean => {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isEqualValue(a[key], b[key]));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((element, i) => isEqualValue(element, b[i]));
+  }
+  return typeRank(a) === typeRank(b) && compareValues(a, b) === 0;
+};
+
+const getField = (data: Data, fieldPath: string): unknown =>
+  fieldPath.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+
+// Store
+
+const documents = new Map<string, Data>();
+const listeners = new Set<() => void>();
+
+class FakeFirestore {
+  readonly type = 'firestore';
+}
+
+export const fakeDb = new FakeFirestore();
+
+export const getFirestore = () => fakeDb;
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const autoId = () =>
+  Array.from({ length: 20 }, () => AUTO_ID_CHARS[Math.floor(Math.random() * AUTO_ID_CHARS.length)]).join('');
+
+const joinPath = (...segments: string[]) =>
+  segments.flatMap(segment => segment.split('/')).filter(Boolean).join('/');
+
+const parentPath = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// References
+
+export class Query {
+  readonly type: 'query' | 'collection' = 'query';
+
+  constructor(
+    readonly path: string,
+    readonly constraints: QueryConstraint[] = [],
+    readonly converter: Converter | null = null
+  ) {}
+
+  withConverter(converter: Converter | null): Query {
+    return new Query(this.path, this.constraints, converter);
+  }
+}
+
+export class CollectionReference extends Query {
+  readonly type = 'collection';
+
+  constructor(path: string, converter: Converter | null = null) {
+    super(path, [], converter);
+  }
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  withConverter(converter: Converter | null): CollectionReference {
+    return new CollectionReference(this.path, converter);
+  }
+}
+
+export class DocumentReference {
+  readonly type = 'document';
+
+  constructor(readonly path: string, readonly converter: Converter | null = null) {}
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  get parent(): CollectionReference {
+    return new CollectionReference(parentPath(this.path), this.converter);
+  }
+
+  withConverter(converter: Converter | null): DocumentReference {
+    return new DocumentReference(this.path, converter);
+  }
+}
+
+type Parent = FakeFirestore | CollectionReference | DocumentReference;
+
+export const collection = (parent: Parent, ...pathSegments: string[]): CollectionReference => {
+  const base = parent instanceof FakeFirestore ? '' : parent.path;
+  const path = joinPath(base, ...pathSegments);
+
+  if (path.split('/').length % 2 !== 1) {
+    throw new FirestoreError('invalid-argument', `Invalid collection reference: ${path}`);
+  }
+  return new CollectionReference(path);
+};
+
+export const doc = (parent: Parent, ...pathSegments: string[]): DocumentReference => {
+  if (parent instanceof CollectionReference && pathSegments.length === 0) {
+    return new DocumentReference(joinPath(parent.path, autoId()), parent.converter);
+  }
+
+  const base = parent instanceof FakeFirestore ? '' : parent.path;
+  const path = joinPath(base, ...pathSegments);
+
+  if (path.split('/').length % 2 !== 0) {
+    throw new FirestoreError('invalid-argument', `Invalid document reference: ${path}`);
+  }
+  return new DocumentReference(path, parent instanceof CollectionReference ? parent.converter : null);
+};
+
+// Query constraints
+
+export const where = (field: string, op: WhereFilterOp, value: unknown): QueryConstraint =>
+  ({ type: 'where', field, op, value });
+
+export const orderBy = (field: string, direction: OrderByDirection = 'asc'): QueryConstraint =>
+  ({ type: 'orderBy', field, direction });
+
+export const limit = (count: number): QueryConstraint => ({ type: 'limit', count });
+
+export const limitToLast = (count: number): QueryConstraint => ({ type: 'limitToLast', count });
+
+export const startAt = (...values: unknown[]): QueryConstraint => ({ type: 'startAt', values });
+
+export const startAfter = (...values: unknown[]): QueryConstraint => ({ type: 'startAfter', values });
+
+export const query = (base: Query, ...constraints: QueryConstraint[]): Query =>
+  new Query(base.path, [...base.constraints, ...constraints], base.converter);
+
+// Snapshots
+
+export class DocumentSnapshot {
+  constructor(readonly ref: DocumentReference, private readonly stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(options?: unknown): unknown {
+    if (this.stored === undefined) return undefined;
+    if (this.ref.converter) {
+      return this.ref.converter.fromFirestore(
+        new QueryDocumentSnapshot(this.ref.withConverter(null), this.stored),
+        options
+      );
+    }
+    return clone(this.stored);
+  }
+
+  get(fieldPath: string): unknown {
+    return this.stored === undefined ? undefined : clone(getField(this.stored, fieldPath));
+  }
+}
+
+export class QueryDocumentSnapshot extends DocumentSnapshot {}
+
+export class QuerySnapshot {
+  constructor(readonly query: Query, readonly docs: QueryDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (snapshot: QueryDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+const matchesFilter = (value: unknown, op: WhereFilterOp, expected: unknown): boolean => {
+  if (value === undefined) return false;
+
+  switch (op) {
+    case '==': return isEqualValue(value, expected);
+    case '!=': return value !== null && !isEqualValue(value, expected);
+    case 'in': return (expected as unknown[]).some(candidate => isEqualValue(value, candidate));
+    case 'not-in': return value !== null && !(expected as unknown[]).some(candidate => isEqualValue(value, candidate));
+    case 'array-contains':
+      return Array.isArray(value) && value.some(element => isEqualValue(element, expected));
+    case 'array-contains-any':
+      return Array.isArray(value) &&
+        value.some(element => (expected as unknown[]).some(candidate => isEqualValue(element, candidate)));
+    default: {
+      // Range filters only match values of the same type
+      if (typeRank(value) !== typeRank(expected)) return false;
+      const difference = compareValues(value, expected);
+      return op === '<' ? difference < 0
+        : op === '<=' ? difference <= 0
+        : op === '>' ? difference > 0
+        : difference >= 0;
+    }
+  }
+};
+
+const RANGE_OPS: WhereFilterOp[] = ['<', '<=', '>', '>=', '!=', 'not-in'];
+
+const runQuery = (q: Query): QueryDocumentSnapshot[] => {
+  const filters = q.constraints.flatMap(c => (c.type === 'where' ? [{ ...c, value: toStored(c.value) }] : []));
+  const orders = q.constraints.flatMap(c => (c.type === 'orderBy' ? [c] : []));
+
+  // Like Firestore, an inequality filter without an explicit order sorts by its field
+  const inequality = filters.find(filter => RANGE_OPS.includes(filter.op));
+  if (orders.length === 0 && inequality) {
+    orders.push({ type: 'orderBy', field: inequality.field, direction: 'asc' });
+  }
+
+  const compareDocuments = (a: [string, Data], b: [string, Data]) => {
+    for (const order of orders) {
+      const difference = compareValues(getField(a[1], order.field), getField(b[1], order.field));
+      if (difference !== 0) return order.direction === 'desc' ? -difference : difference;
+    }
+    const direction = orders[orders.length - 1]?.direction === 'desc' ? -1 : 1;
+    return a[0] < b[0] ? -direction : a[0] > b[0] ? direction : 0;
+  };
+
+  let results = [...documents.entries()]
+    .filter(([path]) => parentPath(path) === q.path)
+    .filter(([, data]) => filters.every(filter => matchesFilter(getField(data, filter.field), filter.op, filter.value)))
+    // Documents missing an ordered field are left out of the results
+    .filter(([, data]) => orders.every(order => getField(data, order.field) !== undefined))
+    .sort(compareDocuments);
+
+  q.constraints.forEach(constraint => {
+    if (constraint.type === 'startAt' || constraint.type === 'startAfter') {
+      const [first] = constraint.values;
+      const cursor = first instanceof DocumentSnapshot
+        ? orders.map(order => first.get(order.field))
+        : constraint.values.map(toStored);
+
+      results = results.filter(([, data]) => {
+        for (let i = 0; i < cursor.length && i < orders.length; i++) {
+          const difference = compareValues(getField(data, orders[i].field), cursor[i]);
+          if (difference !== 0) return orders[i].direction === 'desc' ? difference < 0 : difference > 0;
+        }
+        return constraint.type === 'startAt';
+      });
+    }
+    if (constraint.type === 'limit') results = results.slice(0, constraint.count);
+    if (constraint.type === 'limitToLast') results = results.slice(-constraint.count);
+  });
+
+  return results.map(([path, data]) => new QueryDocumentSnapshot(new DocumentReference(path, q.converter), data));
+};
+
+// Writes
+
+const applyFieldValue = (target: Data, key: string, value: unknown) => {
+  const resolved = value instanceof FieldValue ? value.resolve(target[key]) : toStored(value);
+  if (resolved === DELETE) {
+    delete target[key];
+  } else {
+    target[key] = resolved;
+  }
+};
+
+// Merged writes combine nested maps field by field instead of replacing them
+const mergeFields = (target: Data, fields: Data): Data => {
+  Object.entries(fields).forEach(([key, value]) => {
+    if (isPlainObject(value)) {
+      target[key] = mergeFields(isPlainObject(target[key]) ? { ...target[key] } : {}, value);
+    } else {
+      applyFieldValue(target, key, value);
+    }
+  });
+  return target;
+};
+
+const writeSet = (ref: DocumentReference, model: unknown, options: SetOptions = {}) => {
+  const data = (ref.converter ? ref.converter.toFirestore(model, options) : model) as Data;
+  const existing = documents.get(ref.path);
+
+  documents.set(ref.path, options.merge
+    ? mergeFields(clone(existing ?? {}), data)
+    : toStored(data) as Data);
+};
+
+// Keys of an update are field paths, so "a.b" updates the nested field b of map a
+const writeUpdate = (ref: DocumentReference, fields: Data) => {
+  const existing = documents.get(ref.path);
+  if (!existing) {
+    throw new FirestoreError('not-found', `No document to update: ${ref.path}`);
+  }
+
+  const updated = clone(existing);
+  Object.entries(fields).forEach(([fieldPath, value]) => {
+    const keys = fieldPath.split('.');
+    const leaf = keys.pop() as string;
+    const parent = keys.reduce<Data>((map, key) => {
+      if (!isPlainObject(map[key])) map[key] = {};
+      return map[key] as Data;
+    }, updated);
+    applyFieldValue(parent, leaf, value);
+  });
+
+  documents.set(ref.path, updated);
+};
+
+// Applies the writes together; if one fails none of them are kept
+const commitWrites = (writes: Array<() => void>) => {
+  const before = new Map(documents);
+
+  try {
+    writes.forEach(write => write());
+  } catch (error) {
+    documents.clear();
+    before.forEach((data, path) => documents.set(path, data));
+    throw error;
+  }
+
+  listeners.forEach(notify => notify());
+};
+
+export const setDoc = async (ref: DocumentReference, data: unknown, options?: SetOptions): Promise<void> => {
+  commitWrites([() => writeSet(ref, data, options)]);
+};
+
+export const addDoc = async (ref: CollectionReference, data: unknown): Promise<DocumentReference> => {
+  const documentRef = doc(ref);
+  commitWrites([() => writeSet(documentRef, data)]);
+  return documentRef;
+};
+
+export const updateDoc = async (ref: DocumentReference, data: Data): Promise<void> => {
+  commitWrites([() => writeUpdate(ref, data)]);
+};
+
+export const deleteDoc = async (ref: DocumentReference): Promise<void> => {
+  commitWrites([() => documents.delete(ref.path)]);
+};
+
+export class WriteBatch {
+  protected writes: Array<() => void> = [];
+  private committed = false;
+
+  set(ref: DocumentReference, data: unknown, options?: SetOptions): this {
+    this.writes.push(() => writeSet(ref, data, options));
+    return this;
+  }
+
+  update(ref: DocumentReference, data: Data): this {
+    this.writes.push(() => writeUpdate(ref, data));
+    return this;
+  }
+
+  delete(ref: DocumentReference): this {
+    this.writes.push(() => documents.delete(ref.path));
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) {
+      throw new FirestoreError('failed-precondition', 'A write batch can no longer be used after commit() has been called.');
+    }
+    this.committed = true;
+    commitWrites(this.writes);
+  }
+}
+
+export const writeBatch = (_db: FakeFirestore) => new WriteBatch();
+
+// Like Firestore, a transaction whose reads were changed by another write
+// before it commits runs again, up to five attempts
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+export class Transaction extends WriteBatch {
+  private readonly reads = new Map<string, Data | undefined>();
+
+  async get(ref: DocumentReference): Promise<DocumentSnapshot> {
+    this.reads.set(ref.path, documents.get(ref.path));
+    return getDoc(ref);
+  }
+
+  // Writes replace stored documents, so an unchanged document is the same object
+  isStale(): boolean {
+    return [...this.reads].some(([path, data]) => documents.get(path) !== data);
+  }
+}
+
+export const runTransaction = async <T>(
+  _db: FakeFirestore,
+  updateFunction: (transaction: Transaction) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; attempt <= MAX_TRANSACTION_ATTEMPTS; attempt++) {
+    const transaction = new Transaction();
+    const result = await updateFunction(transaction);
+
+    if (!transaction.isStale()) {
+      await transaction.commit();
+      return result;
+    }
+  }
+
+  throw new FirestoreError('aborted', 'Transaction failed after too much contention.');
+};
+
+// Reads
+
+export const getDoc = async (ref: DocumentReference): Promise<DocumentSnapshot> =>
+  new DocumentSnapshot(ref, documents.get(ref.path));
+
+export const getDocs = async (q: Query): Promise<QuerySnapshot> => new QuerySnapshot(q, runQuery(q));
+
+export const getCountFromServer = async (q: Query) => {
+  const count = runQuery(q).length;
+  return { data: () => ({ count }) };
+};
+
+// Calls onNext with the current result, then again after every commit that changes it
+export function onSnapshot(
+  ref: DocumentReference,
+  onNext: (snapshot: DocumentSnapshot) => void,
+  onError?: (error: Error) => void
+): () => void;
+export function onSnapshot(
+  q: Query,
+  onNext: (snapshot: QuerySnapshot) => void,
+  onError?: (error: Error) => void
+): () => void;
+export function onSnapshot(
+  target: DocumentReference | Query,
+  onNext: (snapshot: DocumentSnapshot & QuerySnapshot) => void,
+  onError?: (error: Error) => void
+): () => void {
+  let lastDelivered: string | undefined;
+  let active = true;
+
+  const deliver = () => {
+    queueMicrotask(() => {
+      if (!active) return;
+
+      try {
+        const snapshot = target instanceof DocumentReference
+          ? new DocumentSnapshot(target, documents.get(target.path))
+          : new QuerySnapshot(target, runQuery(target));
+        const serialized = JSON.stringify(target instanceof DocumentReference
+          ? documents.get(target.path) ?? null
+          : (snapshot as QuerySnapshot).docs.map(document => [document.ref.path, documents.get(document.ref.path)]));
+
+        if (serialized === lastDelivered) return;
+        lastDelivered = serialized;
+        onNext(snapshot as DocumentSnapshot & QuerySnapshot);
+      } catch (error) {
+        onError?.(error as Error);
+      }
+    });
+  };
+
+  listeners.add(deliver);
+  deliver();
+
+  return () => {
+    active = false;
+    listeners.delete(deliver);
+  };
+}
+
+// Test helpers
+
+export const resetFakeFirestore = () => {
+  documents.clear();
+  listeners.clear();
+};
+
+// Writes raw document data, bypassing converters, to set up a test
+export const seedDocument = (path: string, data: Data) => {
+  commitWrites([() => writeSet(new DocumentReference(path), data)]);
+};
+
+// Raw stored data (Dates as Timestamps) or undefined if there is no such document
+export const readDocument = (path: string): Data | undefined => clone(documents.get(path));
+
+// Paths of the documents directly inside a collection
+export const listDocuments = (collectionPath: string): string[] =>
+  [...documents.keys()].filter(path => parentPath(path) === collectionPath).sort();
+
+// Lets pending snapshot listeners deliver
+export const flushSnapshots = () => new Promise<void>(resolve => setTimeout(resolve, 0));
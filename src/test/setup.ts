@@ -0,0 +1,14 @@
+import { afterEach, vi } from 'vitest';
+import { resetFakeFirestore } from './fakeFirestore';
+
+// Every test runs against the in-memory Firestore instead of the real project
+vi.mock('firebase/firestore', () => import('./fakeFirestore'));
+
+vi.mock('@/lib/firebase', async () => {
+  const { fakeDb } = await import('./fakeFirestore');
+  return { db: fakeDb, auth: {}, storage: {}, default: {} };
+});
+
+afterEach(() => {
+  resetFakeFirestore();
+});
@@ -0,0 +1,72 @@
+import { TemplateMessageRef } from './chat';
+
+export type CampaignStatus = 'scheduled' | 'sending' | 'completed' | 'cancelled' | 'failed';
+
+export type CampaignRecipientState =
+  | 'pending'
+  | 'queued'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'failed'
+  | 'excluded';
+
+// Customers to target. Every criterion that is set must match; within a
+// criterion any value matches. Products and categories come from enquiries.
+export interface CampaignSegment {
+  tags?: string[];
+  products?: string[];
+  categories?: string[];
+  lastContactAfter?: Date;
+  lastContactBefore?: Date;
+}
+
+// A template broadcast, sent by the dispatchCampaigns function through the outbox
+export interface Campaign {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  template: TemplateMessageRef;
+  // Rendered template body, shown in each customer's chat
+  content: string;
+  segment: CampaignSegment;
+  scheduledFor: Date;
+  sendRatePerMinute: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  recipientCount?: number;
+  excludedCount?: number;
+  error?: string;
+}
+
+export interface CreateCampaignData {
+  name: string;
+  template: TemplateMessageRef;
+  content: string;
+  segment: CampaignSegment;
+  scheduledFor: Date;
+  sendRatePerMinute: number;
+}
+
+// Keyed by the customer's phone digits
+export interface CampaignRecipient {
+  id: string;
+  phone: string;
+  conversationId: string;
+  customerName?: string;
+  state: CampaignRecipientState;
+  excludedReason?: 'opted_out';
+  messageId?: string;
+  error?: string;
+  updatedAt?: Date;
+}
+
+export type CampaignRecipientCounts = Record<CampaignRecipientState, number>;
+
+export interface CampaignAudiencePreview {
+  eligible: number;
+  optedOut: number;
+}
@@ -6,9 +6,28 @@ export interface ChatMessage {
   content: string;
   messageType: 'text' | 'image' | 'file' | 'voice';
   timestamp: Date;
-  status: 'sent' | 'delivered' | 'read';
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  error?: MessageDeliveryError;
+  whatsappMessageId?: string;
+  deliveryState?: DeliveryState;
+  deliveryError?: string;
+  template?: TemplateMessageRef;
+  interactive?: InteractiveMessage;
+  interactiveReply?: InteractiveReply;
   reactions?: MessageReaction[];
   attachments?: MessageAttachment[];
+  // Set on customer messages an order was created from
+  orderId?: string;
+  orderNumber?: number;
+}
+
+// Whether an operator message made it to the WhatsApp API (as opposed to
+// `status`, which tracks what happened to it on the customer's side)
+export type DeliveryState = 'queued' | 'sent' | 'failed';
+
+export interface MessageDeliveryError {
+  code: number;
+  message: string;
 }
 
 export interface MessageReaction {
@@ -23,6 +42,7 @@ export interface MessageAttachment {
   url: string;
   type: string;
   size: number;
+  storagePath?: string;
 }
 
 export interface Conversation {
@@ -34,6 +54,9 @@ export interface Conversation {
   status: 'active' | 'closed' | 'pending';
   lastMessage?: ChatMessage;
   lastMessageAt: Date;
+  lastInboundAt?: Date;
+  serviceWindowExpiresAt?: Date;
+  lastOrderAction?: ConversationOrderAction;
   unreadCount: number;
   createdAt: Date;
   updatedAt: Date;
@@ -56,4 +79,98 @@ export interface MessageStatus {
   readBy: string[];
   deliveredAt?: Date;
   readAt?: Date;
-}
\ No newline at end of file
+  failedAt?: Date;
+  error?: MessageDeliveryError;
+}
+
+// Pre-approved WhatsApp (HSM) template, registered in the `message_templates` collection.
+// `body` mirrors the approved text with {{1}}, {{2}}... placeholders; `parameters`
+// labels each placeholder for the operator.
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category?: string;
+  body: string;
+  parameters: string[];
+  isActive: boolean;
+}
+
+export interface TemplateMessageRef {
+  name: string;
+  language: string;
+  parameters: string[];
+}
+
+// Reply buttons (up to 3) or a list picker sent by an operator
+export interface InteractiveMessage {
+  type: 'button' | 'list';
+  body: string;
+  buttonText?: string;
+  options: InteractiveOption[];
+}
+
+export interface InteractiveOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export type OrderReplyAction = 'confirm' | 'change' | 'cancel';
+
+// The option a customer picked, as stored by the WhatsApp webhook
+export interface InteractiveReply {
+  type: 'button_reply' | 'list_reply';
+  id: string;
+  title: string;
+  description?: string;
+  inReplyTo?: string;
+  orderAction?: OrderReplyAction;
+}
+
+// Latest order decision the customer made through a reply button
+export interface ConversationOrderAction {
+  action: OrderReplyAction;
+  messageId: string;
+  at: Date;
+}
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+
+// A business owner's decision to keep messaging a customer who opted out
+export interface ConsentOverride {
+  by: string;
+  byName?: string;
+  reason: string;
+  at?: Date;
+}
+
+// Entry in `customer_consent`, keyed by phone digits and written by the WhatsApp
+// webhook when a customer replies with an opt-out or opt-in keyword
+export interface CustomerConsent {
+  phone: string;
+  status: ConsentStatus;
+  keyword?: string;
+  language?: string;
+  updatedAt?: Date;
+  override?: ConsentOverride;
+}
+
+export type ScheduledMessageState = 'scheduled' | 'sent' | 'window_closed' | 'failed' | 'cancelled';
+
+// A "send later" message in `scheduled_messages`, queued in the outbox by the
+// dispatchScheduledMessages function at `scheduledFor`
+export interface ScheduledMessage {
+  id: string;
+  conversationId: string;
+  to: string;
+  content: string;
+  scheduledFor: Date;
+  state: ScheduledMessageState;
+  createdBy: string;
+  // Chat message created when it was sent
+  messageId?: string;
+  // When the service window closed, for messages held as `window_closed`
+  serviceWindowExpiresAt?: Date;
+  error?: string;
+}
@@ -0,0 +1,35 @@
+import type { StockMovementType } from '../../functions/src/stock';
+
+export type { StockMovementType };
+
+// One product variant's stock; the document ID comes from inventoryItemId
+export interface InventoryItem {
+  id: string;
+  productId: string;
+  productName: string;
+  sku?: string;
+  size?: string;
+  color?: string;
+  onHand: number;
+  // Held for confirmed orders that haven't shipped; see availableStock
+  reserved: number;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+// The variant a movement applies to, with the product details stored on its inventory item
+export type InventoryVariant = Pick<InventoryItem, 'productId' | 'productName' | 'sku' | 'size' | 'color'>;
+
+// Ledger entry; `quantity` is the signed change to on-hand stock
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number;
+  onHandAfter: number;
+  reason?: string;
+  orderId?: string;
+  by: string;
+  at: Date;
+}
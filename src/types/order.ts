@@ -0,0 +1,82 @@
+import type { OrderStatus, OrderTransitionRecord } from '../../functions/src/orderLifecycle';
+import type { StockAllocation } from '../../functions/src/stock';
+
+// Statuses and allowed transitions live in src/lib/orderLifecycle.ts
+export type { OrderStatus };
+
+// Who moved the order to which status, when and why
+export type OrderTransition = OrderTransitionRecord<Date>;
+
+// Customers are keyed by their phone digits, the same key as their conversation
+export interface OrderCustomer {
+  id: string;
+  name?: string;
+  phone: string;
+}
+
+// Amounts are integers in the currency's minor unit (e.g. cents)
+export interface OrderLineItem {
+  productId?: string;
+  name: string;
+  size?: string;
+  color?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// The customer message an order was created from: a chat message or an n8n enquiry
+export interface OrderSourceMessage {
+  collection: string;
+  messageId: string;
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  shipping: number;
+  discount: number;
+  total: number;
+}
+
+export interface Order extends OrderTotals {
+  id: string;
+  // Sequential and never reused; shown as "#1001"
+  number: number;
+  customer: OrderCustomer;
+  conversationId?: string;
+  sourceMessage?: OrderSourceMessage;
+  items: OrderLineItem[];
+  currency: string;
+  status: OrderStatus;
+  // Oldest first
+  history: OrderTransition[];
+  // Stock held since the order was confirmed, then taken when it shipped
+  stockReserved?: StockAllocation[];
+  stockShipped?: StockAllocation[];
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateOrderData {
+  customer: OrderCustomer;
+  conversationId?: string;
+  sourceMessage?: OrderSourceMessage;
+  items: OrderLineItem[];
+  currency: string;
+  shipping?: number;
+  discount?: number;
+  notes?: string;
+}
+
+export type UpdateOrderData = Partial<Pick<Order, 'customer' | 'items' | 'currency' | 'shipping' | 'discount' | 'notes'>>;
+
+export interface TransitionOrderOptions {
+  reason?: string;
+  notifyCustomer?: boolean;
+  // Confirm without enough stock; the function only allows business owners
+  overrideStock?: boolean;
+}
+
+// What the transitionOrder function reports back
+export type TransitionOrderResult = Pick<OrderTransition, 'from' | 'to' | 'notificationMessageId' | 'notificationSkipped' | 'stockOverride'>;
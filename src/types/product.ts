@@ -0,0 +1,14 @@
+// A catalog entry; amounts are integers in the currency's minor unit, like orders
+export interface Product {
+  id: string;
+  name: string;
+  sku?: string;
+  unitPrice: number;
+  currency: string;
+  // Variants customers can ask for; empty when the product has none
+  sizes: string[];
+  colors: string[];
+  // Other names customers use for it ("hoodie" for "Comfort Hoodie")
+  aliases: string[];
+  isActive: boolean;
+}